@@ -1,28 +1,140 @@
 
-import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
-import { Rank, Suit, Card, Player, GamePhase, LastPlay } from './types';
-import { RANKS, SUITS, RANK_ORDER } from './constants';
+import React, { createContext, useContext, useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { Rank, Suit, Card, Player, GamePhase, GameAction, GameEvent, GameEventType, GameState, DeckId, PlayRejection, RuleSet, SeatConfig, TimeControl, TimeoutAction } from './types';
+import { RANK_ORDER, SUITS, DECKS, DEFAULT_RULES, MIN_PLAYERS, MAX_PLAYERS, PLAY_ANIMATION_MS, BLUFF_REVEAL_MS, AI_QUICK_MOVE_MS, AI_THINK_MS, PENALTY_WINDOW_MS } from './constants';
+import { EVENT_TYPES, describeEvent, getEventPlayerIds } from './events';
+import { SavedGame, NetworkSession, Settings, loadSavedGame, saveGame, clearSavedGame, loadNetworkSession, saveNetworkSession, clearNetworkSession, loadPlayerStats, savePlayerStats, clearPlayerStats, loadSettings, saveSettings } from './storage';
+import { HUMAN_OPPONENT, PlayerStats, createEmptyStats, formatStatsCsv, formatStatsJson, recordGame, recordPracticeGame } from './stats';
+import { recordUndoStep, undoToDecisionPoint } from './undo';
+import { AdvisorReport, getAdvisorReport } from './advisor';
+import { TUTORIAL_CARDS, TUTORIAL_PLAYER_ID, TUTORIAL_STEPS, TUTOR_STRATEGY, TutorialStep, TutorialTarget, createTutorialGame, isTutorialMoveAllowed } from './tutorial';
+import { RandomSource, forkRandom, generateSeed, randomFromKey, toDealCode, parseDealCode } from './random';
+import { AiDecision, AiPlay, AiStrategy, getAiView, toLegalAiAction } from './ai';
+import { DEFAULT_STRATEGY_ID, getAiStrategies, getAiStrategy } from './strategies';
+import { formatRecord, parseRecord, RecordError } from './notation';
+import { MAX_GRACE_MS, MAX_PLAY_SIZE, MAX_TAKE_COUNT, MAX_TIME_LIMIT_MS, MIN_TIME_LIMIT_MS, RULE_PRESETS, TIMEOUT_ACTIONS, TIME_CONTROLS, applyPreset, changeDeck, getDeckRanks, getRuleErrors, getStarterRank, isSameRuleSet } from './rules';
+import { MIN_TURN_MS, TurnClock, createClock, formatClock, getRemainingMs, syncClock } from './clock';
+import { BEST_OF_OPTIONS, DEFAULT_POINTS_TARGET, MAX_POINTS_TARGET, MIN_POINTS_TARGET, Match, MatchFormat, createMatch, createMatchGame, dropMatchGame, getMatchStandings, getMatchWinnerId, recordMatchGame } from './match';
+import { ClientMessage, LobbyInfo, MAX_NAME_LENGTH, ServerErrorCode, toIntent } from './protocol';
+import { ServerConnection, connectToServer, getDefaultServerUrl, toTableState } from './networkClient';
+import { CHALLENGE_VIBRATION, createSoundPlayer, getEventCues, getEventVibration, vibrate } from './sound';
+import { DEFAULT_LOCALE, LOCALE_NAMES, Locale, Translator, createTranslator, formatCardName, formatList, formatRank, formatRankName, isMessageKey } from './i18n';
+import { createGame, reduce, canTake, canChallenge, isBluff, isFourOfAKind, getCurrentPlayer, getPlayRejection, isFaceUpPlay, getPlayablePile, hasPermanentStarter } from './engine';
+
+// Components read the translator for the chosen language from here.
+const TranslatorContext = createContext<Translator>(createTranslator(DEFAULT_LOCALE));
+const useTranslator = () => useContext(TranslatorContext);
 
 // HELPER FUNCTIONS
-const createDeck = (): Card[] => {
-  const deck: Card[] = [];
-  SUITS.forEach(suit => {
-    RANKS.forEach(rank => {
-      deck.push({ suit, rank, id: `${rank}-${suit}` });
-    });
+const buildSeats = (seats: SeatConfig[], t: Translator): Omit<Player, 'hand'>[] => {
+  const humanCount = seats.filter(seat => seat.isHuman).length;
+  const counters = { human: 0, ai: 0 };
+  return seats.map((seat, index) => {
+    const number = seat.isHuman ? ++counters.human : ++counters.ai;
+    const sameTypeCount = seat.isHuman ? humanCount : seats.length - humanCount;
+    const baseName = seat.isHuman ? t('player.human') : t('player.ai');
+    const name = sameTypeCount > 1 ? `${baseName} ${number}` : baseName;
+    return seat.isHuman ? { id: index + 1, name, isHuman: true } : { id: index + 1, name, isHuman: false, strategyId: seat.strategyId };
   });
-  return deck;
 };
 
-const shuffleDeck = <T,>(array: T[]): T[] => {
-  const newArray = [...array];
-  for (let i = newArray.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
-    [newArray[i], newArray[j]] = [newArray[j], newArray[i]];
+// The server leaves unnamed seats empty for every client to name in its own
+// language; they are named when shown, so a change of language renames them.
+const nameSeat = <T extends { id: number; name: string }>(seat: T, t: Translator): T =>
+  seat.name ? seat : { ...seat, name: t('player.seat', { id: seat.id }) };
+
+const getDealCode = (game: GameState): string =>
+  toDealCode({ seed: game.seed, playerCount: game.players.length, deck: game.rules.deck, starterCardId: game.rules.starterCardId });
+
+const downloadText = (filename: string, text: string) => {
+  const url = URL.createObjectURL(new Blob([text], { type: 'text/plain;charset=utf-8' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+const percentOf = (part: number, whole: number): string => (whole === 0 ? '–' : `${Math.round((part / whole) * 100)}%`);
+
+// Opponent declarations, challenge results, penalty windows and timeouts are read out to screen readers.
+const isAnnounced = (event: GameEvent, viewerId: number | undefined): boolean => {
+  switch (event.type) {
+    case 'CardsPlayed': return event.playerId !== viewerId;
+    case 'ChallengeResolved':
+    case 'PenaltyWindowOpened':
+    case 'TimedOut':
+    case 'GameWon': return true;
+    default: return false;
+  }
+};
+
+const isTypingTarget = (target: EventTarget | null): boolean =>
+  target instanceof HTMLInputElement || target instanceof HTMLTextAreaElement || target instanceof HTMLSelectElement;
+
+// Moves focus into a modal dialog, keeps Tab inside it and gives focus back once it closes.
+const useDialogFocus = (dialogRef: React.RefObject<HTMLDivElement | null>, onEscape?: () => void) => {
+  useEffect(() => {
+    const dialog = dialogRef.current;
+    if (!dialog) return;
+    const previouslyFocused = document.activeElement as HTMLElement | null;
+    const focusable = () => [...dialog.querySelectorAll<HTMLElement>('button:not([disabled])')];
+    focusable()[0]?.focus();
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape' && onEscape) {
+        e.preventDefault();
+        onEscape();
+        return;
+      }
+      if (e.key !== 'Tab') return;
+      const elements = focusable();
+      const first = elements[0];
+      const last = elements[elements.length - 1];
+      if (e.shiftKey && document.activeElement === first) {
+        e.preventDefault();
+        last?.focus();
+      } else if (!e.shiftKey && document.activeElement === last) {
+        e.preventDefault();
+        first?.focus();
+      }
+    };
+    dialog.addEventListener('keydown', handleKeyDown);
+    return () => {
+      dialog.removeEventListener('keydown', handleKeyDown);
+      previouslyFocused?.focus();
+    };
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+};
+
+// Strategies registered without a catalog entry show their id.
+const strategyLabel = (strategy: AiStrategy, t: Translator): string => {
+  const key = `strategy.${strategy.id}`;
+  return isMessageKey(key) ? t(key) : strategy.id;
+};
+
+const describePlayRejection = (rejection: PlayRejection, t: Translator, locale: Locale): string => {
+  const sizes = (counts: number[]) => ({ counts: formatList(locale, [...counts].sort((a, b) => a - b)), max: Math.max(...counts) });
+  switch (rejection.type) {
+    case 'OPENING_RANK':
+    case 'FOUR_OF_A_KIND_RANK':
+      return t(`playRejection.${rejection.type}`, { rank: formatRankName(t, rejection.rank) });
+    case 'RANK_TOO_LOW':
+      return t('playRejection.RANK_TOO_LOW', { rank: formatRankName(t, rejection.minRank) });
+    case 'OPENING_WITHOUT_STARTER':
+      return t('playRejection.OPENING_WITHOUT_STARTER', { starter: formatCardName(t, rejection.starterCardId) });
+    case 'OPENING_SIZE':
+    case 'PLAY_SIZE':
+      return t(`playRejection.${rejection.type}`, sizes(rejection.sizes));
+    default:
+      return t(`playRejection.${rejection.type}`);
   }
-  return newArray;
 };
 
+// Marks the controls a tutorial step is about.
+const TUTORIAL_HIGHLIGHT = 'ring-4 ring-amber-400 animate-pulse';
+
 
 // UI COMPONENTS (Defined outside the main App component)
 
@@ -32,15 +144,19 @@ interface CardComponentProps {
   isSelected?: boolean;
   onClick?: () => void;
   className?: string;
+  // Given to cards in the player's hand, which are reached with the keyboard.
+  tabIndex?: number;
+  elementRef?: (element: HTMLDivElement | null) => void;
 }
 
-const CardComponent: React.FC<CardComponentProps> = ({ card, isFaceDown = false, isSelected = false, onClick, className = '' }) => {
+const CardComponent: React.FC<CardComponentProps> = ({ card, isFaceDown = false, isSelected = false, onClick, className = '', tabIndex, elementRef }) => {
+  const t = useTranslator();
   const suitSymbols: { [key in Suit]: string } = { Kier: '♥', Karo: '♦', Pik: '♠', Trefl: '♣' };
   const suitColors: { [key in Suit]: string } = { Kier: 'text-red-500', Karo: 'text-red-500', Pik: 'text-black', Trefl: 'text-black' };
 
   if (isFaceDown) {
     return (
-      <div className={`w-20 h-28 bg-blue-900/50 border border-blue-700/50 rounded-lg flex items-center justify-center shadow-lg p-1 ${className}`}>
+      <div role="img" aria-label={t('card.faceDown')} className={`w-20 h-28 bg-blue-900/50 border border-blue-700/50 rounded-lg flex items-center justify-center shadow-lg p-1 ${className}`}>
          <div className="w-full h-full rounded-md bg-gradient-to-br from-blue-700 via-indigo-700 to-blue-600 flex items-center justify-center">
              <div className="w-1/2 h-1/2 border-2 border-blue-500/30 rounded-full blur-sm"></div>
          </div>
@@ -48,17 +164,32 @@ const CardComponent: React.FC<CardComponentProps> = ({ card, isFaceDown = false,
     );
   }
 
+  const isFocusable = tabIndex !== undefined;
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if ((e.key === 'Enter' || e.key === ' ') && onClick) {
+      e.preventDefault();
+      onClick();
+    }
+  };
+
   return (
     <div
+      ref={elementRef}
+      role={isFocusable ? 'button' : 'img'}
+      aria-label={formatCardName(t, card.id)}
+      aria-pressed={isFocusable ? isSelected : undefined}
+      aria-disabled={isFocusable && !onClick ? true : undefined}
+      tabIndex={tabIndex}
+      onKeyDown={isFocusable ? handleKeyDown : undefined}
       onClick={onClick}
-      className={`w-20 h-28 bg-white border rounded-lg flex flex-col justify-between p-2 shadow-lg transition-all duration-200 ease-in-out cursor-pointer hover:-translate-y-1 ${isSelected ? '-translate-y-4 scale-105 border-white border-2 shadow-[0_0_25px_rgba(255,255,255,0.6)]' : 'border-gray-300/50 hover:border-gray-400'} ${className}`}
+      className={`w-20 h-28 bg-white border rounded-lg flex flex-col justify-between p-2 shadow-lg transition-all duration-200 ease-in-out cursor-pointer hover:-translate-y-1 focus:outline-none focus-visible:ring-4 focus-visible:ring-blue-400 ${isSelected ? '-translate-y-4 scale-105 border-white border-2 shadow-[0_0_25px_rgba(255,255,255,0.6)]' : 'border-gray-300/50 hover:border-gray-400'} ${className}`}
     >
       <div className="text-left">
-        <div className={`text-2xl font-extrabold ${suitColors[card.suit]}`}>{card.rank}</div>
+        <div className={`text-2xl font-extrabold ${suitColors[card.suit]}`}>{formatRank(t, card.rank)}</div>
         <div className={`text-xl ${suitColors[card.suit]}`}>{suitSymbols[card.suit]}</div>
       </div>
       <div className={`text-2xl font-extrabold self-end transform rotate-180 ${suitColors[card.suit]}`}>
-        {card.rank}
+        {formatRank(t, card.rank)}
       </div>
     </div>
   );
@@ -67,18 +198,19 @@ const CardComponent: React.FC<CardComponentProps> = ({ card, isFaceDown = false,
 
 interface AnimatedCardProps {
     card: Card;
-    from: 'player' | 'ai';
+    from: 'player' | 'opponent';
     index: number;
+    rotation: { start: number; end: number };
     isFaceUp?: boolean;
 }
 
-const AnimatedCard: React.FC<AnimatedCardProps> = ({ card, from, index, isFaceUp = false }) => {
+const AnimatedCard: React.FC<AnimatedCardProps> = ({ card, from, index, rotation, isFaceUp = false }) => {
     const [style, setStyle] = useState<React.CSSProperties>({
         position: 'fixed',
         left: '50%',
         bottom: from === 'player' ? '25%' : 'auto',
         top: from === 'player' ? 'auto' : '25%',
-        transform: `translateX(-50%) rotate(${Math.random() * 10 - 5}deg) scale(0.8)`,
+        transform: `translateX(-50%) rotate(${rotation.start}deg) scale(0.8)`,
         transition: 'all 0.5s cubic-bezier(0.25, 1, 0.5, 1)',
         zIndex: 100 + index,
         opacity: 0.5,
@@ -90,7 +222,7 @@ const AnimatedCard: React.FC<AnimatedCardProps> = ({ card, from, index, isFaceUp
                 ...prev,
                 left: '50%',
                 top: '50%',
-                transform: `translate(-50%, -50%) rotate(${Math.random() * 20 - 10}deg)`,
+                transform: `translate(-50%, -50%) rotate(${rotation.end}deg)`,
                 opacity: 1,
             }));
         }, 10);
@@ -106,43 +238,104 @@ interface DeclaredCardDisplayProps {
     className?: string;
 }
 
-const DeclaredCardDisplay: React.FC<DeclaredCardDisplayProps> = ({ rank, className = '' }) => (
-    <div className={`w-20 h-28 bg-blue-600/10 backdrop-blur-md border-2 border-dashed border-blue-700/50 rounded-lg flex items-center justify-center shadow-lg ${className}`}>
-        <span className="text-5xl font-extrabold text-blue-300 opacity-80">{rank}</span>
-    </div>
-);
+const DeclaredCardDisplay: React.FC<DeclaredCardDisplayProps> = ({ rank, className = '' }) => {
+    const t = useTranslator();
+    return (
+        <div className={`w-20 h-28 bg-blue-600/10 backdrop-blur-md border-2 border-dashed border-blue-700/50 rounded-lg flex items-center justify-center shadow-lg ${className}`}>
+            <span className="text-5xl font-extrabold text-blue-300 opacity-80">{formatRank(t, rank)}</span>
+        </div>
+    );
+};
 
 
+interface TurnClockDisplayProps {
+  clock: TurnClock;
+  playerId: number;
+}
+
+const CLOCK_TICK_MS = 250;
+const LOW_TIME_MS = 10000;
+
+// Time left for one seat; red once it runs low.
+const TurnClockDisplay: React.FC<TurnClockDisplayProps> = ({ clock, playerId }) => {
+    const t = useTranslator();
+    const [now, setNow] = useState(() => Date.now());
+    const isRunning = clock.runningId === playerId;
+
+    // EFFECT TO TICK WHILE THIS SEAT'S TIME IS RUNNING
+    useEffect(() => {
+        if (!isRunning) return;
+        setNow(Date.now());
+        const timer = setInterval(() => setNow(Date.now()), CLOCK_TICK_MS);
+        return () => clearInterval(timer);
+    }, [isRunning, clock]);
+
+    const remainingMs = getRemainingMs(clock, playerId, now);
+    const time = formatClock(remainingMs);
+    const colour = remainingMs <= LOW_TIME_MS ? 'text-red-400' : isRunning ? 'text-white' : 'text-gray-500';
+    return (
+        <span role="timer" aria-label={t('clock.label', { time })} className={`font-mono text-sm font-bold tabular-nums ${colour}`}>
+            {time}
+        </span>
+    );
+};
+
 interface PlayerHandProps {
   player: Player;
   selectedCards: Card[];
   onCardSelect: (card: Card) => void;
   isPlayerTurn: boolean;
   lastCardDeclarerId: number | null;
+  isHidden?: boolean;
+  isHighlighted?: boolean;
+  clock?: TurnClock | null;
 }
 
-const PlayerHand: React.FC<PlayerHandProps> = ({ player, selectedCards, onCardSelect, isPlayerTurn, lastCardDeclarerId }) => {
+const PlayerHand: React.FC<PlayerHandProps> = ({ player, selectedCards, onCardSelect, isPlayerTurn, lastCardDeclarerId, isHidden = false, isHighlighted = false, clock = null }) => {
+  const t = useTranslator();
   const sortedHand = useMemo(() => {
     return [...player.hand].sort((a, b) => RANK_ORDER[a.rank] - RANK_ORDER[b.rank]);
   }, [player.hand]);
-  
+  // Only the active card is in the tab order; the arrow keys move between them.
+  const [focusIndex, setFocusIndex] = useState(0);
+  const cardRefs = useRef<(HTMLDivElement | null)[]>([]);
+  const activeIndex = Math.min(focusIndex, sortedHand.length - 1);
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    const targets: { [key: string]: number } = { ArrowLeft: activeIndex - 1, ArrowRight: activeIndex + 1, Home: 0, End: sortedHand.length - 1 };
+    if (isHidden || targets[e.key] === undefined) return;
+    e.preventDefault();
+    const index = Math.max(0, Math.min(sortedHand.length - 1, targets[e.key]));
+    setFocusIndex(index);
+    cardRefs.current[index]?.focus();
+  };
+
+  const handleFocus = (e: React.FocusEvent) => {
+    const index = cardRefs.current.indexOf(e.target as HTMLDivElement);
+    if (index >= 0) setFocusIndex(index);
+  };
+
   return (
-    <div className={`relative flex flex-col items-center p-4 rounded-[28px] transition-all duration-500 bg-blue-600/20 backdrop-blur-xl border border-blue-400/30 ${isPlayerTurn ? 'shadow-[0_0_40px_rgba(96,165,250,0.5)] bg-blue-600/30' : ''}`}>
-        <div className="flex justify-center items-end -space-x-6 w-full px-8">
-          {sortedHand.map(card => (
+    <div className={`relative flex flex-col items-center p-4 rounded-[28px] transition-all duration-500 bg-blue-600/20 backdrop-blur-xl border border-blue-400/30 ${isPlayerTurn ? 'shadow-[0_0_40px_rgba(96,165,250,0.5)] bg-blue-600/30' : ''} ${isHighlighted ? TUTORIAL_HIGHLIGHT : ''}`}>
+        <div role="group" aria-label={t('hand.label', { name: player.name })} onKeyDown={handleKeyDown} onFocus={handleFocus} className="flex justify-center items-end -space-x-6 w-full px-8">
+          {sortedHand.map((card, index) => (
             <CardComponent
               key={card.id}
               card={card}
-              isSelected={selectedCards.some(c => c.id === card.id)}
-              onClick={isPlayerTurn ? () => onCardSelect(card) : undefined}
+              isFaceDown={isHidden}
+              isSelected={!isHidden && selectedCards.some(c => c.id === card.id)}
+              onClick={isPlayerTurn && !isHidden ? () => onCardSelect(card) : undefined}
+              tabIndex={isHidden ? undefined : index === activeIndex ? 0 : -1}
+              elementRef={element => { cardRefs.current[index] = element; }}
             />
           ))}
         </div>
         <div className="absolute -top-5 bg-gray-900/80 backdrop-blur-lg px-6 py-2 rounded-full border border-white/10 flex items-center gap-4">
             <span className="text-xl font-bold tracking-wider text-gray-200">{player.name}</span>
+             {clock && <TurnClockDisplay clock={clock} playerId={player.id} />}
              {lastCardDeclarerId === player.id && (
                 <div className="px-3 py-1 bg-blue-600 text-white text-xs font-bold rounded-full shadow-[0_0_15px_rgba(59,130,246,0.8)] animate-pulse">
-                    OSTATNIA KARTA
+                    {t('hand.lastCard')}
                 </div>
             )}
         </div>
@@ -154,20 +347,26 @@ interface OpponentDisplayProps {
   player: Player;
   isPlayerTurn: boolean;
   lastCardDeclarerId: number | null;
+  compact?: boolean;
+  clock?: TurnClock | null;
 }
 
-const OpponentDisplay: React.FC<OpponentDisplayProps> = ({ player, isPlayerTurn, lastCardDeclarerId }) => {
+const OpponentDisplay: React.FC<OpponentDisplayProps> = ({ player, isPlayerTurn, lastCardDeclarerId, compact = false, clock = null }) => {
+    const t = useTranslator();
     return (
-        <div className={`relative flex flex-col items-center p-4 rounded-[28px] transition-all duration-500 bg-blue-600/20 backdrop-blur-xl border border-blue-400/30 ${isPlayerTurn ? 'shadow-[0_0_40px_rgba(96,165,250,0.5)] bg-blue-600/30' : ''}`}>
-            <div className="absolute -bottom-5 bg-gray-900/80 backdrop-blur-lg px-6 py-2 rounded-full border border-white/10 flex items-center gap-4">
-                <span className="text-xl font-bold tracking-wider text-gray-200">{player.name}</span>
+        <div className={`relative flex flex-col items-center p-4 rounded-[28px] transition-all duration-500 bg-blue-600/20 backdrop-blur-xl border border-blue-400/30 ${compact ? 'flex-1 min-w-0' : ''} ${isPlayerTurn ? 'shadow-[0_0_40px_rgba(96,165,250,0.5)] bg-blue-600/30' : ''}`}>
+            <div className="absolute -bottom-5 bg-gray-900/80 backdrop-blur-lg px-6 py-2 rounded-full border border-white/10 flex items-center gap-4 whitespace-nowrap">
+                <span className={`${compact ? 'text-base' : 'text-xl'} font-bold tracking-wider text-gray-200`}>{player.name}</span>
+                {compact && <span aria-hidden="true" className="text-sm font-bold text-gray-400">{player.hand.length}</span>}
+                <span className="sr-only">{t('opponent.cardCount', { count: player.hand.length })}</span>
+                {clock && <TurnClockDisplay clock={clock} playerId={player.id} />}
                 {lastCardDeclarerId === player.id && (
                     <div className="px-3 py-1 bg-blue-600 text-white text-xs font-bold rounded-full shadow-[0_0_15px_rgba(59,130,246,0.8)] animate-pulse">
-                        OSTATNIA KARTA
+                        {t('hand.lastCard')}
                     </div>
                 )}
             </div>
-            <div className="flex justify-center items-end -space-x-6 w-full px-8">
+            <div aria-hidden="true" className={`flex justify-center items-end w-full ${compact ? '-space-x-16 px-2' : '-space-x-6 px-8'}`}>
                 {player.hand.map((_, index) => (
                     <CardComponent key={index} card={{rank: '8', suit: 'Pik', id: `back-${index}`}} isFaceDown={true} />
                 ))}
@@ -183,9 +382,12 @@ interface ActionButtonProps {
     children: React.ReactNode;
     className?: string;
     variant?: 'primary' | 'secondary';
+    // Key that presses the button, shown next to its label.
+    shortcut?: string;
+    isHighlighted?: boolean;
 }
 
-const ActionButton: React.FC<ActionButtonProps> = ({ onClick, disabled = false, children, className = '', variant = 'primary' }) => {
+const ActionButton: React.FC<ActionButtonProps> = ({ onClick, disabled = false, children, className = '', variant = 'primary', shortcut, isHighlighted = false }) => {
     const baseClasses = 'px-6 py-3 text-lg font-bold rounded-2xl transition-all duration-200 ease-in-out disabled:opacity-40 disabled:cursor-not-allowed uppercase tracking-wider shadow-lg transform hover:-translate-y-0.5';
     
     const variantClasses = {
@@ -197,9 +399,11 @@ const ActionButton: React.FC<ActionButtonProps> = ({ onClick, disabled = false,
         <button
             onClick={onClick}
             disabled={disabled}
-            className={`${baseClasses} ${variantClasses[variant]} ${className}`}
+            aria-keyshortcuts={shortcut?.toUpperCase()}
+            className={`${baseClasses} ${variantClasses[variant]} ${isHighlighted ? TUTORIAL_HIGHLIGHT : ''} ${className}`}
         >
             {children}
+            {shortcut && <kbd aria-hidden="true" className="ml-2 font-mono text-xs opacity-60">{shortcut.toUpperCase()}</kbd>}
         </button>
     );
 };
@@ -208,307 +412,1401 @@ const ActionButton: React.FC<ActionButtonProps> = ({ onClick, disabled = false,
 interface DeclareRankModalProps {
     onDeclare: (rank: Rank) => void;
     onClose: () => void;
-    minRankOrder: number;
     selectedCards: Card[];
+    // Ranks of the deck in play, lowest first.
+    ranks: Rank[];
+    // Why the selected cards cannot be declared as a rank; null if they can.
+    getRejection: (rank: Rank) => string | null;
 }
   
-const DeclareRankModal: React.FC<DeclareRankModalProps> = ({ onDeclare, onClose, minRankOrder, selectedCards }) => {
+const DeclareRankModal: React.FC<DeclareRankModalProps> = ({ onDeclare, onClose, selectedCards, ranks, getRejection }) => {
+    const t = useTranslator();
+    const dialogRef = useRef<HTMLDivElement>(null);
+    useDialogFocus(dialogRef, onClose);
+    const reasons = [...new Set(ranks.map(getRejection).filter((reason): reason is string => reason !== null))];
+
     return (
         <div className="fixed inset-0 bg-black/70 backdrop-blur-sm flex justify-center items-center z-50">
-            <div className="bg-gray-900/60 backdrop-blur-2xl rounded-3xl p-8 shadow-2xl border border-white/10">
+            <div ref={dialogRef} role="dialog" aria-modal="true" aria-labelledby="declare-rank-title" className="bg-gray-900/60 backdrop-blur-2xl rounded-3xl p-8 shadow-2xl border border-white/10">
                 <div className="mb-6">
-                    <p className="text-center text-gray-400 mb-2 text-sm uppercase font-semibold tracking-wider">Zagrywane Karty</p>
+                    <p className="text-center text-gray-400 mb-2 text-sm uppercase font-semibold tracking-wider">{t('declare.playedCards')}</p>
                     <div className="flex justify-center items-center space-x-1">
                         {selectedCards.map(card => <CardComponent key={card.id} card={card} className="w-16 h-24" />)}
                     </div>
                 </div>
-                <h3 className="text-3xl font-bold text-center mb-6 text-gray-100">Zadeklaruj Rangę</h3>
+                <h3 id="declare-rank-title" className="text-3xl font-bold text-center mb-6 text-gray-100">{t('declare.title')}</h3>
                 <div className="grid grid-cols-4 gap-4">
-                {RANKS.map(rank => {
-                    const isDisabled = minRankOrder > 0 && RANK_ORDER[rank] < minRankOrder;
+                {ranks.map(rank => {
+                    const rejection = getRejection(rank);
+                    const isDisabled = rejection !== null;
                     return (
                         <button
                             key={rank}
                             onClick={() => onDeclare(rank)}
                             disabled={isDisabled}
+                            title={rejection ?? undefined}
+                            aria-label={formatRankName(t, rank)}
                             className={`w-20 h-28 rounded-lg flex items-center justify-center transition-all shadow-md transform hover:-translate-y-1
                                 ${isDisabled 
                                     ? 'bg-black/20 border border-white/10 opacity-40 cursor-not-allowed' 
                                     : 'bg-white/20 border border-white/20 hover:bg-white/30 hover:border-blue-500'
                                 }`}
                         >
-                            <span className={`text-5xl font-extrabold ${isDisabled ? 'text-gray-600' : 'text-gray-300'}`}>{rank}</span>
+                            <span className={`text-5xl font-extrabold ${isDisabled ? 'text-gray-600' : 'text-gray-300'}`}>{formatRank(t, rank)}</span>
                         </button>
                     )
                 })}
                 </div>
-                <button onClick={onClose} className="mt-8 w-full bg-white/20 hover:bg-white/30 text-white p-3 rounded-lg font-semibold uppercase tracking-wider">Anuluj</button>
+                {reasons.map(reason => <p key={reason} className="mt-4 text-center text-sm text-gray-400">{reason}</p>)}
+                <button onClick={onClose} className="mt-8 w-full bg-white/20 hover:bg-white/30 text-white p-3 rounded-lg font-semibold uppercase tracking-wider">{t('common.cancel')}</button>
+            </div>
+        </div>
+    );
+};
+
+interface TableSetupProps {
+    seats: SeatConfig[];
+    onChange: (seats: SeatConfig[]) => void;
+}
+
+const TableSetup: React.FC<TableSetupProps> = ({ seats, onChange }) => {
+    const t = useTranslator();
+    const seatNames = buildSeats(seats, t).map(seat => seat.name);
+
+    const setPlayerCount = (count: number) => {
+        onChange(Array.from({ length: count }, (_, index) => seats[index] ?? { isHuman: false }));
+    };
+
+    const toggleSeat = (index: number) => {
+        const nextSeats = seats.map((seat, i) => (i === index ? { ...seat, isHuman: !seat.isHuman } : seat));
+        if (nextSeats.some(seat => seat.isHuman)) onChange(nextSeats);
+    };
+
+    const setStrategy = (index: number, strategyId: string) => {
+        onChange(seats.map((seat, i) => (i === index ? { ...seat, strategyId } : seat)));
+    };
+
+    return (
+        <div className="mb-8 flex flex-col items-center gap-4">
+            <div className="flex items-center gap-2">
+                <span className="text-sm uppercase font-semibold tracking-wider text-gray-400 mr-2">{t('setup.playerCount')}</span>
+                {Array.from({ length: MAX_PLAYERS - MIN_PLAYERS + 1 }, (_, i) => MIN_PLAYERS + i).map(count => (
+                    <button
+                        key={count}
+                        onClick={() => setPlayerCount(count)}
+                        className={`w-10 h-10 rounded-xl font-bold transition-all ${seats.length === count ? 'bg-white text-black' : 'bg-white/20 text-white hover:bg-white/30'}`}
+                    >
+                        {count}
+                    </button>
+                ))}
+            </div>
+            <div className="flex flex-wrap justify-center gap-2">
+                {seats.map((seat, index) => (
+                    <div key={index} className="flex flex-col gap-1">
+                        <button
+                            onClick={() => toggleSeat(index)}
+                            className={`px-4 py-2 rounded-xl text-sm font-semibold border transition-all ${seat.isHuman ? 'bg-blue-600/40 border-blue-400/50' : 'bg-white/10 border-white/10 hover:bg-white/20'}`}
+                        >
+                            {seatNames[index]} · {seat.isHuman ? t('setup.human') : t('setup.computer')}
+                        </button>
+                        {!seat.isHuman && (
+                            <select
+                                aria-label={t('setup.level', { name: seatNames[index] })}
+                                value={getAiStrategy(seat.strategyId).id}
+                                onChange={e => setStrategy(index, e.target.value)}
+                                className="bg-black/30 border border-white/10 rounded-lg px-2 py-1 text-sm text-gray-200"
+                            >
+                                {getAiStrategies().map(strategy => (
+                                    <option key={strategy.id} value={strategy.id}>{strategyLabel(strategy, t)}</option>
+                                ))}
+                            </select>
+                        )}
+                    </div>
+                ))}
+            </div>
+            {seats.filter(seat => seat.isHuman).length > 1 && (
+                <p className="text-sm text-gray-400">{t('setup.hotSeat')}</p>
+            )}
+        </div>
+    );
+};
+
+interface RulesEditorProps {
+    rules: RuleSet;
+    onChange: (rules: RuleSet) => void;
+}
+
+const toggleCount = (counts: number[], count: number): number[] =>
+    counts.includes(count) ? counts.filter(c => c !== count) : [...counts, count].sort((a, b) => a - b);
+
+interface RuleNumberInputProps {
+    label: string;
+    // In units of `scale`: seconds for a scale of 1000.
+    value: number;
+    scale?: number;
+    min: number;
+    max: number;
+    step?: number;
+    // The rules with the entered value, in the rule's own units.
+    apply: (value: number) => RuleSet;
+    onChange: (rules: RuleSet) => void;
+}
+
+// What is typed is kept as a draft, so the number may pass through values the
+// rules do not allow; it is checked and applied on blur or Enter.
+const RuleNumberInput: React.FC<RuleNumberInputProps> = ({ label, value, scale = 1, min, max, step, apply, onChange }) => {
+    const t = useTranslator();
+    const [draft, setDraft] = useState<string | null>(null);
+    const [isRejected, setIsRejected] = useState(false);
+
+    // EFFECT TO DROP THE DRAFT WHEN THE RULE CHANGES ELSEWHERE (A PRESET)
+    useEffect(() => {
+        setDraft(null);
+        setIsRejected(false);
+    }, [value]);
+
+    const inputClassName = `w-28 bg-black/30 border rounded-lg px-2 py-1 text-gray-200 ${isRejected ? 'border-red-500' : 'border-white/10'}`;
+
+    const commit = () => {
+        if (draft === null) return;
+        const number = Number(draft);
+        const next = draft.trim() === '' ? null : apply(scale === 1 ? number : Math.round(number * scale));
+        if (next && getRuleErrors(next).length === 0) {
+            onChange(next);
+            setDraft(null);
+        } else {
+            setIsRejected(true);
+        }
+    };
+
+    return (
+        <div className="flex flex-col gap-1">
+            <label className="flex items-center gap-3">
+                <span className="flex-1">{label}</span>
+                <input
+                    type="number"
+                    min={min}
+                    max={max}
+                    step={step}
+                    value={draft ?? value / scale}
+                    onChange={e => { setDraft(e.target.value); setIsRejected(false); }}
+                    onBlur={commit}
+                    onKeyDown={e => { if (e.key === 'Enter') commit(); }}
+                    aria-invalid={isRejected}
+                    className={inputClassName}
+                />
+            </label>
+            {isRejected && <p className="text-right text-red-400">{t('rules.outOfRange', { min, max })}</p>}
+        </div>
+    );
+};
+
+const RulesEditor: React.FC<RulesEditorProps> = ({ rules, onChange }) => {
+    const t = useTranslator();
+    const sizes = Array.from({ length: MAX_PLAY_SIZE }, (_, i) => i + 1);
+    const activePreset = RULE_PRESETS.find(preset => isSameRuleSet(applyPreset(rules, preset), rules));
+    const inputClassName = 'w-28 bg-black/30 border border-white/10 rounded-lg px-2 py-1 text-gray-200';
+
+    // Edits that would make the rules unplayable are ignored.
+    const update = (changes: Partial<RuleSet>) => {
+        const next = { ...rules, ...changes };
+        if (getRuleErrors(next).length === 0) onChange(next);
+    };
+
+    return (
+        <details className="mb-8 mx-auto max-w-xl text-left">
+            <summary className="cursor-pointer text-center text-sm uppercase font-semibold tracking-wider text-gray-400">
+                {t('rules.title', { preset: activePreset ? t(`rulePreset.${activePreset.id}`) : t('rules.custom') })}
+            </summary>
+            <div className="mt-3 flex flex-col gap-3 text-sm text-gray-300">
+                <div className="flex flex-wrap justify-center gap-2">
+                    {RULE_PRESETS.map(preset => (
+                        <button
+                            key={preset.id}
+                            onClick={() => onChange(applyPreset(rules, preset))}
+                            className={`px-4 py-2 rounded-xl font-semibold transition-all ${preset === activePreset ? 'bg-white text-black' : 'bg-white/20 text-white hover:bg-white/30'}`}
+                        >
+                            {t(`rulePreset.${preset.id}`)}
+                        </button>
+                    ))}
+                </div>
+                <label className="flex items-center gap-3">
+                    <span className="flex-1">{t('rules.deck')}</span>
+                    <select value={rules.deck} onChange={e => onChange(changeDeck(rules, e.target.value as DeckId))} className="bg-black/30 border border-white/10 rounded-lg px-2 py-1 text-gray-200">
+                        {(Object.keys(DECKS) as DeckId[]).map(deck => (
+                            <option key={deck} value={deck}>{t(`deck.${deck}`)}</option>
+                        ))}
+                    </select>
+                </label>
+                {(['playSizes', 'openingSizes'] as const).map(key => (
+                    <div key={key} className="flex flex-wrap items-center gap-3">
+                        <span className="flex-1">{t(`rules.${key}`)}</span>
+                        {sizes.map(size => (
+                            <label key={size} className="flex items-center gap-1">
+                                <input type="checkbox" checked={rules[key].includes(size)} onChange={() => update({ [key]: toggleCount(rules[key], size) })} />
+                                {size}
+                            </label>
+                        ))}
+                    </div>
+                ))}
+                <label className="flex items-center gap-3">
+                    <span className="flex-1">{t('rules.faceUpFourOfAKind')}</span>
+                    <input type="checkbox" checked={rules.faceUpFourOfAKind} onChange={e => update({ faceUpFourOfAKind: e.target.checked })} />
+                </label>
+                {(['takeCount', 'penaltyCount'] as const).map(key => (
+                    <RuleNumberInput
+                        key={key}
+                        label={t(`rules.${key}`)}
+                        value={rules[key]}
+                        min={1}
+                        max={MAX_TAKE_COUNT}
+                        apply={value => ({ ...rules, [key]: value })}
+                        onChange={onChange}
+                    />
+                ))}
+                <RuleNumberInput
+                    label={t('rules.grace')}
+                    value={rules.lastCardGraceMs}
+                    scale={1000}
+                    min={0}
+                    max={MAX_GRACE_MS / 1000}
+                    step={0.5}
+                    apply={value => ({ ...rules, lastCardGraceMs: value })}
+                    onChange={onChange}
+                />
+                <label className="flex items-center gap-3">
+                    <span className="flex-1">{t('rules.starter')}</span>
+                    <select value={rules.starterCardId} onChange={e => update({ starterCardId: e.target.value })} className={inputClassName}>
+                        {SUITS.flatMap(suit => getDeckRanks(rules).map(rank => (
+                            <option key={`${rank}-${suit}`} value={`${rank}-${suit}`}>{formatCardName(t, `${rank}-${suit}`)}</option>
+                        )))}
+                    </select>
+                </label>
+                <label className="flex items-center gap-3">
+                    <span className="flex-1">{t('rules.permanentStarter')}</span>
+                    <input type="checkbox" checked={rules.isStarterPermanent} onChange={e => update({ isStarterPermanent: e.target.checked })} />
+                </label>
+                <label className="flex items-center gap-3">
+                    <span className="flex-1">{t('rules.timeControl')}</span>
+                    <select value={rules.timeControl} onChange={e => update({ timeControl: e.target.value as TimeControl })} className={inputClassName}>
+                        {TIME_CONTROLS.map(control => (
+                            <option key={control} value={control}>{t(`timeControl.${control}`)}</option>
+                        ))}
+                    </select>
+                </label>
+                {rules.timeControl !== 'off' && (
+                    <>
+                        <RuleNumberInput
+                            label={t(rules.timeControl === 'turn' ? 'rules.timeLimitTurn' : 'rules.timeLimitChess')}
+                            value={rules.timeLimitMs}
+                            scale={1000}
+                            min={MIN_TIME_LIMIT_MS / 1000}
+                            max={MAX_TIME_LIMIT_MS / 1000}
+                            step={5}
+                            apply={value => ({ ...rules, timeLimitMs: value })}
+                            onChange={onChange}
+                        />
+                        <label className="flex items-center gap-3">
+                            <span className="flex-1">{t('rules.timeoutAction')}</span>
+                            <select value={rules.timeoutAction} onChange={e => update({ timeoutAction: e.target.value as TimeoutAction })} className={inputClassName}>
+                                {TIMEOUT_ACTIONS.map(action => (
+                                    <option key={action} value={action}>{t(`timeoutAction.${action}`)}</option>
+                                ))}
+                            </select>
+                        </label>
+                    </>
+                )}
             </div>
+        </details>
+    );
+};
+
+interface DealCodeInputProps {
+    value: string;
+    onChange: (value: string) => void;
+    isValid: boolean;
+}
+
+const DealCodeInput: React.FC<DealCodeInputProps> = ({ value, onChange, isValid }) => {
+    const t = useTranslator();
+    return (
+        <div className="mb-8 flex flex-col items-center gap-2">
+            <label htmlFor="deal-code" className="text-sm uppercase font-semibold tracking-wider text-gray-400">{t('dealCode.label')}</label>
+            <input
+                id="deal-code"
+                value={value}
+                onChange={e => onChange(e.target.value)}
+                placeholder={t('dealCode.placeholder')}
+                maxLength={12}
+                className={`w-56 px-4 py-2 rounded-xl bg-black/30 border text-center font-mono font-bold uppercase tracking-widest text-white placeholder:text-gray-600 outline-none ${isValid ? 'border-white/20 focus:border-blue-400' : 'border-red-500'}`}
+            />
+            {!isValid && <p className="text-sm text-red-400">{t('dealCode.invalid')}</p>}
+        </div>
+    );
+};
+
+interface PracticeToggleProps {
+    isPractice: boolean;
+    onChange: (isPractice: boolean) => void;
+}
+
+const PracticeToggle: React.FC<PracticeToggleProps> = ({ isPractice, onChange }) => {
+    const t = useTranslator();
+    return (
+        <label className="mb-8 flex items-center justify-center gap-3 text-gray-300">
+            <input type="checkbox" checked={isPractice} onChange={e => onChange(e.target.checked)} />
+            {t('menu.practice')}
+        </label>
+    );
+};
+
+interface MatchSetupProps {
+    // Null for a single game.
+    format: MatchFormat | null;
+    onChange: (format: MatchFormat | null) => void;
+}
+
+const MatchSetup: React.FC<MatchSetupProps> = ({ format, onChange }) => {
+    const t = useTranslator();
+    const value = !format ? 'single' : format.type === 'bestOf' ? `bestOf-${format.games}` : 'points';
+
+    const handleSelect = (option: string) => {
+        if (option === 'single') onChange(null);
+        else if (option === 'points') onChange({ type: 'points', target: DEFAULT_POINTS_TARGET });
+        else onChange({ type: 'bestOf', games: Number(option.split('-')[1]) });
+    };
+
+    const handleTarget = (text: string) => {
+        const target = Number(text);
+        if (Number.isInteger(target) && target >= MIN_POINTS_TARGET && target <= MAX_POINTS_TARGET) onChange({ type: 'points', target });
+    };
+
+    return (
+        <div className="mb-8 flex flex-wrap items-center justify-center gap-3 text-gray-300">
+            <label className="flex items-center gap-3">
+                {t('match.format')}
+                <select value={value} onChange={e => handleSelect(e.target.value)} className="bg-black/30 border border-white/10 rounded-lg px-2 py-1 text-gray-200">
+                    <option value="single">{t('match.single')}</option>
+                    {BEST_OF_OPTIONS.map(games => <option key={games} value={`bestOf-${games}`}>{t('match.bestOf', { games })}</option>)}
+                    <option value="points">{t('match.toPoints')}</option>
+                </select>
+            </label>
+            {format?.type === 'points' && (
+                <label className="flex items-center gap-3">
+                    {t('match.target')}
+                    <input
+                        type="number"
+                        min={MIN_POINTS_TARGET}
+                        max={MAX_POINTS_TARGET}
+                        defaultValue={format.target}
+                        onChange={e => handleTarget(e.target.value)}
+                        className="w-20 bg-black/30 border border-white/10 rounded-lg px-2 py-1 text-gray-200"
+                    />
+                </label>
+            )}
+            {format && <p className="w-full max-w-xl text-sm text-gray-400">{t('match.rules')}</p>}
         </div>
     );
 };
 
-interface GameOverBannerProps {
-    winnerName: string;
-    onRestart: () => void;
+interface RecordImportProps {
+    onImport: (game: GameState) => void;
+}
+
+const RecordImport: React.FC<RecordImportProps> = ({ onImport }) => {
+    const t = useTranslator();
+    const [text, setText] = useState('');
+    const [errors, setErrors] = useState<RecordError[]>([]);
+
+    const handleImport = () => {
+        const result = parseRecord(text, t);
+        if ('errors' in result) {
+            setErrors(result.errors);
+        } else {
+            setErrors([]);
+            onImport(result.game);
+        }
+    };
+
+    const handleFile = async (file: File | undefined) => {
+        if (!file) return;
+        setText(await file.text());
+        setErrors([]);
+    };
+
+    return (
+        <details className="mb-8 mx-auto max-w-xl text-left">
+            <summary className="cursor-pointer text-center text-sm uppercase font-semibold tracking-wider text-gray-400">{t('record.import')}</summary>
+            <div className="mt-3 flex flex-col gap-3">
+                <textarea
+                    aria-label={t('record.text')}
+                    value={text}
+                    onChange={e => { setText(e.target.value); setErrors([]); }}
+                    placeholder="OSZUST 2"
+                    rows={8}
+                    className="w-full px-4 py-2 rounded-xl bg-black/30 border border-white/20 focus:border-blue-400 font-mono text-sm text-white placeholder:text-gray-600 outline-none"
+                />
+                <div className="flex flex-wrap items-center justify-between gap-3">
+                    <input type="file" accept=".txt,text/plain" aria-label={t('record.file')} onChange={e => handleFile(e.target.files?.[0])} className="text-sm text-gray-400" />
+                    <ActionButton onClick={handleImport} disabled={!text.trim()} variant="secondary">
+                        {t('record.load')}
+                    </ActionButton>
+                </div>
+                {errors.length > 0 && (
+                    <ul className="space-y-1 text-sm text-red-400">
+                        {errors.map((error, i) => (
+                            <li key={i}>{t('record.errorLine', { line: error.line, message: error.message })}</li>
+                        ))}
+                    </ul>
+                )}
+            </div>
+        </details>
+    );
+};
+
+interface StatTileProps {
+    label: string;
+    value: number;
+    details: string[];
+}
+
+const StatTile: React.FC<StatTileProps> = ({ label, value, details }) => (
+    <div className="p-4 rounded-2xl bg-black/30 border border-white/10">
+        <p className="text-sm uppercase font-semibold tracking-wider text-gray-400">{label}</p>
+        <p className="text-4xl font-black text-white my-1">{value}</p>
+        {details.map(detail => <p key={detail} className="text-sm text-gray-300">{detail}</p>)}
+    </div>
+);
+
+interface StatsScreenProps {
+    stats: PlayerStats;
+    onBack: () => void;
+    onReset: () => void;
+}
+
+const StatsScreen: React.FC<StatsScreenProps> = ({ stats, onBack, onReset }) => {
+    const t = useTranslator();
+    const opponentLabel = (type: string) => {
+        const strategy = getAiStrategies().find(s => s.id === type);
+        return type === HUMAN_OPPONENT ? t('setup.human') : strategy ? strategyLabel(strategy, t) : type;
+    };
+    const averagePile = stats.pilesCollected === 0 ? 0 : Math.round(stats.cardsCollected / stats.pilesCollected);
+
+    return (
+        <div className="min-h-screen w-full flex flex-col items-center p-4 md:p-8">
+            <h1 className="text-5xl font-black mb-8 text-white tracking-tighter">{t('stats.title')}</h1>
+            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4 w-full max-w-4xl">
+                <StatTile label={t('stats.games')} value={stats.games} details={[t('stats.winsDetail', { count: stats.wins, percent: percentOf(stats.wins, stats.games) }), t('stats.practiceDetail', { count: stats.practiceGames })]} />
+                <StatTile
+                    label={t('stats.bluffs')}
+                    value={stats.bluffs}
+                    details={[
+                        t('stats.bluffShare', { percent: percentOf(stats.bluffs, stats.plays) }),
+                        t('stats.bluffsCaught', { count: stats.bluffsCaught, percent: percentOf(stats.bluffsCaught, stats.bluffs) }),
+                    ]}
+                />
+                <StatTile label={t('stats.challenges')} value={stats.challenges} details={[t('stats.correctChallenges', { count: stats.correctChallenges, percent: percentOf(stats.correctChallenges, stats.challenges) })]} />
+                <StatTile label={t('stats.piles')} value={stats.pilesCollected} details={[t('stats.pileSizes', { average: averagePile, largest: stats.largestPile })]} />
+                <StatTile label={t('stats.penaltiesSuffered')} value={stats.penaltiesSuffered} details={[t('stats.penaltiesSufferedDetail')]} />
+                <StatTile label={t('stats.penaltiesIssued')} value={stats.penaltiesIssued} details={[t('stats.penaltiesIssuedDetail')]} />
+            </div>
+            <table className="mt-8 w-full max-w-4xl text-left text-gray-200">
+                <thead className="text-sm uppercase tracking-wider text-gray-400">
+                    <tr><th className="py-2">{t('stats.opponent')}</th><th>{t('stats.games')}</th><th>{t('stats.wins')}</th><th>{t('stats.winRate')}</th></tr>
+                </thead>
+                <tbody>
+                    {Object.keys(stats.byOpponent).map(type => (
+                        <tr key={type} className="border-t border-white/10">
+                            <td className="py-2 font-semibold">{opponentLabel(type)}</td>
+                            <td>{stats.byOpponent[type].games}</td>
+                            <td>{stats.byOpponent[type].wins}</td>
+                            <td>{percentOf(stats.byOpponent[type].wins, stats.byOpponent[type].games)}</td>
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+            {stats.games === 0 && <p className="mt-4 text-gray-400">{t('stats.empty')}</p>}
+            <div className="mt-8 flex flex-wrap justify-center gap-4">
+                <ActionButton onClick={() => downloadText(`${t('stats.fileName')}.json`, formatStatsJson(stats))} variant="secondary" disabled={stats.games === 0}>{t('stats.downloadJson')}</ActionButton>
+                <ActionButton onClick={() => downloadText(`${t('stats.fileName')}.csv`, formatStatsCsv(stats))} variant="secondary" disabled={stats.games === 0}>{t('stats.downloadCsv')}</ActionButton>
+                <ActionButton onClick={onReset} variant="secondary" disabled={stats.games === 0}>{t('stats.reset')}</ActionButton>
+                <ActionButton onClick={onBack}>{t('common.back')}</ActionButton>
+            </div>
+        </div>
+    );
+};
+
+const getMatchPlayerName = (match: Match, playerId: number): string => match.players.find(p => p.id === playerId)?.name ?? '';
+
+const formatMatchStandings = (match: Match, t: Translator): string =>
+    getMatchStandings(match)
+        .map(standing => t('match.standing', { name: getMatchPlayerName(match, standing.playerId), wins: standing.wins, points: standing.points }))
+        .join(' · ');
+
+interface MatchSummaryProps {
+    match: Match;
+    // Absent once the match is decided.
+    onNextGame?: () => void;
+    onNewMatch: () => void;
+    onMenu: () => void;
+}
+
+const MatchSummary: React.FC<MatchSummaryProps> = ({ match, onNextGame, onNewMatch, onMenu }) => {
+    const t = useTranslator();
+    const winnerId = getMatchWinnerId(match);
+    const standings = getMatchStandings(match);
+    const { format } = match;
+
+    return (
+        <div className="min-h-screen w-full flex flex-col items-center p-4 md:p-8">
+            <h1 className="text-5xl font-black mb-2 text-white tracking-tighter">{t('match.title')}</h1>
+            <p className="text-xl text-gray-400 mb-8">
+                {winnerId !== null
+                    ? t('match.winner', { name: getMatchPlayerName(match, winnerId) })
+                    : format.type === 'bestOf' ? t('match.goal.bestOf', { games: format.games }) : t('match.goal.points', { target: format.target })}
+            </p>
+            <table className="w-full max-w-4xl text-left text-gray-200">
+                <thead className="text-sm uppercase tracking-wider text-gray-400">
+                    <tr>
+                        <th className="py-2">{t('match.game')}</th>
+                        <th>{t('match.opener')}</th>
+                        {match.players.map(p => <th key={p.id}>{p.name}</th>)}
+                    </tr>
+                </thead>
+                <tbody>
+                    {match.results.map((result, index) => (
+                        <tr key={result.seed} className="border-t border-white/10">
+                            <td className="py-2 font-semibold">{index + 1}</td>
+                            <td>{getMatchPlayerName(match, result.openerId)}</td>
+                            {match.players.map(p => (
+                                <td key={p.id} className={p.id === result.winnerId ? 'font-bold text-amber-300' : undefined}>
+                                    {p.id === result.winnerId ? t('match.gamePoints', { points: result.points }) : t('match.cardsLeft', { count: result.cardsLeft[p.id] ?? 0 })}
+                                </td>
+                            ))}
+                        </tr>
+                    ))}
+                    <tr className="border-t border-white/30 font-semibold">
+                        <td className="py-2">{t('match.total')}</td>
+                        <td />
+                        {standings.map(standing => (
+                            <td key={standing.playerId} className={standing.playerId === winnerId ? 'text-amber-300' : undefined}>
+                                {t('match.totalDetail', { wins: standing.wins, points: standing.points })}
+                            </td>
+                        ))}
+                    </tr>
+                </tbody>
+            </table>
+            <div className="mt-8 flex flex-wrap justify-center gap-4">
+                <ActionButton onClick={onMenu} variant="secondary">{t('match.menu')}</ActionButton>
+                {onNextGame
+                    ? <ActionButton onClick={onNextGame}>{t('match.nextGame')}</ActionButton>
+                    : <ActionButton onClick={onNewMatch}>{t('match.newMatch')}</ActionButton>}
+            </div>
+        </div>
+    );
+};
+
+interface NetworkTable {
+    url: string;
+    seatId: number | null;
+    lobby: LobbyInfo | null;
+    isConnected: boolean;
+    error: ServerErrorCode | null;
+    // Why the server refused a play, if that was the error.
+    rejection: PlayRejection | null;
+}
+
+interface NetworkPanelProps {
+    network: NetworkTable | null;
+    session: NetworkSession | null;
+    // Sent with a new table; the server plays every game there by them.
+    rules: RuleSet;
+    onConnect: (url: string, request: ClientMessage) => void;
+    onStart: () => void;
+    onLeave: () => void;
+}
+
+const NetworkPanel: React.FC<NetworkPanelProps> = ({ network, session, rules, onConnect, onStart, onLeave }) => {
+    const t = useTranslator();
+    const [url, setUrl] = useState(() => session?.url ?? getDefaultServerUrl());
+    const [name, setName] = useState('');
+    const [lobbyId, setLobbyId] = useState('');
+    const inputClassName = 'w-full px-4 py-2 rounded-xl bg-black/30 border border-white/20 focus:border-blue-400 text-white placeholder:text-gray-600 outline-none';
+
+    if (!network) {
+        return (
+            <details className="mb-8 mx-auto max-w-xl text-left">
+                <summary className="cursor-pointer text-center text-sm uppercase font-semibold tracking-wider text-gray-400">{t('network.title')}</summary>
+                <div className="mt-3 flex flex-col gap-3">
+                    <input aria-label={t('network.serverUrl')} value={url} onChange={e => setUrl(e.target.value)} placeholder="ws://192.168.0.10:8787" className={`${inputClassName} font-mono text-sm`} />
+                    <input aria-label={t('network.name')} value={name} onChange={e => setName(e.target.value)} placeholder={t('network.name')} maxLength={MAX_NAME_LENGTH} className={inputClassName} />
+                    <div className="flex flex-wrap items-center gap-3">
+                        <ActionButton onClick={() => onConnect(url, { type: 'CREATE_LOBBY', name, rules })} disabled={!url.trim()} variant="secondary">
+                            {t('network.newTable')}
+                        </ActionButton>
+                        <input aria-label={t('network.tableCode')} value={lobbyId} onChange={e => setLobbyId(e.target.value.toUpperCase())} placeholder={t('network.codePlaceholder')} maxLength={4} className={`${inputClassName} flex-1 w-auto font-mono font-bold uppercase tracking-widest text-center`} />
+                        <ActionButton onClick={() => onConnect(url, { type: 'JOIN_LOBBY', lobbyId, name })} disabled={!url.trim() || !lobbyId.trim()} variant="secondary">
+                            {t('network.join')}
+                        </ActionButton>
+                    </div>
+                    {session && (
+                        <ActionButton onClick={() => onConnect(session.url, { type: 'RESUME', lobbyId: session.lobbyId, token: session.token })} variant="secondary">
+                            {t('network.resume', { lobbyId: session.lobbyId })}
+                        </ActionButton>
+                    )}
+                </div>
+            </details>
+        );
+    }
+
+    const { lobby } = network;
+    const isHost = lobby !== null && lobby.hostId === network.seatId;
+
+    return (
+        <div className="mb-8 mx-auto max-w-xl p-6 bg-black/30 border border-white/10 rounded-2xl flex flex-col items-center gap-4">
+            {lobby ? (
+                <>
+                    <p className="text-sm uppercase font-semibold tracking-wider text-gray-400">
+                        {t('network.tableCode')}: <span className="font-mono text-2xl text-white select-all">{lobby.lobbyId}</span>
+                    </p>
+                    <ul className="flex flex-wrap justify-center gap-2">
+                        {lobby.seats.map(seat => (
+                            <li key={seat.id} className={`px-4 py-2 rounded-xl text-sm font-semibold border ${seat.id === network.seatId ? 'bg-blue-600/40 border-blue-400/50' : 'bg-white/10 border-white/10'} ${seat.isConnected ? '' : 'opacity-50'}`}>
+                                {nameSeat(seat, t).name}{seat.id === lobby.hostId && ` · ${t('network.host')}`}{!seat.isConnected && ` · ${t('network.disconnected')}`}
+                            </li>
+                        ))}
+                    </ul>
+                    {isHost
+                        ? <ActionButton onClick={onStart} disabled={lobby.seats.length < MIN_PLAYERS || lobby.isPlaying}>{t('network.start')}</ActionButton>
+                        : <p className="text-gray-400">{t('network.waitingForHost')}</p>}
+                </>
+            ) : (
+                <p className="text-gray-400 animate-pulse">{network.isConnected ? t('network.takingSeat') : t('network.connecting')}</p>
+            )}
+            {network.error && <p className="text-sm text-red-400">{t(`serverError.${network.error}`, { count: MIN_PLAYERS })}</p>}
+            <ActionButton onClick={onLeave} variant="secondary" className="py-2 text-sm">{t('network.leave')}</ActionButton>
+        </div>
+    );
+};
+
+interface NetworkStatusBarProps {
+    network: NetworkTable;
+    locale: Locale;
+    onLeave: () => void;
+}
+
+const NetworkStatusBar: React.FC<NetworkStatusBarProps> = ({ network, locale, onLeave }) => {
+    const t = useTranslator();
+    const disconnected = network.lobby?.seats.filter(seat => !seat.isConnected) ?? [];
+
+    return (
+        <div className="fixed top-4 left-4 z-40 flex flex-wrap items-center gap-3 bg-gray-900/80 backdrop-blur-lg rounded-2xl px-4 py-2 border border-white/10 text-sm">
+            {network.lobby && <span className="font-mono font-bold text-gray-200">{network.lobby.lobbyId}</span>}
+            {!network.isConnected && <span className="text-orange-400 animate-pulse">{t('network.connecting')}</span>}
+            {disconnected.length > 0 && <span className="text-orange-400">{t('network.disconnectedPlayers', { names: disconnected.map(seat => nameSeat(seat, t).name).join(', ') })}</span>}
+            {network.error && (
+                <span className="text-red-400">
+                    {network.rejection ? describePlayRejection(network.rejection, t, locale) : t(`serverError.${network.error}`, { count: MIN_PLAYERS })}
+                </span>
+            )}
+            <button onClick={onLeave} className="text-gray-400 hover:text-white underline">{t('network.leave')}</button>
+        </div>
+    );
+};
+
+interface EventLogPanelProps {
+    events: GameEvent[];
+    players: Player[];
+    rules: RuleSet;
+    // Both are unknown to a network client: the seed would reveal the deal.
+    dealCode?: string;
+    onExportRecord?: () => void;
+}
+
+const EventLogPanel: React.FC<EventLogPanelProps> = ({ events, players, rules, dealCode, onExportRecord }) => {
+    const t = useTranslator();
+    const [typeFilter, setTypeFilter] = useState<GameEventType | 'ALL'>('ALL');
+    const [playerFilter, setPlayerFilter] = useState<number | 'ALL'>('ALL');
+    const logContainerRef = useRef<HTMLDivElement>(null);
+
+    const visibleEvents = events.filter(event =>
+        (typeFilter === 'ALL' || event.type === typeFilter) &&
+        (playerFilter === 'ALL' || getEventPlayerIds(event).includes(playerFilter))
+    );
+
+    // EFFECT TO SCROLL LOG TO BOTTOM
+    useEffect(() => {
+        if (logContainerRef.current) {
+            logContainerRef.current.scrollTop = logContainerRef.current.scrollHeight;
+        }
+    }, [visibleEvents.length]);
+
+    const selectClassName = 'flex-1 min-w-0 bg-black/30 border border-white/10 rounded-lg px-2 py-1 text-sm text-gray-200';
+
+    return (
+        <div className="w-full md:w-96 bg-blue-600/20 backdrop-blur-xl border-l border-blue-400/30 flex flex-col p-4 max-h-screen">
+            <h2 className="text-3xl font-extrabold mb-2 text-center border-b-2 border-white/10 pb-2 text-gray-200">{t('log.title')}</h2>
+            {dealCode && (
+                <p className="mb-4 text-center text-xs uppercase tracking-wider text-gray-400">
+                    {t('log.dealCode')} <span className="font-mono font-bold text-gray-200 select-all">{dealCode}</span>
+                </p>
+            )}
+            {onExportRecord && (
+                <ActionButton onClick={onExportRecord} variant="secondary" className="mb-4 py-2 text-sm">
+                    {t('log.downloadRecord')}
+                </ActionButton>
+            )}
+            <div className="flex gap-2 mb-4">
+                <select aria-label={t('log.filterType')} value={typeFilter} onChange={e => setTypeFilter(e.target.value as GameEventType | 'ALL')} className={selectClassName}>
+                    <option value="ALL">{t('log.allEvents')}</option>
+                    {EVENT_TYPES.map(type => (
+                        <option key={type} value={type}>{t(`eventType.${type}`)}</option>
+                    ))}
+                </select>
+                <select aria-label={t('log.filterPlayer')} value={playerFilter} onChange={e => setPlayerFilter(e.target.value === 'ALL' ? 'ALL' : Number(e.target.value))} className={selectClassName}>
+                    <option value="ALL">{t('log.allPlayers')}</option>
+                    {players.map(player => (
+                        <option key={player.id} value={player.id}>{player.name}</option>
+                    ))}
+                </select>
+            </div>
+            <div ref={logContainerRef} className="flex-grow overflow-y-auto pr-2">
+                <div className="space-y-3">
+                {visibleEvents.map((event, i) => (
+                    <div key={i} className={`p-3 rounded-lg text-sm max-w-full break-words bg-black/20 border border-white/10`}>
+                        {describeEvent(event, players, rules, t)}
+                    </div>
+                ))}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+interface GameOverBannerProps {
+    winnerName: string;
+    // Absent when someone else decides on a rematch (a network table's host).
+    onRestart?: () => void;
+    // Only in practice games.
+    onUndo?: () => void;
+    // In match play: the standings so far, the next game instead of a fresh one, and the summary.
+    match?: Match;
+    onShowMatch?: () => void;
+}
+
+const GameOverBanner: React.FC<GameOverBannerProps> = ({ winnerName, onRestart, onUndo, match, onShowMatch }) => {
+    const t = useTranslator();
+    const isMatchOver = !!match && getMatchWinnerId(match) !== null;
+    return (
+        <div className="fixed top-8 left-1/2 -translate-x-1/2 bg-gray-900/80 backdrop-blur-lg rounded-2xl p-6 shadow-2xl border border-white/10 text-center z-50">
+            <h2 className="text-3xl font-bold text-white mb-2">{t('gameOver.title')}</h2>
+            <p className="text-xl mb-4 text-gray-300">{t('gameOver.winner', { name: winnerName })}</p>
+            {match && <p className="mb-4 text-gray-400">{formatMatchStandings(match, t)}</p>}
+            <div className="flex justify-center gap-4">
+                {onUndo && <ActionButton onClick={onUndo} variant="secondary">{t('table.undo')}</ActionButton>}
+                {onShowMatch && <ActionButton onClick={onShowMatch} variant={isMatchOver ? 'primary' : 'secondary'}>{t('match.summary')}</ActionButton>}
+                {isMatchOver ? null : onRestart
+                    ? <ActionButton onClick={onRestart} variant="primary">{t(match ? 'match.nextGame' : 'gameOver.playAgain')}</ActionButton>
+                    : <p className="text-gray-400">{t('gameOver.waitingForHost')}</p>}
+            </div>
+        </div>
+    );
+};
+
+interface RevealedBluffDisplayProps {
+    cards: Card[];
+}
+
+const RevealedBluffDisplay: React.FC<RevealedBluffDisplayProps> = ({ cards }) => {
+    const t = useTranslator();
+    return (
+        <div className="fixed top-1/2 left-1/2 -translate-x-1/2 -translate-y-[150%] bg-gray-900/90 backdrop-blur-lg rounded-xl p-4 shadow-2xl border border-orange-500 text-center z-40">
+            <h2 className="text-xl font-bold text-orange-400 mb-1">{t('bluff.revealed')}</h2>
+            <div className="flex justify-center items-center space-x-1">
+                {cards.map(card => <CardComponent key={card.id} card={card} className="w-16 h-24" />)}
+            </div>
+        </div>
+    );
+};
+
+interface PassDeviceScreenProps {
+    playerName: string;
+    onReveal: () => void;
+}
+
+const PassDeviceScreen: React.FC<PassDeviceScreenProps> = ({ playerName, onReveal }) => {
+    const t = useTranslator();
+    return (
+        <div className="fixed inset-0 bg-gray-950 flex justify-center items-center z-50">
+            <div className="text-center p-8">
+                <p className="text-lg uppercase tracking-wider text-gray-400 mb-2">{t('passDevice.title')}</p>
+                <h2 className="text-5xl font-extrabold text-white mb-8">{playerName}</h2>
+                <ActionButton onClick={onReveal} className="px-10 py-4">
+                    {t('passDevice.reveal', { name: playerName })}
+                </ActionButton>
+            </div>
+        </div>
+    );
+};
+
+interface PenaltyReactionPanelProps {
+    humans: Player[];
+    offenderId: number;
+    isOpen: boolean;
+    onReport: (playerId: number) => void;
+    onCorrect: (playerId: number) => void;
+}
+
+// In hot-seat games every human gets a named button, so reacting to a missed
+// "last card" never depends on whose hand happens to be on screen.
+const PenaltyReactionPanel: React.FC<PenaltyReactionPanelProps> = ({ humans, offenderId, isOpen, onReport, onCorrect }) => {
+    const t = useTranslator();
+    const offender = humans.find(p => p.id === offenderId);
+    const reporters = isOpen ? humans.filter(p => p.id !== offenderId) : [];
+    if (!offender && reporters.length === 0) return null;
+
+    return (
+        <div className="fixed bottom-4 left-1/2 -translate-x-1/2 z-[60] flex flex-wrap justify-center gap-2 bg-gray-900/90 backdrop-blur-lg rounded-2xl p-3 border border-red-500/50 shadow-2xl">
+            {offender && (
+                <ActionButton onClick={() => onCorrect(offender.id)} variant="secondary" className="py-2 text-sm">
+                    {t('penalty.correct', { name: offender.name })}
+                </ActionButton>
+            )}
+            {reporters.map(reporter => (
+                <ActionButton key={reporter.id} onClick={() => onReport(reporter.id)} variant="secondary" className="py-2 text-sm bg-red-600 enabled:hover:bg-red-500 animate-pulse">
+                    {t('penalty.report', { name: reporter.name })}
+                </ActionButton>
+            ))}
+        </div>
+    );
+};
+
+interface FinalChallengeModalProps {
+    onChallenge: () => void;
+    onConcede: () => void;
+    opponentName: string;
+}
+
+const FinalChallengeModal: React.FC<FinalChallengeModalProps> = ({ onChallenge, onConcede, opponentName }) => {
+    const t = useTranslator();
+    const dialogRef = useRef<HTMLDivElement>(null);
+    useDialogFocus(dialogRef);
+
+    return (
+        <div className="fixed inset-0 bg-black/85 backdrop-blur-md flex justify-center items-center z-50">
+            <div ref={dialogRef} role="dialog" aria-modal="true" aria-labelledby="final-challenge-title" aria-describedby="final-challenge-question" className="bg-gray-900/80 backdrop-blur-lg rounded-3xl p-8 shadow-2xl border border-white/10 text-center">
+                <h2 id="final-challenge-title" className="text-4xl font-extrabold text-white mb-4">{t('finalChallenge.title')}</h2>
+                <p id="final-challenge-question" className="text-xl mb-8 text-gray-300">{t('finalChallenge.question', { name: opponentName })}</p>
+                <div className="flex justify-center gap-4">
+                    <ActionButton onClick={onChallenge}>{t('finalChallenge.challenge')}</ActionButton>
+                    <ActionButton onClick={onConcede} variant="secondary">{t('finalChallenge.concede')}</ActionButton>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+interface TutorialPanelProps {
+    step: TutorialStep;
+    // Whether the table has reached the state the step is about.
+    isReady: boolean;
+    isWrongMove: boolean;
+    tutorName: string;
+    rules: RuleSet;
+    onNext: () => void;
+    onExit: () => void;
+}
+
+const TutorialPanel: React.FC<TutorialPanelProps> = ({ step, isReady, isWrongMove, tutorName, rules, onNext, onExit }) => {
+    const t = useTranslator();
+    const stepIndex = TUTORIAL_STEPS.indexOf(step);
+    const values = {
+        starter: formatCardName(t, TUTORIAL_CARDS.starter.id),
+        bluff: formatCardName(t, TUTORIAL_CARDS.bluff.id),
+        last: formatCardName(t, TUTORIAL_CARDS.last.id),
+        takeCount: rules.takeCount,
+        penaltyCount: rules.penaltyCount,
+    };
+
+    return (
+        <div aria-live="polite" className="fixed top-4 left-4 z-40 max-w-sm bg-gray-900/85 backdrop-blur-lg rounded-2xl p-5 shadow-2xl border border-amber-400/40">
+            <p className="text-xs uppercase tracking-wider text-amber-300 mb-2">{t('tutorial.progress', { step: stepIndex + 1, count: TUTORIAL_STEPS.length })}</p>
+            <h2 className="text-xl font-bold text-white mb-2">{t(`tutorial.${step.id}.title`)}</h2>
+            <p className="text-gray-300 mb-4">{isReady ? t(`tutorial.${step.id}.text`, values) : t('tutorial.waiting', { tutor: tutorName })}</p>
+            {isWrongMove && <p role="alert" className="text-sm text-red-400 mb-4">{t('tutorial.wrongMove')}</p>}
+            <div className="flex flex-wrap gap-2">
+                {isReady && !step.expects && (
+                    <ActionButton onClick={stepIndex === TUTORIAL_STEPS.length - 1 ? onExit : onNext} className="py-2 text-sm">
+                        {stepIndex === TUTORIAL_STEPS.length - 1 ? t('tutorial.finish') : t('tutorial.next')}
+                    </ActionButton>
+                )}
+                {stepIndex < TUTORIAL_STEPS.length - 1 && (
+                    <ActionButton onClick={onExit} variant="secondary" className="py-2 text-sm">{t('tutorial.exit')}</ActionButton>
+                )}
+            </div>
+        </div>
+    );
+};
+
+interface AdvisorPanelProps {
+    report: AdvisorReport;
+    players: Player[];
+    onHide: () => void;
+}
+
+const AdvisorPanel: React.FC<AdvisorPanelProps> = ({ report, players, onHide }) => {
+    const t = useTranslator();
+    const { claim, bluffChance, advice } = report;
+    const claimant = claim && players.find(p => p.id === claim.playerId);
+
+    return (
+        <aside aria-label={t('advisor.title')} className="fixed bottom-4 left-4 z-30 max-w-xs bg-gray-900/85 backdrop-blur-lg rounded-2xl p-4 shadow-2xl border border-emerald-400/40 text-sm">
+            <div className="flex items-center justify-between mb-2">
+                <h2 className="font-bold text-emerald-300 uppercase tracking-wider">{t('advisor.title')}</h2>
+                <button onClick={onHide} className="text-xs text-gray-400 hover:text-white">{t('advisor.hide')}</button>
+            </div>
+            {claim && bluffChance !== null ? (
+                <>
+                    <p className="text-gray-200">{t('advisor.claim', { name: claimant?.name ?? '', count: claim.declaredCount, rank: formatRank(t, claim.declaredRank) })}</p>
+                    <p className="font-bold text-white">{t('advisor.bluffChance', { percent: percentOf(Math.round(bluffChance * 100), 100) })}</p>
+                    <div className="mt-1 h-2 rounded-full bg-white/10 overflow-hidden">
+                        <div className="h-full bg-emerald-400" style={{ width: `${Math.round(bluffChance * 100)}%` }} />
+                    </div>
+                </>
+            ) : (
+                <p className="text-gray-400">{t('advisor.noClaim')}</p>
+            )}
+            {advice && (
+                <p className="mt-3 font-semibold text-emerald-200">
+                    {t(`advisor.advice.${advice.type}`, advice.type === 'PLAY_HONEST'
+                        ? { count: advice.count, rank: formatRankName(t, advice.rank) }
+                        : advice.type === 'BLUFF' ? { rank: formatRankName(t, advice.rank) } : {})}
+                </p>
+            )}
+            <p className="mt-3 text-xs text-gray-500">{t('advisor.basis')}</p>
+        </aside>
+    );
+};
+
+interface HotkeysProps {
+    // Lower-case key to action; null while the action is unavailable.
+    bindings: { [key: string]: (() => void) | null };
+}
+
+// Keys typed into form fields are left alone.
+const Hotkeys: React.FC<HotkeysProps> = ({ bindings }) => {
+    useEffect(() => {
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (e.ctrlKey || e.metaKey || e.altKey || isTypingTarget(e.target)) return;
+            const action = bindings[e.key.toLowerCase()];
+            if (!action) return;
+            e.preventDefault();
+            action();
+        };
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, [bindings]);
+
+    return null;
+};
+
+interface LiveRegionProps {
+    message: string;
 }
 
-const GameOverBanner: React.FC<GameOverBannerProps> = ({ winnerName, onRestart }) => (
-    <div className="fixed top-8 left-1/2 -translate-x-1/2 bg-gray-900/80 backdrop-blur-lg rounded-2xl p-6 shadow-2xl border border-white/10 text-center z-50">
-        <h2 className="text-3xl font-bold text-white mb-2">Koniec Gry!</h2>
-        <p className="text-xl mb-4 text-gray-300">Wygrywa <span className="font-bold text-white">{winnerName}</span>!</p>
-        <ActionButton onClick={onRestart} variant="primary">
-            Zagraj Ponownie
-        </ActionButton>
-    </div>
+// Read out by screen readers whenever the message changes.
+const LiveRegion: React.FC<LiveRegionProps> = ({ message }) => (
+    <div role="status" aria-live="polite" className="sr-only">{message}</div>
 );
 
-interface RevealedBluffDisplayProps {
-    cards: Card[];
+interface LanguageSwitchProps {
+    locale: Locale;
+    onChange: (locale: Locale) => void;
 }
 
-const RevealedBluffDisplay: React.FC<RevealedBluffDisplayProps> = ({ cards }) => (
-    <div className="fixed top-1/2 left-1/2 -translate-x-1/2 -translate-y-[150%] bg-gray-900/90 backdrop-blur-lg rounded-xl p-4 shadow-2xl border border-orange-500 text-center z-40">
-        <h2 className="text-xl font-bold text-orange-400 mb-1">Ujawniony Blef!</h2>
-        <div className="flex justify-center items-center space-x-1">
-            {cards.map(card => <CardComponent key={card.id} card={card} className="w-16 h-24" />)}
-        </div>
-    </div>
-);
+const LanguageSwitch: React.FC<LanguageSwitchProps> = ({ locale, onChange }) => {
+    const t = useTranslator();
+    return (
+        <select
+            aria-label={t('app.language')}
+            value={locale}
+            onChange={e => onChange(e.target.value as Locale)}
+            className="fixed top-4 right-4 z-40 bg-black/30 border border-white/10 rounded-lg px-2 py-1 text-sm text-gray-200"
+        >
+            {(Object.keys(LOCALE_NAMES) as Locale[]).map(option => (
+                <option key={option} value={option}>{LOCALE_NAMES[option]}</option>
+            ))}
+        </select>
+    );
+};
 
-interface FinalChallengeModalProps {
-    onChallenge: () => void;
-    onConcede: () => void;
-    opponentName: string;
+interface SoundControlsProps {
+    volume: number;
+    isMuted: boolean;
+    onChange: (changes: Partial<Settings>) => void;
+    className?: string;
 }
 
-const FinalChallengeModal: React.FC<FinalChallengeModalProps> = ({ onChallenge, onConcede, opponentName }) => (
-    <div className="fixed inset-0 bg-black/85 backdrop-blur-md flex justify-center items-center z-50">
-        <div className="bg-gray-900/80 backdrop-blur-lg rounded-3xl p-8 shadow-2xl border border-white/10 text-center">
-            <h2 className="text-4xl font-extrabold text-white mb-4">Ostatnia Karta!</h2>
-            <p className="text-xl mb-8 text-gray-300">{opponentName} zagrał ostatnią kartę. Sprawdzasz?</p>
-            <div className="flex justify-center gap-4">
-                <ActionButton onClick={onChallenge}>Sprawdzam!</ActionButton>
-                <ActionButton onClick={onConcede} variant="secondary">Poddaję się</ActionButton>
-            </div>
+const SoundControls: React.FC<SoundControlsProps> = ({ volume, isMuted, onChange, className = '' }) => {
+    const t = useTranslator();
+    return (
+        <div className={`z-40 flex items-center gap-2 bg-black/30 border border-white/10 rounded-lg px-2 py-1 text-sm text-gray-200 ${className}`}>
+            <button onClick={() => onChange({ isMuted: !isMuted })} aria-label={t(isMuted ? 'sound.unmute' : 'sound.mute')} title={t(isMuted ? 'sound.unmute' : 'sound.mute')}>
+                {isMuted || volume === 0 ? '🔇' : '🔊'}
+            </button>
+            <input
+                type="range"
+                min={0}
+                max={100}
+                value={Math.round(volume * 100)}
+                disabled={isMuted}
+                aria-label={t('sound.volume')}
+                onChange={e => onChange({ soundVolume: Number(e.target.value) / 100 })}
+                className="w-20 accent-amber-400 disabled:opacity-40"
+            />
         </div>
-    </div>
-);
+    );
+};
 
 
 // MAIN APP COMPONENT
 export default function App() {
   const [gamePhase, setGamePhase] = useState<GamePhase>('MENU');
-  const [players, setPlayers] = useState<Player[]>([]);
-  const [currentPlayerIndex, setCurrentPlayerIndex] = useState(0);
-  const [discardPile, setDiscardPile] = useState<Card[]>([]);
-  const [lastPlay, setLastPlay] = useState<LastPlay | null>(null);
-  const [gameLog, setGameLog] = useState<string[]>([]);
+  const [seats, setSeats] = useState<SeatConfig[]>([{ isHuman: true }, { isHuman: false }]);
+  const [game, setGame] = useState<GameState | null>(null);
+  const [viewerId, setViewerId] = useState<number | null>(null);
+  // Hot seat: the human who has confirmed they are holding the device this turn.
+  const [revealedViewerId, setRevealedViewerId] = useState<number | null>(null);
+  const [dealCode, setDealCode] = useState('');
+  const [savedGame] = useState<SavedGame | null>(() => loadSavedGame());
   const [selectedCards, setSelectedCards] = useState<Card[]>([]);
   const [isDeclareModalOpen, setDeclareModalOpen] = useState(false);
-  const [winner, setWinner] = useState<Player | null>(null);
   const [lastCardDeclared, setLastCardDeclared] = useState(false);
-  const [penaltyOpportunity, setPenaltyOpportunity] = useState<{ forPlayerId: number, byPlayerId: number } | null>(null);
   const [revealedBluff, setRevealedBluff] = useState<{ cards: Card[] } | null>(null);
-  const [finalPlay, setFinalPlay] = useState<LastPlay | null>(null);
-  const [animatingCards, setAnimatingCards] = useState<{ cards: Card[]; from: 'player' | 'ai'; key: number; isFaceUp: boolean; } | null>(null);
+  const [animatingCards, setAnimatingCards] = useState<{ cards: Card[]; from: 'player' | 'opponent'; key: number; isFaceUp: boolean; } | null>(null);
   const [visibleDeclaration, setVisibleDeclaration] = useState<Rank | null>(null);
-  const [isOpeningMoveAvailable, setOpeningMoveAvailable] = useState(false);
-  const [lastCardDeclarerId, setLastCardDeclarerId] = useState<number | null>(null);
-
-  const penaltyTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
-  const logContainerRef = useRef<HTMLDivElement>(null);
-
-  const humanPlayer = players.find(p => p.isHuman);
-  const aiPlayer = players.find(p => !p.isHuman);
-  const currentPlayer = players[currentPlayerIndex];
-  const minRankOrder = useMemo(() => (lastPlay ? RANK_ORDER[lastPlay.declaredRank] : 0), [lastPlay]);
-
-  const addLog = useCallback((message: string) => {
-    setGameLog(prev => [message, ...prev].slice(0, 100));
+  // Set while seated at a table on a game server, which then owns the game.
+  const [network, setNetwork] = useState<NetworkTable | null>(null);
+  const [networkSession, setNetworkSession] = useState<NetworkSession | null>(() => loadNetworkSession());
+  const [playerStats, setPlayerStats] = useState<PlayerStats>(() => loadPlayerStats());
+  // House rules for the next game started from the menu.
+  const [houseRules, setHouseRules] = useState<RuleSet>(DEFAULT_RULES);
+  const [settings, setSettings] = useState<Settings>(() => loadSettings());
+  const [announcement, setAnnouncement] = useState('');
+  const [isPractice, setPractice] = useState(false);
+  // The match format for the next game started from the menu, and the match being played.
+  const [matchFormat, setMatchFormat] = useState<MatchFormat | null>(null);
+  const [match, setMatch] = useState<Match | null>(null);
+  const [undoHistory, setUndoHistory] = useState<GameState[]>([]);
+  // Index into TUTORIAL_STEPS while the tutorial is played.
+  const [tutorialStepIndex, setTutorialStepIndex] = useState<number | null>(null);
+  const [isTutorialWrongMove, setTutorialWrongMove] = useState(false);
+  const [clock, setClock] = useState<TurnClock | null>(null);
+  const t = useMemo(() => createTranslator(settings.locale), [settings.locale]);
+
+  const aiRandomRef = useRef<RandomSource>(Math.random);
+  const connectionRef = useRef<ServerConnection | null>(null);
+  const previousGameRef = useRef<GameState | null>(null);
+  // The start event of the game last counted in the statistics. Undo steps share it
+  // with the game they came from, so a game finished again after an undo counts once.
+  const recordedGameStartRef = useRef<GameEvent | null>(null);
+  const announcedEventCountRef = useRef(0);
+  const undoBaseRef = useRef<GameState | null>(null);
+  // When the pending missed last-card call was seen here; reaction times count from it.
+  const penaltySinceRef = useRef({ id: -1, at: 0 });
+  const soundPlayerRef = useRef(createSoundPlayer());
+
+  const players = useMemo(() => (game?.players ?? []).map(p => nameSeat(p, t)), [game, t]);
+  const discardPile = game?.discardPile ?? [];
+  const lastPlay = game?.lastPlay ?? null;
+  const finalPlay = game?.finalPlay ?? null;
+  const penalty = game?.penalty ?? null;
+  const isOpeningMoveAvailable = game?.isOpeningMoveAvailable ?? false;
+  const lastCardDeclarerId = game?.lastCardDeclarerId ?? null;
+  const rules = game?.rules ?? houseRules;
+
+  const currentPlayer = game ? getCurrentPlayer(game) : undefined;
+  // The human whose hand is on screen: whoever of them is (or was last) on turn.
+  const humanPlayer = players.find(p => p.id === viewerId) ?? players.find(p => p.isHuman);
+  const humans = players.filter(p => p.isHuman);
+  const isHotSeat = !network && humans.length > 1;
+  const aiPlayer = currentPlayer && !currentPlayer.isHuman ? currentPlayer : undefined;
+  const winner = players.find(p => p.id === game?.winnerId) ?? null;
+  const tutorialStep = tutorialStepIndex === null ? null : TUTORIAL_STEPS[tutorialStepIndex];
+  // Network games are never practice games: the server keeps no undo history. Nor is the tutorial, which follows a script.
+  const isPracticeGame = isPractice && !network && !tutorialStep;
+  const strategyOf = (player: Player): AiStrategy => (tutorialStep ? TUTOR_STRATEGY : getAiStrategy(player.strategyId));
+
+  // At a network table actions go to the server, which sends back the new state.
+  const dispatch = useCallback((action: GameAction) => {
+    if (connectionRef.current) {
+        const intent = toIntent(action);
+        if (intent) connectionRef.current.send({ type: 'INTENT', intent });
+        return;
+    }
+    setGame(prev => (prev ? reduce(prev, action) : prev));
   }, []);
-  
+
   const resetGame = useCallback(() => {
-    if (penaltyTimerRef.current) clearTimeout(penaltyTimerRef.current);
-    setPlayers([]);
-    setCurrentPlayerIndex(0);
-    setDiscardPile([]);
-    setLastPlay(null);
-    setGameLog([]);
     setSelectedCards([]);
     setDeclareModalOpen(false);
-    setWinner(null);
     setLastCardDeclared(false);
-    setPenaltyOpportunity(null);
     setRevealedBluff(null);
-    setFinalPlay(null);
     setAnimatingCards(null);
     setVisibleDeclaration(null);
-    setOpeningMoveAvailable(false);
-    setLastCardDeclarerId(null);
+    setUndoHistory([]);
+    setTutorialStepIndex(null);
+    setTutorialWrongMove(false);
+    setClock(null);
   }, []);
 
-  const startGame = useCallback(() => {
-    resetGame();
-    const shuffledDeck = shuffleDeck(createDeck());
-    const newPlayers: Player[] = [
-      { id: 1, name: 'Gracz', hand: [], isHuman: true },
-      { id: 2, name: 'AI', hand: [], isHuman: false },
-    ];
-
-    while(shuffledDeck.length > 0) {
-        newPlayers[0].hand.push(shuffledDeck.pop()!);
-        if (shuffledDeck.length > 0) {
-            newPlayers[1].hand.push(shuffledDeck.pop()!);
-        }
+  // The player's moves in the tutorial must be the ones the current step asks for; making it finishes the step.
+  const followsTutorial = useCallback((action: GameAction): boolean => {
+    if (!tutorialStep) return true;
+    if (!isTutorialMoveAllowed(tutorialStep, action)) {
+        setTutorialWrongMove(true);
+        return false;
     }
-    
-    const starterCardId = '8-Kier';
-    const starterPlayerIndex = newPlayers.findIndex(p => p.hand.some(c => c.id === starterCardId));
-    
-    if (starterPlayerIndex === -1) { 
-        startGame();
-        return;
+    if ('playerId' in action && action.playerId === TUTORIAL_PLAYER_ID) {
+        setTutorialStepIndex(index => index! + 1);
+        setTutorialWrongMove(false);
     }
-    
-    setPlayers(newPlayers);
-    setCurrentPlayerIndex(starterPlayerIndex);
-    setOpeningMoveAvailable(true);
+    return true;
+  }, [tutorialStep]);
+
+  // For the humans' own moves; the computer's moves and timed steps use dispatch directly.
+  const dispatchMove = useCallback((action: GameAction) => {
+    if (followsTutorial(action)) dispatch(action);
+  }, [dispatch, followsTutorial]);
+
+  const beginGame = useCallback((newGame: GameState) => {
+    resetGame();
+    setViewerId(null);
+    aiRandomRef.current = forkRandom(newGame.seed, 'ai');
+    setGame(newGame);
     setGamePhase('PLAYING');
+  }, [resetGame]);
 
-    const startingPlayerName = newPlayers[starterPlayerIndex].name;
-    const initialLogs = [
-        "Nowa Gra Rozpoczęta.",
-        `Gracz ${startingPlayerName} ma 8 Kier i rozpoczyna.`,
-    ];
-    initialLogs.forEach(log => addLog(log));
-  }, [resetGame, addLog]);
-
-  const nextTurn = useCallback(() => {
-    setCurrentPlayerIndex(prev => (prev + 1) % players.length);
-  }, [players.length]);
-  
-  const handleReportNoDeclaration = useCallback(() => {
-    if (!penaltyOpportunity) return;
-    if (penaltyTimerRef.current) clearTimeout(penaltyTimerRef.current);
+  // With a match format chosen this also starts a new match.
+  const startGame = useCallback((seed: number = generateSeed(), tableSeats: SeatConfig[] = seats, tableRules: RuleSet = houseRules) => {
+    const tablePlayers = buildSeats(tableSeats, t);
+    setMatch(matchFormat && createMatch(matchFormat, tablePlayers));
+    beginGame(createGame(tablePlayers, seed, tableRules));
+  }, [beginGame, seats, houseRules, matchFormat, t]);
 
-    const { forPlayerId, byPlayerId } = penaltyOpportunity;
-    const penalizedPlayer = players.find(p => p.id === byPlayerId)!;
-    const reporter = players.find(p => p.id === forPlayerId)!;
+  const startNextMatchGame = useCallback(() => {
+    if (!match || !game) return;
+    beginGame(createMatchGame(match, game.players.map(({ hand, ...seat }) => seat), generateSeed(), game.rules));
+  }, [beginGame, match, game]);
 
-    addLog(`${reporter.name} zgłasza brak deklaracji! ${penalizedPlayer.name} bierze 3 karty kary.`);
-    
-    const hasPermanent8 = discardPile.length > 0 && discardPile[0].id === '8-Kier';
-    const playablePile = hasPermanent8 ? discardPile.slice(1) : discardPile;
-    const cardsToTake = playablePile.slice(-3);
-    const remainingPlayablePile = playablePile.slice(0, playablePile.length - cardsToTake.length);
-    const pileToKeep = hasPermanent8 ? [discardPile[0]] : [];
-
-    setPlayers(prev => prev.map(p => p.id === penalizedPlayer.id ? { ...p, hand: [...p.hand, ...cardsToTake] } : p));
-    setDiscardPile([...pileToKeep, ...remainingPlayablePile]);
-    
-    setPenaltyOpportunity(null);
-    setCurrentPlayerIndex(players.findIndex(p => p.id === reporter.id));
-    addLog(`Tura gracza ${reporter.name}.`);
-  }, [addLog, discardPile, penaltyOpportunity, players]);
+  const startTutorial = useCallback(() => {
+    resetGame();
+    setViewerId(null);
+    setMatch(null);
+    setTutorialStepIndex(0);
+    setGame(createTutorialGame(t('tutorial.player'), t('tutorial.tutor')));
+    setGamePhase('PLAYING');
+  }, [resetGame, t]);
+
+  const exitTutorial = useCallback(() => {
+    resetGame();
+    setGame(null);
+    setGamePhase('MENU');
+  }, [resetGame]);
 
-  const initiatePlay = useCallback((player: Player, cardsToPlay: Card[], declaredRank: Rank, isChallengeable: boolean) => {
-    const isOpening = isOpeningMoveAvailable && cardsToPlay.some(c => c.id === '8-Kier');
-    const isUnchallengeableFour = cardsToPlay.length === 4 && new Set(cardsToPlay.map(c => c.rank)).size === 1;
+  const continueGame = useCallback((saved: SavedGame) => {
+    resetGame();
+    setViewerId(null);
+    setSeats(saved.seats);
+    setPractice(saved.isPractice);
+    setMatch(saved.match);
+    setHouseRules(saved.game.rules);
+    aiRandomRef.current = forkRandom(saved.game.seed, `ai:${saved.game.events.length}`);
+    setGame(saved.game);
+    setGamePhase('PLAYING');
+  }, [resetGame]);
 
-    setLastCardDeclarerId(null);
+  const importGame = useCallback((imported: GameState) => {
+    resetGame();
+    setViewerId(null);
+    setSeats(imported.players.map(p => ({ isHuman: p.isHuman, strategyId: p.strategyId })));
+    setMatch(null);
+    setHouseRules(imported.rules);
+    aiRandomRef.current = forkRandom(imported.seed, `ai:${imported.events.length}`);
+    setGame(imported);
+    setGamePhase('PLAYING');
+  }, [resetGame]);
+
+  // Goes back to the last time a human had to decide, together with the computer's replies since.
+  const undo = useCallback(() => {
+    const step = undoToDecisionPoint(undoHistory);
+    if (!step) return;
+    setSelectedCards([]);
+    setDeclareModalOpen(false);
+    setLastCardDeclared(false);
+    aiRandomRef.current = forkRandom(step.game.seed, `ai:${step.game.events.length}`);
+    setGame(step.game);
+    setUndoHistory(step.history);
+    setMatch(m => m && dropMatchGame(m, step.game.seed));
+    setGamePhase('PLAYING');
+  }, [undoHistory]);
+
+  const exportRecord = useCallback(() => {
+    if (!game) return;
+    downloadText(`oszust-${getDealCode(game)}.txt`, formatRecord({ ...game, players }));
+  }, [game, players]);
+
+  const connectToTable = useCallback((url: string, request: ClientMessage) => {
+    connectionRef.current?.close();
+    setNetwork({ url, seatId: null, lobby: null, isConnected: false, error: null, rejection: null });
+    setMatch(null);
+    // Once seated, every reconnect resumes the same seat.
+    let session: NetworkSession | null = null;
+
+    const connection = connectToServer(url, message => {
+        switch (message.type) {
+            case 'JOINED':
+                session = { url, lobbyId: message.lobbyId, token: message.token, seatId: message.seatId };
+                saveNetworkSession(session);
+                setNetworkSession(session);
+                setNetwork(prev => prev && { ...prev, seatId: message.seatId, error: null, rejection: null });
+                break;
+            case 'LOBBY':
+                setNetwork(prev => prev && { ...prev, lobby: message.lobby });
+                break;
+            case 'STATE': {
+                if (message.view.events.length === 1) resetGame();
+                setViewerId(message.view.seatId);
+                setGame(toTableState(message.view));
+                setClock(message.clock && { ...message.clock, runningSince: Date.now() });
+                setGamePhase('PLAYING');
+                setNetwork(prev => prev && { ...prev, error: null, rejection: null });
+                break;
+            }
+            case 'ERROR':
+                if (message.code === 'SESSION_NOT_FOUND') {
+                    session = null;
+                    clearNetworkSession();
+                    setNetworkSession(null);
+                }
+                setNetwork(prev => prev && { ...prev, error: message.code, rejection: message.rejection ?? null });
+                break;
+        }
+    }, isConnected => {
+        setNetwork(prev => prev && { ...prev, isConnected });
+        if (isConnected && session) connection.send({ type: 'RESUME', lobbyId: session.lobbyId, token: session.token });
+    });
+    connection.send(request);
+    connectionRef.current = connection;
+  }, [resetGame]);
+
+  const startNetworkGame = useCallback(() => connectionRef.current?.send({ type: 'START' }), []);
+
+  const leaveTable = useCallback(() => {
+    connectionRef.current?.send({ type: 'LEAVE' });
+    connectionRef.current?.close();
+    connectionRef.current = null;
+    clearNetworkSession();
+    setNetworkSession(null);
+    setNetwork(null);
+    setGame(null);
+    setGamePhase('MENU');
+  }, []);
+
+  const resetStats = useCallback(() => {
+    if (!window.confirm(t('stats.confirmReset'))) return;
+    clearPlayerStats();
+    setPlayerStats(createEmptyStats());
+  }, [t]);
+
+  const updateSettings = useCallback((changes: Partial<Settings>) => {
+    const nextSettings = { ...settings, ...changes };
+    saveSettings(nextSettings);
+    setSettings(nextSettings);
+  }, [settings]);
+
+  const parsedDealCode = dealCode.trim() ? parseDealCode(dealCode) : null;
+  const isDealCodeValid = !dealCode.trim() || parsedDealCode !== null;
+
+  const handleMenuStart = () => {
+    if (!parsedDealCode) {
+        startGame();
+        return;
+    }
+    const tableSeats = Array.from({ length: parsedDealCode.playerCount }, (_, index) => seats[index] ?? { isHuman: false });
+    if (!tableSeats.some(seat => seat.isHuman)) tableSeats[0] = { isHuman: true };
+    // The deck and the starter card of the code replace the table's own.
+    const dealRules = { ...houseRules, deck: parsedDealCode.deck, starterCardId: parsedDealCode.starterCardId };
+    setSeats(tableSeats);
+    setHouseRules(dealRules);
+    startGame(parsedDealCode.seed, tableSeats, dealRules);
+  };
+
+  const playCards = useCallback((player: Player, cardsToPlay: Card[], declaredRank: Rank, declaresLastCard: boolean) => {
+    if (!followsTutorial({ type: 'PLAY', playerId: player.id, cards: cardsToPlay, declaredRank, declaresLastCard })) return;
+    const isFaceUp = !!game && isFaceUpPlay(game, cardsToPlay);
 
-    setPlayers(prev => prev.map(p => p.id === player.id 
-      ? { ...p, hand: p.hand.filter(card => !cardsToPlay.some(c => c.id === card.id)) } 
-      : p));
-    
     setAnimatingCards({
         cards: cardsToPlay,
-        from: player.isHuman ? 'player' : 'ai',
+        from: player.isHuman ? 'player' : 'opponent',
         key: Date.now(),
-        isFaceUp: isUnchallengeableFour || (isOpening && cardsToPlay.length > 0),
+        isFaceUp,
     });
 
-    if(isChallengeable) {
+    if (!isFaceUp) {
         setVisibleDeclaration(declaredRank);
     }
-    
+
     if (player.isHuman) {
         setSelectedCards([]);
         setDeclareModalOpen(false);
+        setLastCardDeclared(false);
     }
-    
+
     setTimeout(() => {
         setVisibleDeclaration(null);
         setAnimatingCards(null);
+        dispatch({ type: 'PLAY', playerId: player.id, cards: cardsToPlay, declaredRank, declaresLastCard });
+    }, PLAY_ANIMATION_MS);
+  }, [game, dispatch, followsTutorial]);
+
+  const giveChallengeFeedback = useCallback(() => {
+    if (settings.isMuted) return;
+    soundPlayerRef.current.play('challenge', settings.soundVolume);
+    vibrate(CHALLENGE_VIBRATION);
+  }, [settings.isMuted, settings.soundVolume]);
+
+  const challenge = useCallback((playerId: number) => {
+    if (!game || !canChallenge(game, playerId) || !followsTutorial({ type: 'CHALLENGE', playerId })) return;
+    // The server resolves it; the cards are shown and the call is heard once its result comes back.
+    if (network) return dispatch({ type: 'CHALLENGE', playerId });
+    giveChallengeFeedback();
+    const playToChallenge = (game.finalPlay ?? game.lastPlay)!;
+
+    if (isBluff(playToChallenge)) {
+        setRevealedBluff({ cards: playToChallenge.actualCards });
+        setTimeout(() => {
+            setRevealedBluff(null);
+            dispatch({ type: 'CHALLENGE', playerId });
+        }, BLUFF_REVEAL_MS);
+    } else {
+        dispatch({ type: 'CHALLENGE', playerId });
+    }
+  }, [game, network, dispatch, followsTutorial, giveChallengeFeedback]);
 
-        if (isOpening) {
-            const starterCard = cardsToPlay.find(c => c.id === '8-Kier')!;
-            const otherCards = cardsToPlay.filter(c => c.id !== '8-Kier');
-            setDiscardPile([starterCard, ...otherCards]);
-            addLog(`${player.name} rozpoczyna grę z 8 Kier.`);
-            setOpeningMoveAvailable(false);
-        } else {
-            setDiscardPile(prev => [...prev, ...cardsToPlay]);
-        }
-        
-        const newLastPlay: LastPlay = {
-            playerId: player.id,
-            declaredRank,
-            declaredCount: cardsToPlay.length,
-            actualCards: cardsToPlay,
-            isChallengeable,
-        };
-        setLastPlay(newLastPlay);
-        
-        const logMsg = isChallengeable 
-            ? `${player.name} zagrał ${cardsToPlay.length}x jako "${declaredRank}".`
-            : `${player.name} jawnie zagrywa 4x "${declaredRank}".`;
-        addLog(logMsg);
-        
-        const isLastCardMove = player.hand.length - cardsToPlay.length === 1;
-        let hasDeclared = false;
-        
-        if (player.isHuman && lastCardDeclared) hasDeclared = true;
-        
-        if (lastCardDeclarerId === player.id) hasDeclared = true;
+  const getPenaltyElapsedMs = () => Date.now() - penaltySinceRef.current.at;
 
+  const handleReportNoDeclaration = () => {
+    if (!humanPlayer || !penalty) return;
+    dispatchMove({ type: 'REPORT_PENALTY', playerId: humanPlayer.id, windowId: penalty.id, elapsedMs: getPenaltyElapsedMs() });
+  };
 
-        if (!player.isHuman && isLastCardMove) {
-            if (Math.random() < 0.85) { // 85% chance for AI to "remember"
-                addLog(`AI deklaruje: OSTATNIA KARTA!`);
-                setLastCardDeclarerId(player.id);
-                hasDeclared = true;
-            } else {
-                 addLog(`AI... wydaje się o czymś zapominać.`);
-                 hasDeclared = false;
-            }
-        } else if (player.isHuman && isLastCardMove && hasDeclared) {
-            addLog(`${player.name} deklaruje: OSTATNIA KARTA!`);
-        }
-        
-        setLastCardDeclared(false);
+  const handleHotSeatReport = (playerId: number) => {
+    if (penalty) dispatchMove({ type: 'REPORT_PENALTY', playerId, windowId: penalty.id, elapsedMs: getPenaltyElapsedMs() });
+  };
 
-        if (isLastCardMove && !hasDeclared) {
-            const opponent = players.find(p => p.id !== player.id)!;
-            addLog(`${player.name} nie zadeklarował ostatniej karty. Przeciwnik będzie mógł go zgłosić za 3 sekundy.`);
-            if (penaltyTimerRef.current) clearTimeout(penaltyTimerRef.current);
-            penaltyTimerRef.current = setTimeout(() => {
-                addLog(`Minął okres ochronny! ${opponent.name} może teraz zgłosić brak deklaracji!`);
-                setPenaltyOpportunity({ forPlayerId: opponent.id, byPlayerId: player.id });
-            }, 3000);
-        }
-        
-        nextTurn();
-    }, 500);
-  }, [addLog, lastCardDeclared, nextTurn, players, isOpeningMoveAvailable, lastCardDeclarerId]);
-
-  const clearPendingPenaltyOpportunity = () => {
-    if (penaltyOpportunity) {
-        if (penaltyTimerRef.current) clearTimeout(penaltyTimerRef.current);
-        setPenaltyOpportunity(null);
-        addLog("Okazja do zgłoszenia kary została zignorowana.");
-    }
+  const handleHotSeatCorrection = (playerId: number) => {
+    if (penalty) dispatchMove({ type: 'DECLARE_LAST_CARD', playerId, windowId: penalty.id, elapsedMs: getPenaltyElapsedMs() });
   };
 
   const handleCardSelect = useCallback((card: Card) => {
@@ -517,437 +1815,588 @@ export default function App() {
     const newSelected = selectedCards.some(c => c.id === card.id)
         ? selectedCards.filter(c => c.id !== card.id)
         : [...selectedCards, card];
-    
+
     setSelectedCards(newSelected);
-    
+
     if (humanPlayer.hand.length - newSelected.length !== 1) {
         setLastCardDeclared(false);
-        if (lastCardDeclarerId === humanPlayer.id) setLastCardDeclarerId(null);
     }
-  }, [humanPlayer, selectedCards, lastCardDeclarerId]);
-  
+  }, [humanPlayer, selectedCards]);
+
   const handleLastCardButtonClick = useCallback(() => {
     if (!humanPlayer) return;
 
-    if (penaltyOpportunity && penaltyOpportunity.byPlayerId === humanPlayer.id) {
-        if (penaltyTimerRef.current) clearTimeout(penaltyTimerRef.current);
-        setPenaltyOpportunity(null);
-        setLastCardDeclarerId(humanPlayer.id);
-        addLog('Gracz w porę zadeklarował ostatnią kartę, unikając kary!');
+    if (penalty && penalty.offenderId === humanPlayer.id) {
+        dispatchMove({ type: 'DECLARE_LAST_CARD', playerId: humanPlayer.id, windowId: penalty.id, elapsedMs: Date.now() - penaltySinceRef.current.at });
         return;
     }
 
-    setLastCardDeclared(prev => {
-        const isDeclaring = !prev;
-        if (isDeclaring) {
-            setLastCardDeclarerId(humanPlayer.id);
-        } else {
-            setLastCardDeclarerId(null);
-        }
-        return isDeclaring;
-    });
-  }, [humanPlayer, penaltyOpportunity, addLog]);
+    setLastCardDeclared(prev => !prev);
+  }, [humanPlayer, penalty, dispatchMove]);
 
   const handlePlayCards = (declaredRank: Rank) => {
     if (!humanPlayer || selectedCards.length === 0) return;
-    initiatePlay(humanPlayer, selectedCards, declaredRank, true);
+    playCards(humanPlayer, selectedCards, declaredRank, lastCardDeclared);
   };
 
+  // The opening and a face-up four of a kind have their rank given; any other play asks for one.
   const handlePlayerPlayAction = () => {
-    clearPendingPenaltyOpportunity();
-    if (!humanPlayer) return;
+    if (!humanPlayer || !game || getPlayRejection(game, humanPlayer.id, selectedCards)) return;
 
     if (isOpeningMoveAvailable) {
-        if (selectedCards.some(c => c.id === '8-Kier') && [3, 4].includes(selectedCards.length)) {
-            initiatePlay(humanPlayer, selectedCards, '8', true);
-            return;
-        }
-    }
-
-    if (selectedCards.length === 4) {
-        const isFourOfAKind = new Set(selectedCards.map(c => c.rank)).size === 1;
-        if (isFourOfAKind) {
-            const rank = selectedCards[0].rank;
-            if (RANK_ORDER[rank] < minRankOrder) return;
-            initiatePlay(humanPlayer, selectedCards, rank, false);
-            return;
-        }
-    }
-
-    if ([1, 3].includes(selectedCards.length)) {
-      setDeclareModalOpen(true);
+        playCards(humanPlayer, selectedCards, getStarterRank(rules), lastCardDeclared);
+    } else if (rules.faceUpFourOfAKind && isFourOfAKind(selectedCards)) {
+        playCards(humanPlayer, selectedCards, selectedCards[0].rank, lastCardDeclared);
+    } else {
+        setDeclareModalOpen(true);
     }
   };
 
-
   const handleTakeCards = () => {
-    clearPendingPenaltyOpportunity();
-    if (isOpeningMoveAvailable) return;
-    
-    const hasPermanent8 = discardPile.length > 0 && discardPile[0].id === '8-Kier';
-    const playablePile = hasPermanent8 ? discardPile.slice(1) : discardPile;
-
-    if (!humanPlayer || playablePile.length === 0) return;
-    
-    const cardsToTake = playablePile.slice(-3);
-    const remainingPlayablePile = playablePile.slice(0, playablePile.length - cardsToTake.length);
-    const pileToKeep = hasPermanent8 ? [discardPile[0]] : [];
-
-
-    setPlayers(prev => prev.map(p => p.id === humanPlayer.id ? { ...p, hand: [...p.hand, ...cardsToTake] } : p));
-    setDiscardPile([...pileToKeep, ...remainingPlayablePile]);
-
-    addLog(`Gracz pobrał ${cardsToTake.length} kart(y) ze stosu.`);
-    nextTurn();
-  }
-  
-  const executeChallenge = (playToChallenge: LastPlay) => {
-    const { declaredRank, declaredCount, actualCards, playerId } = playToChallenge;
-    const challenger = players.find(p => p.id !== playerId)!;
-    const bluffer = players.find(p => p.id === playerId)!;
-    
-    const fullPile = [...discardPile];
-    const hasPermanent8 = fullPile.length > 0 && fullPile[0].id === '8-Kier';
-    const permanentCard = hasPermanent8 ? fullPile[0] : null;
-    const pileToTake = hasPermanent8 ? fullPile.slice(1) : fullPile;
-    const pileToKeep = permanentCard ? [permanentCard] : [];
-
-    addLog(`${challenger.name} mówi "SPRAWDZAM!".`);
-  
-    const isBluff = actualCards.some(card => card.rank !== declaredRank);
-      
-    if (isBluff) {
-        const actualCardsString = actualCards.map(c => c.rank).join(', ');
-        addLog(`To był blef! ${bluffer.name} zagrał: [${actualCardsString}], a nie ${declaredCount}x "${declaredRank}".`);
-        setRevealedBluff({ cards: actualCards });
-        setTimeout(() => {
-            addLog(`${bluffer.name} zabiera stos.`);
-            setPlayers(prev => prev.map(p => p.id === bluffer.id ? { ...p, hand: [...p.hand, ...pileToTake] } : p));
-            setDiscardPile(pileToKeep);
-            setLastPlay(null);
-            setRevealedBluff(null);
-            setCurrentPlayerIndex(players.findIndex(p => p.id === bluffer.id));
-        }, 2500);
-    } else {
-        addLog(`To nie był blef. ${challenger.name} zabiera stos.`);
-        setPlayers(prev => prev.map(p => p.id === challenger.id ? { ...p, hand: [...p.hand, ...pileToTake] } : p));
-        setDiscardPile(pileToKeep);
-        setLastPlay(null);
-        setCurrentPlayerIndex(players.findIndex(p => p.id === challenger.id));
-    }
+    if (!humanPlayer) return;
+    dispatchMove({ type: 'TAKE', playerId: humanPlayer.id });
   };
 
   const handleChallenge = () => {
-    clearPendingPenaltyOpportunity();
-    if (!lastPlay || !lastPlay.isChallengeable) return;
-    executeChallenge(lastPlay);
-  };
-  
-  const handleFinalChallenge = () => {
-    if (!finalPlay) return;
-    executeChallenge(finalPlay);
-    setFinalPlay(null);
+    if (!humanPlayer) return;
+    challenge(humanPlayer.id);
   };
 
   const handleConcedeWin = () => {
-    if (!finalPlay) return;
-    const winner = players.find(p => p.id === finalPlay.playerId);
-    if (winner) {
-        setWinner(winner);
-        setGamePhase('GAME_OVER');
-    }
-    setFinalPlay(null);
+    if (!humanPlayer) return;
+    dispatchMove({ type: 'CONCEDE', playerId: humanPlayer.id });
   };
-  
-  const aiTurn = useCallback(() => {
-    if (!aiPlayer) return;
-    
-    if (penaltyOpportunity && penaltyOpportunity.byPlayerId === aiPlayer.id) {
-       // AI has a chance to correct its mistake
-       if (Math.random() < 0.5) { // 50% chance to notice and correct
-            if (penaltyTimerRef.current) clearTimeout(penaltyTimerRef.current);
-            setPenaltyOpportunity(null);
-            setLastCardDeclarerId(aiPlayer.id);
-            addLog('AI w ostatniej chwili deklaruje ostatnią kartę!');
-            // AI continues its turn after correcting
-       }
-    }
-    
-    if (penaltyOpportunity && penaltyOpportunity.forPlayerId === aiPlayer.id) {
-        addLog("AI zauważyło brak deklaracji...");
-        setTimeout(() => {
-            handleReportNoDeclaration();
-        }, 1500);
-        return;
-    }
 
-    if (isOpeningMoveAvailable) {
-        const eights = aiPlayer.hand.filter(c => c.rank === '8');
-        if (eights.length >= 3) {
-            let cardsToPlay = eights.slice(0, eights.length === 4 ? 4 : 3);
-            if (Math.random() > 0.8 && aiPlayer.hand.length > cardsToPlay.length) {
-                const bluffCard = aiPlayer.hand.find(c => c.rank !== '8' && c.id !== '8-Kier');
-                if(bluffCard) cardsToPlay[1] = bluffCard;
-            }
-            initiatePlay(aiPlayer, cardsToPlay, '8', true);
-            return;
-        } else {
-             const eightOfHearts = aiPlayer.hand.find(c => c.id === '8-Kier')!;
-             initiatePlay(aiPlayer, [eightOfHearts], '8', true);
-             return;
-        }
-    }
+  // Returns a cleanup that abandons the turn if the table changes first.
+  const aiTurn = useCallback((): (() => void) | undefined => {
+    if (!game || !aiPlayer) return;
+    const random = aiRandomRef.current;
+    const strategy = strategyOf(aiPlayer);
+    const view = getAiView(game, aiPlayer.id);
+    const startedAt = Date.now();
+    let isCancelled = false;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    // Time spent deciding counts towards the usual pause before the move.
+    const actAfter = (delay: number, act: () => void) => {
+        timer = setTimeout(act, Math.max(0, delay - (Date.now() - startedAt)));
+    };
 
-    if (lastPlay && lastPlay.isChallengeable) {
-      const cardsInHandOfDeclaredRank = aiPlayer.hand.filter(c => c.rank === lastPlay.declaredRank).length;
-      const totalCardsOfRank = 4;
-      if (cardsInHandOfDeclaredRank + lastPlay.declaredCount > totalCardsOfRank) {
-        setTimeout(() => handleChallenge(), 1000);
-        return;
-      }
-      
-      let challengeChance = 0.05;
-      if (lastPlay.declaredCount === 3) challengeChance += 0.4;
-      if (lastPlay.declaredCount === 1) challengeChance += 0.1;
-      if (['K', 'A'].includes(lastPlay.declaredRank)) challengeChance += 0.15;
-      if (players.find(p=>p.id === lastPlay!.playerId)!.hand.length <= 3) challengeChance += 0.2;
-
-      if (Math.random() < challengeChance) {
-        setTimeout(() => handleChallenge(), 1000);
-        return;
-      }
-    }
-    
-    setTimeout(() => {
-        const counts: { [key in Rank]?: Card[] } = {};
-        aiPlayer.hand.forEach(card => {
-            if (!counts[card.rank]) counts[card.rank] = [];
-            counts[card.rank]!.push(card);
-        });
+    const playAi = (play: AiPlay) => {
+        const action = toLegalAiAction(game, aiPlayer.id, play);
+        if (action.type === 'PLAY') playCards(aiPlayer, action.cards, action.declaredRank, !!action.declaresLastCard);
+        else dispatch(action);
+    };
 
-        const validHonestGroups = Object.values(counts)
-            .filter(group => RANK_ORDER[group[0].rank] >= minRankOrder);
-        
-        const honestFour = validHonestGroups.find(g => g.length === 4);
-        
-        if (honestFour) {
-            initiatePlay(aiPlayer, honestFour, honestFour[0].rank, false);
-            return;
-        }
+    // A strategy that fails to decide is stood in for by the default one.
+    const decide = <T,>(choose: (s: AiStrategy) => AiDecision<T>): Promise<T> =>
+        Promise.resolve().then(() => choose(strategy)).catch(() => choose(getAiStrategy(DEFAULT_STRATEGY_ID)));
 
-        const honestThree = validHonestGroups.find(g => g.length >= 3);
-        const honestSingle = validHonestGroups.find(g => g.length >= 1);
+    if (isOpeningMoveAvailable) {
+        decide(s => s.chooseOpening(view, random)).then(opening => {
+            if (isCancelled) return;
+            actAfter(AI_QUICK_MOVE_MS, () => playAi(opening));
+        });
+    } else {
+        decide(s => s.chooseMove(view, random)).then(move => {
+            if (isCancelled) return;
+            switch (move.type) {
+                case 'CHALLENGE':
+                    actAfter(AI_QUICK_MOVE_MS, () => challenge(aiPlayer.id));
+                    break;
+                case 'TAKE':
+                    actAfter(AI_THINK_MS.base + random() * AI_THINK_MS.spread, () => dispatch({ type: 'TAKE', playerId: aiPlayer.id }));
+                    break;
+                case 'PLAY':
+                    actAfter(AI_THINK_MS.base + random() * AI_THINK_MS.spread, () => playAi(move));
+                    break;
+            }
+        });
+    }
 
-        if (honestThree) {
-            initiatePlay(aiPlayer, honestThree.slice(0, 3), honestThree[0].rank, true);
-            return;
-        }
-        if (honestSingle) {
-            initiatePlay(aiPlayer, [honestSingle[0]], honestSingle[0].rank, true);
-            return;
-        }
+    return () => {
+        isCancelled = true;
+        if (timer) clearTimeout(timer);
+    };
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [game, aiPlayer, isOpeningMoveAvailable, playCards, challenge, dispatch]);
 
-        if (aiPlayer.hand.length > 0) {
-            const allCardGroups = Object.values(counts).sort((a,b) => a.length - b.length);
-            const cardToBluff = allCardGroups[0][0];
-            
-            const possibleBluffRanks = RANKS.filter(r => RANK_ORDER[r] >= minRankOrder);
-            let declaredRank: Rank | undefined;
-            if (possibleBluffRanks.length > 0) {
-                const closestRank = possibleBluffRanks.find(r => RANK_ORDER[r] === minRankOrder || RANK_ORDER[r] === minRankOrder + 1);
-                declaredRank = closestRank || possibleBluffRanks[0];
-            } else {
-                 declaredRank = RANKS[RANKS.length - 1];
-            }
 
-            initiatePlay(aiPlayer, [cardToBluff], declaredRank, true);
+  useEffect(() => {
+    if (gamePhase !== 'PLAYING' || !currentPlayer || currentPlayer.isHuman || finalPlay || animatingCards || revealedBluff) return;
+    // Wait for a pending last-card penalty to be settled before moving on.
+    if (penalty) return;
 
-        } else {
-            const hasPermanent8 = discardPile.length > 0 && discardPile[0].id === '8-Kier';
-            const playablePile = hasPermanent8 ? discardPile.slice(1) : discardPile;
-            if (playablePile.length > 0) {
-              const cardsToTake = playablePile.slice(-3);
-              const remainingPlayablePile = playablePile.slice(0, playablePile.length - cardsToTake.length);
-              const pileToKeep = hasPermanent8 ? [discardPile[0]] : [];
-              setPlayers(prev => prev.map(p => p.id === aiPlayer.id ? { ...p, hand: [...p.hand, ...cardsToTake] } : p));
-              setDiscardPile([...pileToKeep, ...remainingPlayablePile]);
-              addLog(`AI pobrało ${cardsToTake.length} kart(y) ze stosu.`);
-              nextTurn();
-            } else {
-                addLog('AI nie ma kart do zagrania i nie ma co pobrać.');
-                nextTurn();
-            }
-        }
-    }, 1500 + Math.random() * 1000);
-  }, [aiPlayer, lastPlay, discardPile, players, nextTurn, minRankOrder, addLog, initiatePlay, handleChallenge, penaltyOpportunity, handleReportNoDeclaration, isOpeningMoveAvailable]);
+    return aiTurn();
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [game, gamePhase, animatingCards, revealedBluff]);
 
+  // EFFECT TO SAVE THE GAME AFTER EVERY RESOLVED ACTION
+  useEffect(() => {
+    // The tutorial is never saved: it could not be resumed at the right step.
+    if (!game || network || tutorialStep) return;
+    if (game.winnerId === null) {
+        saveGame(game, seats, isPractice, match);
+    } else {
+        clearSavedGame();
+    }
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [game]);
 
+  // EFFECT TO RECORD STATISTICS WHEN A GAME IS WON
+  // (only a win played out here, not a finished game that was imported or resumed)
   useEffect(() => {
-    if (gamePhase !== 'PLAYING' || finalPlay || winner || animatingCards) return;
+    const previous = previousGameRef.current;
+    previousGameRef.current = game;
+    if (!game || game.winnerId === null || !previous || previous.winnerId !== null || tutorialStep) return;
+    if (recordedGameStartRef.current === game.events[0]) return;
+    recordedGameStartRef.current = game.events[0];
+
+    // A network client only knows the details of its own seat.
+    const seatIds = network ? [viewerId!] : game.players.filter(p => p.isHuman).map(p => p.id);
+    const nextStats = isPracticeGame ? recordPracticeGame(playerStats) : recordGame(playerStats, game, seatIds);
+    savePlayerStats(nextStats);
+    setPlayerStats(nextStats);
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [game]);
 
-    const playerAfterTurn = players.find(p => p.id === lastPlay?.playerId);
+  // EFFECT TO KEEP THE UNDO HISTORY OF A PRACTICE GAME
+  useEffect(() => {
+    const previous = undoBaseRef.current;
+    undoBaseRef.current = game;
+    if (isPracticeGame) setUndoHistory(history => recordUndoStep(history, previous, game));
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [game]);
 
-    if (playerAfterTurn && playerAfterTurn.hand.length === 0) {
-        if (lastPlay && lastPlay.isChallengeable) {
-            setFinalPlay(lastPlay);
-            addLog(`${playerAfterTurn.name} zagrał ostatnią kartę! Czas na ostateczne sprawdzenie.`);
-        } else {
-            setWinner(playerAfterTurn);
-            setGamePhase('GAME_OVER');
-            addLog(`Koniec gry! Wygrywa ${playerAfterTurn.name}!`);
-        }
+  // EFFECT TO OPEN THE LAST-CARD PENALTY WINDOW AFTER THE GRACE PERIOD AND CLOSE IT AGAIN
+  // (a penalty restored from a save starts over; the tutorial keeps the window open until it is reported)
+  useEffect(() => {
+    if (!penalty) return;
+    if (penaltySinceRef.current.id !== penalty.id) penaltySinceRef.current = { id: penalty.id, at: Date.now() };
+    if (network) return;
+    const windowId = penalty.id;
+    const since = penaltySinceRef.current.at;
+    if (!penalty.isOpen) {
+        const timer = setTimeout(() => dispatch({ type: 'OPEN_PENALTY_WINDOW', windowId }), since + rules.lastCardGraceMs - Date.now());
+        return () => clearTimeout(timer);
+    }
+    if (tutorialStep) return;
+    const closesAt = since + rules.lastCardGraceMs + PENALTY_WINDOW_MS;
+    const timer = setTimeout(() => dispatch({ type: 'CLOSE_PENALTY_WINDOW', windowId, elapsedMs: Date.now() - since }), closesAt - Date.now());
+    return () => clearTimeout(timer);
+  }, [penalty, network, rules, tutorialStep, dispatch]);
+
+  // EFFECT TO RUN THE TURN CLOCK OF A TIMED TABLE
+  // (it stands still while a play or a caught bluff is being shown; at a network table the server keeps it)
+  useEffect(() => {
+    if (network) return;
+    if (!game || game.rules.timeControl === 'off') {
+        setClock(null);
         return;
     }
+    const now = Date.now();
+    setClock(prev => syncClock(prev ?? createClock(game, now), game, now, !!animatingCards || !!revealedBluff));
+  }, [game, network, animatingCards, revealedBluff]);
 
-    if (currentPlayer && !currentPlayer.isHuman && !revealedBluff) {
-      aiTurn();
-    }
+  // EFFECT TO APPLY THE TIMEOUT ACTION WHEN THE RUNNING TIME IS UP
+  useEffect(() => {
+    if (network || !clock || clock.runningId === null) return;
+    const playerId = clock.runningId;
+    const timer = setTimeout(() => {
+        if (players.find(p => p.id === playerId)?.isHuman) {
+            setSelectedCards([]);
+            setDeclareModalOpen(false);
+            setLastCardDeclared(false);
+        }
+        dispatch({ type: 'TIME_OUT', playerId });
+    }, getRemainingMs(clock, playerId, Date.now()));
+    return () => clearTimeout(timer);
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [clock, network, dispatch]);
+
+  // EFFECT TO HANDLE AI REACTIONS TO AN OPEN PENALTY WINDOW (FIRST CLAIM WINS)
+  useEffect(() => {
+    if (!penalty || !penalty.isOpen) return;
+
+    const random = aiRandomRef.current;
+    const timers: ReturnType<typeof setTimeout>[] = [];
+    players.filter(p => !p.isHuman).forEach(bot => {
+        const delay = game ? strategyOf(bot).reactToPenaltyWindow(getAiView(game, bot.id), random) : null;
+        if (delay === null) return;
+        const type = bot.id === penalty.offenderId ? 'DECLARE_LAST_CARD' : 'REPORT_PENALTY';
+        timers.push(setTimeout(() => dispatch({ type, playerId: bot.id, windowId: penalty.id, elapsedMs: Date.now() - penaltySinceRef.current.at }), delay));
+    });
+    return () => timers.forEach(clearTimeout);
   // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [currentPlayerIndex, gamePhase, players, lastPlay, animatingCards, penaltyOpportunity]);
+  }, [penalty, dispatch]);
 
   // EFFECT TO HANDLE AI'S FINAL CHALLENGE DECISION
   useEffect(() => {
-      if (finalPlay && currentPlayer?.id === aiPlayer?.id) {
-          const decideFinalChallenge = () => {
-              const { declaredRank, declaredCount } = finalPlay;
-              const cardsAiHasOfDeclaredRank = aiPlayer.hand.filter(c => c.rank === declaredRank).length;
-
-              let shouldChallenge = false;
-              if (cardsAiHasOfDeclaredRank + declaredCount > 4) {
-                  shouldChallenge = true;
-              } else {
-                  const challengeChance = declaredCount === 3 ? 0.75 : 0.4;
-                  if (Math.random() < challengeChance) {
-                      shouldChallenge = true;
-                  }
-              }
-              
-              setTimeout(() => {
-                  if (shouldChallenge) {
-                      addLog("AI decyduje się na ostateczne sprawdzenie!");
-                      handleFinalChallenge();
-                  } else {
-                      addLog("AI uznaje Twoją wygraną.");
-                      handleConcedeWin();
-                  }
-              }, 1500 + Math.random() * 1000);
-          };
-          
-          decideFinalChallenge();
-      }
+      if (!finalPlay || !aiPlayer || currentPlayer?.id !== aiPlayer.id || revealedBluff) return;
+
+      const random = aiRandomRef.current;
+      const shouldChallenge = !!game && strategyOf(aiPlayer).shouldChallengeFinalPlay(getAiView(game, aiPlayer.id), random);
+
+      const timer = setTimeout(() => {
+          if (shouldChallenge) {
+              challenge(aiPlayer.id);
+          } else {
+              dispatch({ type: 'CONCEDE', playerId: aiPlayer.id });
+          }
+      }, AI_THINK_MS.base + random() * AI_THINK_MS.spread);
+      return () => clearTimeout(timer);
   // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [finalPlay, currentPlayer, aiPlayer]);
+  }, [finalPlay, currentPlayer?.id, aiPlayer?.id, revealedBluff]);
 
-  // EFFECT TO CHECK FOR A WINNER (e.g. after a challenge resolves)
+  // EFFECT TO HAND THE SCREEN TO THE HUMAN WHOSE TURN IT IS
   useEffect(() => {
-    if (gamePhase !== 'PLAYING' || finalPlay) return;
-
-    const potentialWinner = players.find(p => p.hand.length === 0);
-    if (potentialWinner && !animatingCards) {
-        const playerWhoJustPlayed = players.find(p => p.id === lastPlay?.playerId);
-        if(!playerWhoJustPlayed || playerWhoJustPlayed.hand.length > 0) {
-            addLog(`Koniec gry! ${potentialWinner.name} pozbył się wszystkich kart i wygrywa!`);
-            setWinner(potentialWinner);
-            setGamePhase('GAME_OVER');
-        }
+    if (currentPlayer?.isHuman && currentPlayer.id !== viewerId && !network) {
+        setViewerId(currentPlayer.id);
+        setSelectedCards([]);
+        setLastCardDeclared(false);
     }
-  }, [players, gamePhase, finalPlay, addLog, lastPlay, animatingCards]);
-  
-  // EFFECT TO SCROLL LOG TO BOTTOM
+  }, [currentPlayer, viewerId, network]);
+
+  // EFFECT TO SHOW A BLUFF CAUGHT AT A NETWORK TABLE
+  useEffect(() => {
+    const lastEvent = game?.events[game.events.length - 1];
+    if (!network || lastEvent?.type !== 'ChallengeResolved' || !lastEvent.wasBluff) return;
+    setRevealedBluff({ cards: lastEvent.revealedCards });
+    const timer = setTimeout(() => setRevealedBluff(null), BLUFF_REVEAL_MS);
+    return () => {
+        clearTimeout(timer);
+        setRevealedBluff(null);
+    };
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [game?.events.length]);
+
+  // EFFECT TO CLOSE THE SERVER CONNECTION ON UNMOUNT
+  useEffect(() => () => connectionRef.current?.close(), []);
+
+  // EFFECT TO HIDE THE HAND WHENEVER THE TURN MOVES ON (HOT SEAT)
+  useEffect(() => {
+    setRevealedViewerId(null);
+  }, [currentPlayer?.id]);
+
+  // EFFECT TO KEEP THE PAGE LANGUAGE IN STEP WITH THE SETTINGS
+  useEffect(() => {
+    document.documentElement.lang = settings.locale;
+  }, [settings.locale]);
+
+  // EFFECT TO ANNOUNCE DECLARATIONS, CHALLENGE RESULTS AND PENALTY WINDOWS TO SCREEN READERS
+  // (and to play the sounds and vibration of every new event)
   useEffect(() => {
-    if (logContainerRef.current) {
-        logContainerRef.current.scrollTop = logContainerRef.current.scrollHeight;
+    const count = game?.events.length ?? 0;
+    const previousCount = announcedEventCountRef.current;
+    announcedEventCountRef.current = count;
+    // A freshly started or restored game is not read out from the beginning.
+    if (!game || previousCount === 0 || count <= previousCount) return;
+    const newEvents = game.events.slice(previousCount);
+    const message = newEvents
+      .filter(event => isAnnounced(event, humanPlayer?.id))
+      .map(event => describeEvent(event, players, game.rules, t))
+      .join(' ');
+    if (message) setAnnouncement(message);
+
+    if (settings.isMuted) return;
+    const seatIds = network ? [viewerId!] : humans.map(p => p.id);
+    newEvents.forEach(event => {
+        // At a network table nothing was heard when the challenge was called.
+        if (network && event.type === 'ChallengeResolved') giveChallengeFeedback();
+        getEventCues(event, seatIds).forEach(cue => soundPlayerRef.current.play(cue, settings.soundVolume));
+        const pattern = getEventVibration(event);
+        if (pattern) vibrate(pattern);
+    });
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [game?.events.length]);
+
+  // EFFECT TO TICK DOWN AN OPEN PENALTY WINDOW
+  // (the window opens with a tick; the tutorial's never closes, so it stays quiet there)
+  useEffect(() => {
+    if (!penalty?.isOpen || settings.isMuted || tutorialStep) return;
+    const timer = setInterval(() => soundPlayerRef.current.play('penaltyTick', settings.soundVolume), 1000);
+    return () => clearInterval(timer);
+  }, [penalty, settings.isMuted, settings.soundVolume, tutorialStep]);
+
+  // EFFECT TO END THE GAME ONCE THE ENGINE HAS A WINNER
+  useEffect(() => {
+    if (gamePhase === 'PLAYING' && winner) {
+        setGamePhase('GAME_OVER');
+        if (game) setMatch(m => m && recordMatchGame(m, game));
     }
-  }, [gameLog]);
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [gamePhase, winner]);
+
+  if (gamePhase === 'MATCH_SUMMARY' && match) {
+    return (
+      <TranslatorContext.Provider value={t}>
+        <MatchSummary
+            match={match}
+            onNextGame={getMatchWinnerId(match) === null ? startNextMatchGame : undefined}
+            onNewMatch={() => startGame()}
+            onMenu={() => setGamePhase('MENU')}
+        />
+      </TranslatorContext.Provider>
+    );
+  }
+
+  if (gamePhase === 'STATS') {
+    return (
+      <TranslatorContext.Provider value={t}>
+        <StatsScreen stats={playerStats} onBack={() => setGamePhase('MENU')} onReset={resetStats} />
+      </TranslatorContext.Provider>
+    );
+  }
 
   if (gamePhase === 'MENU') {
+    const starter = formatCardName(t, houseRules.starterCardId);
+    const formatCounts = (counts: number[]) => formatList(settings.locale, [...counts].sort((a, b) => a - b));
     return (
+      <TranslatorContext.Provider value={t}>
       <div className="min-h-screen w-full flex flex-col justify-center items-center p-4">
+        <LanguageSwitch locale={settings.locale} onChange={locale => updateSettings({ locale })} />
+        <SoundControls volume={settings.soundVolume} isMuted={settings.isMuted} onChange={updateSettings} className="fixed top-14 right-4" />
         <div className="text-center">
             <h1 className="text-7xl md:text-8xl font-black mb-2 text-white tracking-tighter">OSZUST</h1>
-            <p className="text-xl text-gray-400 mb-8">Polska gra karciana oparta na blefie</p>
-            <ActionButton onClick={startGame} variant="primary" className="px-10 py-4 text-lg">
-                Rozpocznij Grę
-            </ActionButton>
+            <p className="text-xl text-gray-400 mb-8">{t('app.tagline')}</p>
+            {!network && (
+                <>
+                    <TableSetup seats={seats} onChange={setSeats} />
+                    <RulesEditor rules={houseRules} onChange={setHouseRules} />
+                    <DealCodeInput value={dealCode} onChange={setDealCode} isValid={isDealCodeValid} />
+                    <PracticeToggle isPractice={isPractice} onChange={setPractice} />
+                    <MatchSetup format={matchFormat} onChange={setMatchFormat} />
+                    <RecordImport onImport={importGame} />
+                </>
+            )}
+            <NetworkPanel network={network} session={networkSession} rules={houseRules} onConnect={connectToTable} onStart={startNetworkGame} onLeave={leaveTable} />
+            {!network && (
+                <div className="flex flex-wrap justify-center gap-4">
+                    {savedGame && (
+                        <ActionButton onClick={() => continueGame(savedGame)} variant="secondary" className="px-10 py-4 text-lg">
+                            {t('menu.continue')}
+                        </ActionButton>
+                    )}
+                    <ActionButton onClick={startTutorial} variant="secondary" className="px-10 py-4 text-lg">
+                        {t('menu.tutorial')}
+                    </ActionButton>
+                    <ActionButton onClick={() => setGamePhase('STATS')} variant="secondary" className="px-10 py-4 text-lg">
+                        {t('stats.title')}
+                    </ActionButton>
+                    <ActionButton onClick={handleMenuStart} disabled={!isDealCodeValid} variant="primary" className="px-10 py-4 text-lg">
+                        {t('menu.start')}
+                    </ActionButton>
+                </div>
+            )}
         </div>
         <div className="mt-12 p-8 bg-blue-600/20 backdrop-blur-xl border border-blue-400/30 rounded-[28px] max-w-3xl text-left space-y-4">
-            <h2 className="text-3xl font-bold mb-4 text-gray-100 text-center">Jak Grać?</h2>
+            <h2 className="text-3xl font-bold mb-4 text-gray-100 text-center">{t('howTo.title')}</h2>
             <div>
-                <h3 className="text-xl font-bold mb-2 text-blue-400">Cel Gry</h3>
-                <p className="text-gray-300">Celem jest jak najszybsze pozbycie się wszystkich kart z ręki. Gracz, którego ręka staje się pusta, natychmiast wygrywa grę.</p>
+                <h3 className="text-xl font-bold mb-2 text-blue-400">{t('howTo.goal.title')}</h3>
+                <p className="text-gray-300">{t('howTo.goal.text')}</p>
             </div>
             <div>
-                <h3 className="text-xl font-bold mb-2 text-blue-400">Przebieg Tury</h3>
+                <h3 className="text-xl font-bold mb-2 text-blue-400">{t('howTo.turn.title')}</h3>
                 <ul className="list-disc list-inside space-y-2 text-gray-300">
-                    <li>W swojej turze wykładasz na stos 1, 3 lub 4 karty.</li>
-                    <li>Kładąc karty, musisz głośno zadeklarować ich rangę (np. "trzy dziesiątki"). Zagrywane karty kładzie się zakryte.</li>
-                    <li><strong>Jawne zagranie:</strong> Zagranie 4 kart tej samej rangi (np. 4 Króle) jest jawne. Tego zagrania nie można sprawdzić.</li>
-                     <li><strong>Specjalne Otwarcie:</strong> Gracz z 8 Kier może na start zagrać 3 lub 4 ósemki (8 Kier odkryte, reszta zakryta). To zagranie MOŻNA sprawdzić. 8 Kier pozostaje na stole do końca gry.</li>
-                    <li>Kolejny gracz musi zadeklarować rangę równą lub wyższą niż ostatnio deklarowana.</li>
-                    <li>Jeśli nie chcesz lub nie możesz zagrać, możesz pobrać do 3 ostatnich kart ze stołu (jeśli są dostępne).</li>
+                    <li>{t('howTo.turn.deal', { min: MIN_PLAYERS, max: MAX_PLAYERS, deck: t(`deck.${houseRules.deck}`) })}</li>
+                    <li>{t('howTo.turn.play', { counts: formatCounts(houseRules.playSizes), max: Math.max(...houseRules.playSizes) })}</li>
+                    <li>{t('howTo.turn.declare')}</li>
+                    {houseRules.faceUpFourOfAKind && (
+                        <li><strong>{t('howTo.faceUp.title')}</strong> {t('howTo.faceUp.text')}</li>
+                    )}
+                     <li>
+                        <strong>{t('howTo.opening.title')}</strong>{' '}
+                        {t('howTo.opening.text', {
+                            starter,
+                            rank: formatRank(t, getStarterRank(houseRules)),
+                            counts: formatCounts(houseRules.openingSizes),
+                            max: Math.max(...houseRules.openingSizes),
+                        })}
+                        {houseRules.openingSizes.some(size => size > 1) && ` ${t('howTo.opening.challengeable')}`}
+                        {houseRules.isStarterPermanent && ` ${t('howTo.opening.permanent', { starter })}`}
+                     </li>
+                    <li>{t('howTo.turn.rank')}</li>
+                    <li>{t('howTo.turn.take', { count: houseRules.takeCount })}</li>
                 </ul>
             </div>
             <div>
-                <h3 className="text-xl font-bold mb-2 text-blue-400">"Sprawdzam!"</h3>
-                <p className="text-gray-300">Gdy przeciwnik zagra, możesz sprawdzić jego karty. Jeśli blefował, zbiera on wszystkie karty ze stołu (poza 8 Kier), a Ty widzisz co zagrał. Jeśli nie, Ty je zbierasz. Gracz, który zebrał karty, rozpoczyna następną turę.</p>
+                <h3 className="text-xl font-bold mb-2 text-blue-400">{t('howTo.challenge.title')}</h3>
+                <p className="text-gray-300">{t('howTo.challenge.text', { permanent: houseRules.isStarterPermanent ? 'yes' : 'no', starter })}</p>
+            </div>
+            <div>
+                <h3 className="text-xl font-bold mb-2 text-blue-400">{t('howTo.lastCard.title')}</h3>
+                <ul className="list-disc list-inside space-y-2 text-gray-300">
+                    <li>{t('howTo.lastCard.call')}</li>
+                    <li>{t('howTo.lastCard.penalty', { seconds: houseRules.lastCardGraceMs / 1000, window: PENALTY_WINDOW_MS / 1000, count: houseRules.penaltyCount })}</li>
+                    <li>{t('howTo.lastCard.final')}</li>
+                </ul>
             </div>
+            {houseRules.timeControl !== 'off' && (
+                <div>
+                    <h3 className="text-xl font-bold mb-2 text-blue-400">{t('howTo.clock.title')}</h3>
+                    <p className="text-gray-300">
+                        {t(`howTo.clock.${houseRules.timeControl}`, { seconds: houseRules.timeLimitMs / 1000, minimum: MIN_TURN_MS / 1000 })}{' '}
+                        {t(`howTo.clock.timeout.${houseRules.timeoutAction}`, { count: houseRules.takeCount })}{' '}
+                        {t('howTo.clock.pause')}
+                    </p>
+                </div>
+            )}
             <div>
-                <h3 className="text-xl font-bold mb-2 text-blue-400">Ostatnia Karta i Kary</h3>
+                <h3 className="text-xl font-bold mb-2 text-blue-400">{t('howTo.keyboard.title')}</h3>
                 <ul className="list-disc list-inside space-y-2 text-gray-300">
-                    <li>Gdy zagrywasz karty, które pozostawią Cię z jedną kartą w ręku, musisz wcisnąć "Ostatnia Karta" przed ich położeniem.</li>
-                    <li>Jeśli tego nie zrobisz, po 3 sekundach przeciwnik dostanie szansę na zgłoszenie. W tym czasie, oboje macie szansę zareagować - Ty możesz się poprawić, a on Cię ukarać. Kto pierwszy, ten lepszy!</li>
-                    <li>Gdy zagrywasz ostatnią kartę, przeciwnik ma prawo ją sprawdzić, zanim wygrasz grę!</li>
+                    <li>{t('howTo.keyboard.hand')}</li>
+                    <li>{t('howTo.keyboard.actions', {
+                        play: t('hotkey.play').toUpperCase(),
+                        challenge: t('hotkey.challenge').toUpperCase(),
+                        take: t('hotkey.take').toUpperCase(),
+                        lastCard: t('hotkey.lastCard').toUpperCase(),
+                    })}</li>
+                    <li>{t('howTo.keyboard.undo', { undo: t('hotkey.undo').toUpperCase() })}</li>
                 </ul>
             </div>
         </div>
       </div>
+      </TranslatorContext.Provider>
     );
   }
 
-  if (!humanPlayer || !aiPlayer) {
-    return <div className="min-h-screen flex justify-center items-center text-blue-400">Ładowanie...</div>
+  if (!game || !humanPlayer || !currentPlayer) {
+    return <div className="min-h-screen flex justify-center items-center text-blue-400">{t('app.loading')}</div>
   }
 
   const canDeclareLastCard = humanPlayer.hand.length - selectedCards.length === 1;
-  const isFourOfAKind = selectedCards.length === 4 && new Set(selectedCards.map(c => c.rank)).size === 1;
-  const isFourOfAKindPlayable = isFourOfAKind && RANK_ORDER[selectedCards[0].rank] >= minRankOrder;
-  const isOpeningBluffPlayable = isOpeningMoveAvailable && selectedCards.some(c => c.id === '8-Kier') && [3, 4].includes(selectedCards.length);
-  const canPlaySelection = ([1, 3].includes(selectedCards.length)) || isFourOfAKindPlayable || isOpeningBluffPlayable;
-  const isPlayerTurn = currentPlayer.id === humanPlayer.id;
-  
-  const hasPermanent8OnTable = discardPile.length > 0 && discardPile[0].id === '8-Kier';
-  const playableCardCount = hasPermanent8OnTable ? discardPile.length - 1 : discardPile.length;
+  const playRejection = getPlayRejection(game, humanPlayer.id, selectedCards);
+  const describeRankRejection = (rank: Rank) => {
+    const rejection = getPlayRejection(game, humanPlayer.id, selectedCards, rank);
+    return rejection && describePlayRejection(rejection, t, settings.locale);
+  };
+  // In hot seat the hand is only shown to its owner, on their turn, after the device has been passed.
+  const isHandHidden = isHotSeat && !winner && (currentPlayer.id !== humanPlayer.id || revealedViewerId !== humanPlayer.id);
+  const isPassingDevice = isHotSeat && !winner && currentPlayer.isHuman && revealedViewerId !== currentPlayer.id;
+  const isPlayerTurn = currentPlayer.id === humanPlayer.id && !winner && !animatingCards && !revealedBluff && !isHandHidden;
+  const canCorrectLastCard = penalty !== null && penalty.offenderId === humanPlayer.id;
+  const canTakeNow = isPlayerTurn && canTake(game, humanPlayer.id);
+  const canChallengeNow = isPlayerTurn && canChallenge(game, humanPlayer.id);
+  const canPressLastCard = canCorrectLastCard || (isPlayerTurn && canDeclareLastCard);
+  const canPlayNow = isPlayerTurn && playRejection === null;
+  const isTutorialStepReady = !!tutorialStep && tutorialStep.isReady(game) && !animatingCards && !revealedBluff;
+  const isHighlighted = (target: TutorialTarget) => isTutorialStepReady && tutorialStep!.highlights.includes(target);
+  // Kept out of the tutorial, which teaches the same judgement step by step.
+  const advisorReport = settings.showAdvisor && !tutorialStep && !isHandHidden && !winner ? getAdvisorReport(getAiView(game, humanPlayer.id)) : null;
+  const canUndo = isPracticeGame && !animatingCards && !revealedBluff && undoToDecisionPoint(undoHistory) !== null;
+  const isFinalChallengeOpen = finalPlay !== null && currentPlayer.id === humanPlayer.id && !revealedBluff && !isHandHidden;
+  // Hotkeys are off while a dialog or the pass-device screen has the focus.
+  const hotkeys = isDeclareModalOpen || isPassingDevice || isFinalChallengeOpen ? {} : {
+    [t('hotkey.play')]: canPlayNow ? handlePlayerPlayAction : null,
+    [t('hotkey.challenge')]: canChallengeNow ? handleChallenge : null,
+    [t('hotkey.take')]: canTakeNow ? handleTakeCards : null,
+    [t('hotkey.lastCard')]: canPressLastCard ? handleLastCardButtonClick : null,
+    [t('hotkey.undo')]: canUndo ? undo : null,
+  };
+
+  const playableCardCount = getPlayablePile(discardPile, rules).length;
+  const viewerIndex = players.findIndex(p => p.id === humanPlayer.id);
+  const opponents = [...players.slice(viewerIndex + 1), ...players.slice(0, viewerIndex)];
+  // Cosmetic offsets in [-range/2, range/2), stable for a given deal and position.
+  const jitter = (key: string, range: number) => (randomFromKey(game.seed, key) - 0.5) * range;
+  const withoutAnimatingCards = (player: Player): Player => animatingCards
+    ? { ...player, hand: player.hand.filter(card => !animatingCards.cards.some(c => c.id === card.id)) }
+    : player;
 
   return (
+    <TranslatorContext.Provider value={t}>
     <div className="min-h-screen w-full flex overflow-hidden">
-      {winner && <GameOverBanner winnerName={winner.name} onRestart={startGame} />}
-      {isDeclareModalOpen && <DeclareRankModal onDeclare={handlePlayCards} onClose={() => setDeclareModalOpen(false)} minRankOrder={minRankOrder} selectedCards={selectedCards} />}
+      <Hotkeys bindings={hotkeys} />
+      <LiveRegion message={announcement} />
+      <SoundControls volume={settings.soundVolume} isMuted={settings.isMuted} onChange={updateSettings} className="fixed top-4 right-4" />
+      {network && <NetworkStatusBar network={network} locale={settings.locale} onLeave={leaveTable} />}
+      {tutorialStep && (
+        <TutorialPanel
+            step={tutorialStep}
+            isReady={isTutorialStepReady}
+            isWrongMove={isTutorialWrongMove}
+            tutorName={players.find(p => !p.isHuman)?.name ?? ''}
+            rules={rules}
+            onNext={() => setTutorialStepIndex(index => index! + 1)}
+            onExit={exitTutorial}
+        />
+      )}
+      {advisorReport && <AdvisorPanel report={advisorReport} players={players} onHide={() => updateSettings({ showAdvisor: false })} />}
+      {!settings.showAdvisor && !tutorialStep && !winner && (
+        <ActionButton onClick={() => updateSettings({ showAdvisor: true })} variant="secondary" className="fixed bottom-4 left-4 z-30 py-2 text-sm">{t('advisor.show')}</ActionButton>
+      )}
+      {winner && !tutorialStep && (
+        <GameOverBanner
+            winnerName={winner.name}
+            onRestart={!network ? (match ? startNextMatchGame : () => startGame()) : network.lobby?.hostId === network.seatId ? startNetworkGame : undefined}
+            onUndo={canUndo ? undo : undefined}
+            match={match ?? undefined}
+            onShowMatch={match ? () => setGamePhase('MATCH_SUMMARY') : undefined}
+        />
+      )}
+      {isDeclareModalOpen && <DeclareRankModal onDeclare={handlePlayCards} onClose={() => setDeclareModalOpen(false)} selectedCards={selectedCards} ranks={getDeckRanks(rules)} getRejection={describeRankRejection} />}
       {revealedBluff && <RevealedBluffDisplay cards={revealedBluff.cards} />}
-      {finalPlay && humanPlayer.id !== finalPlay.playerId && <FinalChallengeModal onChallenge={handleFinalChallenge} onConcede={handleConcedeWin} opponentName={players.find(p=>p.id === finalPlay.playerId)!.name} />}
+      {isPassingDevice && <PassDeviceScreen playerName={currentPlayer.name} onReveal={() => setRevealedViewerId(currentPlayer.id)} />}
+      {isHotSeat && penalty && !winner && (
+        <PenaltyReactionPanel humans={humans} offenderId={penalty.offenderId} isOpen={penalty.isOpen} onReport={handleHotSeatReport} onCorrect={handleHotSeatCorrection} />
+      )}
+      {isFinalChallengeOpen && <FinalChallengeModal onChallenge={handleChallenge} onConcede={handleConcedeWin} opponentName={players.find(p=>p.id === finalPlay!.playerId)!.name} />}
       {animatingCards && animatingCards.cards.map((card, index) => {
-          const isOpening8 = isOpeningMoveAvailable && card.id === '8-Kier';
-          return <AnimatedCard key={`${animatingCards.key}-${card.id}`} card={card} from={animatingCards.from} index={index} isFaceUp={animatingCards.isFaceUp || isOpening8} />
+          const isOpeningStarter = isOpeningMoveAvailable && card.id === rules.starterCardId;
+          const jitterKey = `${card.id}@${discardPile.length}`;
+          return (
+            <AnimatedCard
+                key={`${animatingCards.key}-${card.id}`}
+                card={card}
+                from={animatingCards.from}
+                index={index}
+                rotation={{ start: jitter(`${jitterKey}:start`, 10), end: jitter(`${jitterKey}:end`, 20) }}
+                isFaceUp={animatingCards.isFaceUp || isOpeningStarter}
+            />
+          );
       })}
       
       <div className="flex-grow flex flex-col p-4 md:p-8 space-y-4">
         {/* Opponent Area */}
-        <OpponentDisplay player={aiPlayer} isPlayerTurn={currentPlayer.id === aiPlayer.id} lastCardDeclarerId={lastCardDeclarerId} />
+        <div className="flex justify-center gap-4">
+            {opponents.map(opponent => (
+                <OpponentDisplay
+                    key={opponent.id}
+                    player={withoutAnimatingCards(opponent)}
+                    isPlayerTurn={currentPlayer.id === opponent.id}
+                    lastCardDeclarerId={lastCardDeclarerId}
+                    compact={opponents.length > 1}
+                    clock={clock}
+                />
+            ))}
+        </div>
         
         {/* Table Center */}
         <div className="flex-grow flex items-center justify-around">
             <div className="flex flex-col items-center space-y-4 w-48">
-                 <ActionButton onClick={handleTakeCards} disabled={!isPlayerTurn || playableCardCount === 0 || isOpeningMoveAvailable} className="w-full">Pobierz 3</ActionButton>
-                 {penaltyOpportunity && penaltyOpportunity.forPlayerId === humanPlayer.id && (
-                    <ActionButton onClick={handleReportNoDeclaration} className="bg-red-600 hover:bg-red-500 text-white animate-pulse w-full" variant='secondary'>Zgłoś Brak Deklaracji!</ActionButton>
+                 <ActionButton onClick={handleTakeCards} disabled={!canTakeNow} shortcut={t('hotkey.take')} isHighlighted={isHighlighted('take')} className="w-full">{t('table.take', { count: rules.takeCount })}</ActionButton>
+                 {!isHotSeat && penalty && penalty.isOpen && penalty.offenderId !== humanPlayer.id && (
+                    <ActionButton onClick={handleReportNoDeclaration} isHighlighted={isHighlighted('report')} className="bg-red-600 hover:bg-red-500 text-white animate-pulse w-full" variant='secondary'>{t('table.report')}</ActionButton>
+                 )}
+                 {isPracticeGame && (
+                    <>
+                        <ActionButton onClick={undo} disabled={!canUndo} shortcut={t('hotkey.undo')} className="w-full" variant='secondary'>{t('table.undo')}</ActionButton>
+                        <p className="text-xs uppercase tracking-wider text-amber-300">{t('table.practice')}</p>
+                    </>
+                 )}
+                 {match && (
+                    <p className="text-xs uppercase tracking-wider text-blue-300">
+                        {t('table.matchGame', { number: match.results.filter(result => result.seed !== game.seed).length + 1 })}
+                    </p>
                  )}
             </div>
 
             <div className="flex flex-col items-center">
                 <div className="relative w-28 h-40 flex items-center justify-center">
                     {discardPile.map((card, index) => {
-                        const isPermanent8 = index === 0 && card.id === '8-Kier';
-                        const randomXOffset = (card.id.charCodeAt(0) % 6) - 3; 
-                        const randomRotation = (card.id.charCodeAt(2) % 8) - 4;
+                        const isPermanentStarter = index === 0 && hasPermanentStarter(discardPile, rules);
+                        const randomXOffset = jitter(`${card.id}:x`, 6);
+                        const randomRotation = jitter(`${card.id}:rotation`, 8);
                         const verticalOffset = index * 0.4;
 
                         return (
@@ -959,7 +2408,7 @@ export default function App() {
                                     transform: `translateX(${randomXOffset}px) translateY(-${verticalOffset}px) rotate(${randomRotation}deg)`
                                 }}
                             >
-                                <CardComponent card={card} isFaceDown={!isPermanent8} />
+                                <CardComponent card={card} isFaceDown={!isPermanentStarter} />
                             </div>
                         )
                     })}
@@ -969,7 +2418,7 @@ export default function App() {
                             className="absolute"
                             style={{
                                 zIndex: discardPile.length,
-                                transform: `translateY(-${(discardPile.length -1) * 0.4}px) rotate(${(Math.random() * 5) - 2.5}deg)`
+                                transform: `translateY(-${(discardPile.length -1) * 0.4}px) rotate(${jitter(`${lastPlay.actualCards[0].id}:face-up`, 5)}deg)`
                             }}
                         >
                             <CardComponent card={lastPlay.actualCards[0]} />
@@ -988,56 +2437,62 @@ export default function App() {
                 </div>
                  <p className="text-sm text-center mt-4 h-12 text-gray-400">
                     {lastPlay
-                        ? <>DEKLARACJA: <br/> <span className="font-bold text-lg text-white">{`${lastPlay.declaredCount}x "${lastPlay.declaredRank}"`}</span></>
-                        : <>STOS<br/><span className="font-bold text-lg text-gray-200">({playableCardCount} KART)</span></>
+                        ? <>{t('table.declaration')} <br/> <span className="font-bold text-lg text-white">{`${lastPlay.declaredCount}x "${formatRank(t, lastPlay.declaredRank)}"`}</span></>
+                        : <>{t('table.pile')}<br/><span className="font-bold text-lg text-gray-200">{t('table.pileCount', { count: playableCardCount })}</span></>
                     }
                 </p>
             </div>
 
              <div className="flex flex-col items-center space-y-4 w-48">
-                 <ActionButton onClick={handleChallenge} disabled={!isPlayerTurn || !lastPlay || !lastPlay.isChallengeable} className="w-full">Sprawdzam</ActionButton>
+                 <ActionButton onClick={handleChallenge} disabled={!canChallengeNow} shortcut={t('hotkey.challenge')} isHighlighted={isHighlighted('challenge')} className="w-full">{t('table.challenge')}</ActionButton>
                  <ActionButton
                     onClick={handleLastCardButtonClick}
-                    disabled={!isPlayerTurn || (!canDeclareLastCard && (!penaltyOpportunity || penaltyOpportunity.byPlayerId !== humanPlayer?.id))}
+                    disabled={!canPressLastCard}
+                    shortcut={t('hotkey.lastCard')}
+                    isHighlighted={isHighlighted('lastCard')}
                     className={`w-full`}
                     variant={lastCardDeclarerId === humanPlayer.id ? 'secondary' : 'secondary'}
                 >
-                    Ostatnia Karta
+                    {t('table.lastCard')}
                 </ActionButton>
                  <ActionButton 
                     onClick={handlePlayerPlayAction} 
-                    disabled={!isPlayerTurn || !canPlaySelection} 
+                    disabled={!canPlayNow}
+                    shortcut={t('hotkey.play')}
+                    isHighlighted={isHighlighted('play')}
                     className="w-full"
                     variant='primary'
                 >
-                    Kładę
+                    {t('table.play')}
                 </ActionButton>
+                {isPlayerTurn && playRejection && playRejection.type !== 'NOT_YOUR_TURN' && (
+                    <p className="text-xs text-center text-gray-400">{describePlayRejection(playRejection, t, settings.locale)}</p>
+                )}
             </div>
         </div>
 
         {/* Player Area */}
         <PlayerHand 
-            player={humanPlayer} 
+            player={withoutAnimatingCards(humanPlayer)} 
             selectedCards={selectedCards} 
             onCardSelect={handleCardSelect} 
             isPlayerTurn={isPlayerTurn}
-            lastCardDeclarerId={lastCardDeclarerId}
+            lastCardDeclarerId={lastCardDeclared ? humanPlayer.id : lastCardDeclarerId}
+            isHidden={isHandHidden}
+            isHighlighted={isHighlighted('hand')}
+            clock={clock}
         />
       </div>
 
       {/* Game Log Panel */}
-      <div className="w-full md:w-96 bg-blue-600/20 backdrop-blur-xl border-l border-blue-400/30 flex flex-col p-4 max-h-screen">
-          <h2 className="text-3xl font-extrabold mb-4 text-center border-b-2 border-white/10 pb-2 text-gray-200">Log Gry</h2>
-          <div ref={logContainerRef} className="flex-grow overflow-y-auto pr-2">
-              <div className="space-y-3">
-              {[...gameLog].reverse().map((msg, i) => (
-                  <div key={i} className={`p-3 rounded-lg text-sm max-w-full break-words bg-black/20 border border-white/10`}>
-                      {msg}
-                  </div>
-              ))}
-              </div>
-          </div>
-      </div>
+      <EventLogPanel
+        events={game.events}
+        players={players}
+        rules={game.rules}
+        dealCode={network || tutorialStep || match ? undefined : getDealCode(game)}
+        onExportRecord={network ? undefined : exportRecord}
+      />
     </div>
+    </TranslatorContext.Provider>
   );
 }
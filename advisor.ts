@@ -0,0 +1,120 @@
+import { Card, Rank } from './types';
+import { RANK_ORDER } from './constants';
+import { AiView, CardKnowledge, PublicPlay, countKnownOutsideTop, getHonestOpening, trackCards } from './ai';
+import { getCopiesPerRank, getDeckRanks, getHonestPlaySizes, getStarterRank } from './rules';
+
+// Advice for a human seat. It is built from the same AiView a computer player
+// gets, so it only uses what that seat legitimately knows: its own hand, the
+// face-up starter card and four-of-a-kind plays, cards revealed by challenges
+// and the cards it took back from the pile.
+
+export type Advice =
+  | { type: 'CHALLENGE' }
+  | { type: 'PLAY_HONEST'; rank: Rank; count: number }
+  | { type: 'BLUFF'; rank: Rank }
+  | { type: 'TAKE' };
+
+export interface AdvisorReport {
+  // The other player's claim that can still be checked, and how likely it is a bluff.
+  claim: PublicPlay | null;
+  bluffChance: number | null;
+  // Only on the seat's own turn.
+  advice: Advice | null;
+}
+
+// Calling a claim pays off once it is more likely a bluff than not.
+const CHALLENGE_THRESHOLD = 0.5;
+// How often a claim is a bluff before looking at the cards: players mostly declare what they hold.
+const BLUFF_PRIOR = 0.1;
+
+// HELPER FUNCTIONS
+const choose = (n: number, k: number): number => {
+  if (k < 0 || k > n) return 0;
+  let result = 1;
+  for (let i = 1; i <= k; i++) result = (result * (n - k + i)) / i;
+  return result;
+};
+
+// Chance that `drawn` cards taken from a pool of `pool`, `matching` of which fit, include at least `needed` of them.
+const chanceOfAtLeast = (pool: number, matching: number, drawn: number, needed: number): number => {
+  let chance = 0;
+  for (let hits = needed; hits <= Math.min(matching, drawn); hits++) {
+    chance += (choose(matching, hits) * choose(pool - matching, drawn - hits)) / choose(pool, drawn);
+  }
+  return Math.min(1, chance);
+};
+
+const getDeckSize = (view: AiView): number => getDeckRanks(view.rules).length * getCopiesPerRank(view.rules);
+
+// Weighs a bluff against an honest claim, which needs the claimant's hand before
+// the play (drawn from every card this seat cannot place) to have held enough
+// copies of the declared rank.
+export const estimateBluffChance = (view: AiView, claim: PublicPlay, knowledge: CardKnowledge = trackCards(view)): number => {
+  const unaccounted = getCopiesPerRank(view.rules) - countKnownOutsideTop(knowledge, claim.declaredRank, claim.declaredCount);
+  if (unaccounted < claim.declaredCount) return 1;
+
+  const pool = getDeckSize(view) - Object.keys(knowledge.known).length;
+  const claimantCards = (view.players.find(p => p.id === claim.playerId)?.cardCount ?? 0) + claim.declaredCount;
+  const couldBeHonest = chanceOfAtLeast(pool, Math.min(unaccounted, pool), Math.min(claimantCards, pool), claim.declaredCount);
+  return BLUFF_PRIOR / (BLUFF_PRIOR + (1 - BLUFF_PRIOR) * couldBeHonest);
+};
+
+// Share of a rank's copies that may sit in an opponent's hand, ready to disprove a claim of it.
+const getExposure = (view: AiView, knowledge: CardKnowledge, rank: Rank): number => {
+  const safe = Object.values(knowledge.known).filter(({ card, location }) => card.rank === rank && (location === 'pile' || location === view.seatId)).length;
+  return 1 - safe / getCopiesPerRank(view.rules);
+};
+
+const groupByRank = (hand: Card[]): { [key in Rank]?: Card[] } => {
+  const groups: { [key in Rank]?: Card[] } = {};
+  hand.forEach(card => {
+    if (!groups[card.rank]) groups[card.rank] = [];
+    groups[card.rank]!.push(card);
+  });
+  return groups;
+};
+
+const getTurnAdvice = (view: AiView, knowledge: CardKnowledge, bluffChance: number | null): Advice => {
+  if (view.isOpeningMoveAvailable) {
+    const opening = getHonestOpening(view.hand, view.rules);
+    const starterRank = getStarterRank(view.rules);
+    return opening ? { type: 'PLAY_HONEST', rank: starterRank, count: opening.length } : { type: 'BLUFF', rank: starterRank };
+  }
+  // Conceding a final play loses outright, so it is always worth calling.
+  if (view.finalPlay) return { type: 'CHALLENGE' };
+  if (view.canChallenge && bluffChance !== null && bluffChance >= CHALLENGE_THRESHOLD) return { type: 'CHALLENGE' };
+
+  // Largest honest play first, lowest rank first so the next claim stays within reach.
+  const groups = Object.values(groupByRank(view.hand))
+    .filter(group => RANK_ORDER[group[0].rank] >= view.minRankOrder)
+    .sort((a, b) => RANK_ORDER[a[0].rank] - RANK_ORDER[b[0].rank]);
+  for (const size of getHonestPlaySizes(view.rules)) {
+    const group = groups.find(g => g.length >= size);
+    if (group) return { type: 'PLAY_HONEST', rank: group[0].rank, count: size };
+  }
+
+  const allowedRanks = getDeckRanks(view.rules).filter(rank => RANK_ORDER[rank] >= view.minRankOrder);
+  const bluffRank = allowedRanks.reduce<Rank | null>((best, rank) => (!best || getExposure(view, knowledge, rank) < getExposure(view, knowledge, best) ? rank : best), null);
+  if (!bluffRank) return { type: 'TAKE' };
+  if (!view.canTake) return { type: 'BLUFF', rank: bluffRank };
+
+  // A caught one-card bluff costs the playable pile plus the card; taking costs up to takeCount cards.
+  const playablePile = view.pileCount - (view.rules.isStarterPermanent && knowledge.pile[0]?.id === view.rules.starterCardId ? 1 : 0);
+  const caughtChance = 0.2 + 0.6 * getExposure(view, knowledge, bluffRank);
+  const bluffCost = caughtChance * (playablePile + 1) - (1 - caughtChance);
+  const takeCost = Math.min(view.rules.takeCount, playablePile);
+  return bluffCost <= takeCost ? { type: 'BLUFF', rank: bluffRank } : { type: 'TAKE' };
+};
+
+export const getAdvisorReport = (view: AiView): AdvisorReport => {
+  const knowledge = trackCards(view);
+  const target = view.finalPlay ?? view.lastPlay;
+  // Any take since the claim removed its cards from the top of the pile, so it can no longer be checked.
+  const claimIndex = view.events.map(event => event.type).lastIndexOf('CardsPlayed');
+  const isOnPile = view.events.slice(claimIndex + 1).every(event => event.type !== 'PileTaken' && event.type !== 'PenaltyApplied');
+  const isCheckable = !!target && target.isChallengeable && target.playerId !== view.seatId && isOnPile;
+  const claim = isCheckable ? target : null;
+  const bluffChance = claim ? estimateBluffChance(view, claim, knowledge) : null;
+  const isOwnTurn = view.currentPlayerId === view.seatId && !view.penalty;
+  return { claim, bluffChance, advice: isOwnTurn && view.hand.length > 0 ? getTurnAdvice(view, knowledge, bluffChance) : null };
+};
@@ -0,0 +1,184 @@
+import { Card, GameAction, GameEvent, GameState, LastPlay, PenaltyWindow, Rank, RuleSet } from './types';
+import { RandomSource } from './random';
+import { canChallenge, canTake, getCurrentPlayer, getForcedOpening, getMinRankOrder, getPlayRejection } from './engine';
+
+// The contract between the table and a computer player. A strategy only ever
+// sees an AiView: its own hand, public table state and the events as that seat
+// witnessed them, never other hands or face-down cards.
+
+type GameStartedEvent = Extract<GameEvent, { type: 'GameStarted' }>;
+type CardsPlayedEvent = Extract<GameEvent, { type: 'CardsPlayed' }>;
+
+// An event as one seat saw it: only its own starting hand, and null for cards
+// another player put down face down.
+export type SeenEvent =
+  | Exclude<GameEvent, GameStartedEvent | CardsPlayedEvent>
+  | (Omit<GameStartedEvent, 'seed' | 'hands'> & { hand: Card[] })
+  | (Omit<CardsPlayedEvent, 'cards'> & { cards: (Card | null)[] });
+
+export type PublicPlay = Omit<LastPlay, 'actualCards'>;
+
+export interface AiView {
+  seatId: number;
+  rules: RuleSet;
+  hand: Card[];
+  // In seating order.
+  players: { id: number; name: string; cardCount: number }[];
+  currentPlayerId: number;
+  pileCount: number;
+  lastPlay: PublicPlay | null;
+  finalPlay: PublicPlay | null;
+  isOpeningMoveAvailable: boolean;
+  minRankOrder: number;
+  penalty: PenaltyWindow | null;
+  lastCardDeclarerId: number | null;
+  canTake: boolean;
+  canChallenge: boolean;
+  events: SeenEvent[];
+}
+
+export type AiPlay = { type: 'PLAY'; cards: Card[]; declaredRank: Rank; declaresLastCard: boolean };
+export type AiMove = AiPlay | { type: 'TAKE' } | { type: 'CHALLENGE' };
+
+// Turn decisions may take a while (e.g. a search in a worker), so they can be async.
+export type AiDecision<T> = T | Promise<T>;
+
+// Shown under "strategy.<id>" from the catalogs.
+export interface AiStrategy {
+  id: string;
+  // Opening move of the seat holding the starter card; the cards must include it and are declared as its rank.
+  chooseOpening: (view: AiView, random: RandomSource) => AiDecision<AiPlay>;
+  // Regular turn: play, take or call the last claim.
+  chooseMove: (view: AiView, random: RandomSource) => AiDecision<AiMove>;
+  // The previous player went out on a challengeable play: call it, or concede the game.
+  shouldChallengeFinalPlay: (view: AiView, random: RandomSource) => boolean;
+  // A missed last-card call is reportable. Returns the delay in ms before acting (the
+  // offender corrects itself, anyone else reports), or null to let it pass.
+  reactToPenaltyWindow: (view: AiView, random: RandomSource) => number | null;
+}
+
+const toPublicPlay = (play: LastPlay | null): PublicPlay | null => {
+  if (!play) return null;
+  const { actualCards, ...publicPlay } = play;
+  return publicPlay;
+};
+
+const seeEvent = (event: GameEvent, seatId: number, rules: RuleSet): SeenEvent => {
+  switch (event.type) {
+    case 'GameStarted': {
+      const { seed, hands, ...rest } = event;
+      return { ...rest, hand: hands.find(h => h.playerId === seatId)?.cards ?? [] };
+    }
+    case 'CardsPlayed': {
+      const isSeen = (card: Card) => event.playerId === seatId || !event.isChallengeable || (event.isOpening && card.id === rules.starterCardId);
+      return { ...event, cards: event.cards.map(card => (isSeen(card) ? card : null)) };
+    }
+    default:
+      return event;
+  }
+};
+
+export const getAiView = (state: GameState, seatId: number): AiView => ({
+  seatId,
+  rules: state.rules,
+  hand: state.players.find(p => p.id === seatId)?.hand ?? [],
+  players: state.players.map(p => ({ id: p.id, name: p.name, cardCount: p.hand.length })),
+  currentPlayerId: getCurrentPlayer(state).id,
+  pileCount: state.discardPile.length,
+  lastPlay: toPublicPlay(state.lastPlay),
+  finalPlay: toPublicPlay(state.finalPlay),
+  isOpeningMoveAvailable: state.isOpeningMoveAvailable,
+  minRankOrder: getMinRankOrder(state),
+  penalty: state.penalty,
+  lastCardDeclarerId: state.lastCardDeclarerId,
+  canTake: canTake(state, seatId),
+  canChallenge: canChallenge(state, seatId),
+  events: state.events.map(event => seeEvent(event, seatId, state.rules)),
+});
+
+// A strategy's play goes through the engine's checks like any other input. The
+// engine would refuse an illegal one and leave the table waiting, so it is
+// replaced by the least opening the seat can make, or by taking cards.
+export const toLegalAiAction = (state: GameState, seatId: number, play: AiPlay): GameAction => {
+  if (getPlayRejection(state, seatId, play.cards, play.declaredRank) === null) return { ...play, playerId: seatId };
+  return state.isOpeningMoveAvailable ? getForcedOpening(state, seatId) : { type: 'TAKE', playerId: seatId };
+};
+
+// CARD TRACKING
+export type CardLocation = number | 'pile';
+
+export interface CardKnowledge {
+  // Cards this seat can place, keyed by card id. Anything missing is unaccounted for.
+  known: { [cardId: string]: { card: Card; location: CardLocation } };
+  // Mirrors the discard pile from the bottom; null marks a face-down card the seat never saw.
+  pile: (Card | null)[];
+}
+
+// Replays the events a seat witnessed: its own hand and plays, face-up cards
+// (the starter card, four of a kind), cards revealed by challenges and where they went,
+// and which known cards left the pile with every take or penalty.
+export const trackCards = (view: AiView): CardKnowledge => {
+  const known: CardKnowledge['known'] = {};
+  let pile: (Card | null)[] = [];
+  const { starterCardId } = view.rules;
+
+  const place = (card: Card, location: CardLocation) => { known[card.id] = { card, location }; };
+  const forgetHandOf = (playerId: number) => {
+    Object.keys(known).forEach(id => { if (known[id].location === playerId) delete known[id]; });
+  };
+  const takeTop = (playerId: number, count: number) => {
+    const keep = view.rules.isStarterPermanent && pile[0]?.id === starterCardId ? 1 : 0;
+    const taken = pile.splice(Math.max(keep, pile.length - count));
+    taken.forEach(card => card && place(card, playerId));
+  };
+
+  view.events.forEach(event => {
+    switch (event.type) {
+      case 'GameStarted':
+        event.hand.forEach(card => place(card, view.seatId));
+        break;
+      case 'CardsPlayed': {
+        // Whatever was known about the player's hand may just have gone into the pile unseen.
+        if (event.cards.some(card => card === null)) forgetHandOf(event.playerId);
+        event.cards.forEach(card => card && place(card, 'pile'));
+        pile = event.isOpening
+          ? [...event.cards.filter(card => card?.id === starterCardId), ...event.cards.filter(card => card?.id !== starterCardId)]
+          : [...pile, ...event.cards];
+        break;
+      }
+      case 'ChallengeResolved':
+        takeTop(event.takerId, Infinity);
+        event.revealedCards.forEach(card => { if (!(card.id === starterCardId && view.rules.isStarterPermanent)) place(card, event.takerId); });
+        break;
+      case 'PileTaken':
+        takeTop(event.playerId, event.count);
+        break;
+      case 'PenaltyApplied':
+        takeTop(event.offenderId, event.count);
+        break;
+    }
+  });
+
+  // Whatever was taken blind, the seat can simply look at its own hand.
+  forgetHandOf(view.seatId);
+  view.hand.forEach(card => place(card, view.seatId));
+  return { known, pile };
+};
+
+// The largest honest opening the hand allows: the starter card plus other cards
+// of its rank. Null when no allowed opening size can be filled honestly.
+export const getHonestOpening = (hand: Card[], rules: RuleSet): Card[] | null => {
+  const starter = hand.find(c => c.id === rules.starterCardId);
+  if (!starter) return null;
+  const sameRank = hand.filter(c => c.rank === starter.rank && c.id !== starter.id);
+  const sizes = rules.openingSizes.filter(size => size <= sameRank.length + 1);
+  return sizes.length > 0 ? [starter, ...sameRank.slice(0, Math.max(...sizes) - 1)] : null;
+};
+
+// Copies of `rank` the seat can place somewhere other than the top `topCount` cards of the pile.
+export const countKnownOutsideTop = (knowledge: CardKnowledge, rank: Rank, topCount: number): number => {
+  const top = new Set(knowledge.pile.slice(-topCount).map(card => card?.id));
+  return Object.values(knowledge.known).filter(({ card, location }) =>
+    card.rank === rank && !(location === 'pile' && top.has(card.id))
+  ).length;
+};
@@ -0,0 +1,60 @@
+import { GameEventType, GameState } from './types';
+import { getCurrentPlayer } from './engine';
+
+// The turn clock of a timed table. Pure like the engine: the app, the game
+// server and the simulator each keep a TurnClock next to the game, sync it
+// after every change and dispatch TIME_OUT when the running time is up.
+//
+// The clock runs for the player on turn (including the check of a final
+// play) and stands still while a missed last-card call is being settled,
+// when nobody may take a turn anyway.
+
+export interface TurnClock {
+  // Time left per seat as of `runningSince`; per-turn limits are refilled with every new turn.
+  remainingMs: { [playerId: number]: number };
+  // Whose time is running; null while the clock stands still.
+  runningId: number | null;
+  runningSince: number;
+  // Turns taken so far, telling a new turn of the same player from the old one.
+  turnCount: number;
+}
+
+// On a chess clock nobody starts a turn with less than this, so a spent allowance still leaves time for a move.
+export const MIN_TURN_MS = 5000;
+
+const TURN_EVENTS: GameEventType[] = ['CardsPlayed', 'PileTaken', 'ChallengeResolved', 'PenaltyApplied', 'TimedOut'];
+
+const countTurns = (game: GameState): number => game.events.filter(event => TURN_EVENTS.includes(event.type)).length;
+
+export const getClockedPlayerId = (game: GameState): number | null =>
+  game.rules.timeControl === 'off' || game.winnerId !== null || game.penalty ? null : getCurrentPlayer(game).id;
+
+export const createClock = (game: GameState, now: number): TurnClock => ({
+  remainingMs: Object.fromEntries(game.players.map(p => [p.id, game.rules.timeLimitMs])),
+  runningId: null,
+  runningSince: now,
+  turnCount: countTurns(game),
+});
+
+export const getRemainingMs = (clock: TurnClock, playerId: number, now: number): number => {
+  const elapsed = clock.runningId === playerId ? Math.max(0, now - clock.runningSince) : 0;
+  return Math.max(0, (clock.remainingMs[playerId] ?? 0) - elapsed);
+};
+
+// Charges the time used so far and starts the clock of whoever is to act now.
+// `isPaused` stops it meanwhile, e.g. while a play or a caught bluff is shown.
+export const syncClock = (clock: TurnClock, game: GameState, now: number, isPaused = false): TurnClock => {
+  const turnCount = countTurns(game);
+  const isNewTurn = turnCount !== clock.turnCount;
+  const remainingMs = Object.fromEntries(game.players.map(p => {
+    const left = getRemainingMs(clock, p.id, now);
+    if (!isNewTurn) return [p.id, left];
+    return [p.id, game.rules.timeControl === 'turn' ? game.rules.timeLimitMs : Math.max(left, MIN_TURN_MS)];
+  }));
+  return { remainingMs, runningId: isPaused ? null : getClockedPlayerId(game), runningSince: now, turnCount };
+};
+
+export const formatClock = (ms: number): string => {
+  const seconds = Math.ceil(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
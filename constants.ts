@@ -1,8 +1,47 @@
-import { Rank, Suit } from './types';
+import { Deck, DeckId, Rank, RuleSet, Suit } from './types';
 
-export const RANKS: Rank[] = ['8', '9', '10', 'J', 'Q', 'K', 'A'];
+// Every rank any deck may use; a deck plays a run of them ending with the ace.
+export const RANKS: Rank[] = ['2', '3', '4', '5', '6', '7', '8', '9', '10', 'J', 'Q', 'K', 'A'];
 export const SUITS: Suit[] = ['Pik', 'Kier', 'Trefl', 'Karo'];
 
 export const RANK_ORDER: { [key in Rank]: number } = {
-  '8': 1, '9': 2, '10': 3, 'J': 4, 'Q': 5, 'K': 6, 'A': 7
-};
\ No newline at end of file
+  '2': 1, '3': 2, '4': 3, '5': 4, '6': 5, '7': 6, '8': 7, '9': 8, '10': 9, 'J': 10, 'Q': 11, 'K': 12, 'A': 13
+};
+
+const ranksFrom = (lowest: Rank): Rank[] => RANKS.slice(RANKS.indexOf(lowest));
+
+export const DECKS: { [key in DeckId]: Deck } = {
+  short: { ranks: ranksFrom('9'), copies: 1 },
+  classic: { ranks: ranksFrom('8'), copies: 1 },
+  piquet: { ranks: ranksFrom('7'), copies: 1 },
+  full: { ranks: ranksFrom('2'), copies: 1 },
+  double: { ranks: ranksFrom('8'), copies: 2 },
+};
+
+export const MIN_PLAYERS = 2;
+export const MAX_PLAYERS = 6;
+
+export const DEFAULT_RULES: RuleSet = {
+  deck: 'classic',
+  playSizes: [1, 3],
+  faceUpFourOfAKind: true,
+  takeCount: 3,
+  penaltyCount: 3,
+  lastCardGraceMs: 3000,
+  starterCardId: '8-Kier',
+  isStarterPermanent: true,
+  openingSizes: [1, 3, 4],
+  timeControl: 'off',
+  timeLimitMs: 30000,
+  timeoutAction: 'take',
+};
+
+// Table pacing, shared by the app and the headless simulator.
+export const PLAY_ANIMATION_MS = 500;
+export const BLUFF_REVEAL_MS = 2500;
+// Opening move and "SPRAWDZAM!" calls.
+export const AI_QUICK_MOVE_MS = 1000;
+// Plays, takes and final-play decisions: base + random * spread.
+export const AI_THINK_MS = { base: 1500, spread: 1000 };
+// How long a missed last-card call can be reported once the grace period is over.
+export const PENALTY_WINDOW_MS = 3000;
@@ -0,0 +1,357 @@
+import { Card, DeckId, GameAction, GameEvent, GameState, LastPlay, PlayRejection, Player, Rank, RuleSet } from './types';
+import { DECKS, SUITS, RANK_ORDER, MIN_PLAYERS, MAX_PLAYERS, DEFAULT_RULES } from './constants';
+import { RandomSource, forkRandom, generateSeed } from './random';
+import { getDeckRanks, getRuleErrors, getStarterRank } from './rules';
+
+// Pure rules engine: no React, no timers. Timed steps (the last-card grace
+// period, animations) are driven from outside by dispatching actions.
+//
+// Every game carries its RuleSet; nothing here assumes the classic rules.
+//
+// Seating: turns go around the table in seat order. Only the player whose
+// turn it is may challenge the previous play; a missed last-card declaration
+// may be reported by any other player once the window opens, first claim wins.
+// The grace period and the window are timed outside (OPEN_PENALTY_WINDOW,
+// CLOSE_PENALTY_WINDOW), and no turn is taken until the call is settled.
+//
+// The clock itself runs outside as well (clock.ts); the engine only applies
+// TIME_OUT, the rules' timeout action for the player on turn.
+
+type ActionOf<T extends GameAction['type']> = Extract<GameAction, { type: T }>;
+
+// DECK
+// Further copies of a card get the copy number in their id: "8-Kier", "8-Kier-2".
+export const createDeck = (deckId: DeckId): Card[] => {
+  const { ranks, copies } = DECKS[deckId];
+  const deck: Card[] = [];
+  for (let copy = 1; copy <= copies; copy++) {
+    SUITS.forEach(suit => {
+      ranks.forEach(rank => {
+        deck.push({ suit, rank, id: copy === 1 ? `${rank}-${suit}` : `${rank}-${suit}-${copy}` });
+      });
+    });
+  }
+  return deck;
+};
+
+export const shuffleDeck = <T,>(array: T[], random: RandomSource): T[] => {
+  const newArray = [...array];
+  for (let i = newArray.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [newArray[i], newArray[j]] = [newArray[j], newArray[i]];
+  }
+  return newArray;
+};
+
+// The same seed and number of seats always produce the same deal.
+export const createGame = (seats: Omit<Player, 'hand'>[], seed: number = generateSeed(), rules: RuleSet = DEFAULT_RULES): GameState => {
+  const shuffledDeck = shuffleDeck(createDeck(rules.deck), forkRandom(seed, 'deal'));
+  const players: Player[] = seats.map(seat => ({ ...seat, hand: [] }));
+
+  // Deal round-robin; with uneven splits the earlier seats get one card more.
+  for (let i = 0; shuffledDeck.length > 0; i = (i + 1) % players.length) {
+    players[i].hand.push(shuffledDeck.pop()!);
+  }
+
+  return createGameFromHands(players, seed, rules);
+};
+
+// Starts a game from an explicit deal, e.g. one read back from a game record.
+export const createGameFromHands = (players: Player[], seed: number, rules: RuleSet = DEFAULT_RULES): GameState => {
+  if (players.length < MIN_PLAYERS || players.length > MAX_PLAYERS) {
+    throw new Error(`A table needs ${MIN_PLAYERS} to ${MAX_PLAYERS} players, got ${players.length}`);
+  }
+  const ruleErrors = getRuleErrors(rules);
+  if (ruleErrors.length > 0) {
+    throw new Error(`Invalid rules: ${ruleErrors.join('; ')}`);
+  }
+  const starterPlayerIndex = players.findIndex(p => p.hand.some(c => c.id === rules.starterCardId));
+  if (starterPlayerIndex === -1) {
+    throw new Error(`No player holds the starter card ${rules.starterCardId}`);
+  }
+
+  const state: GameState = {
+    seed,
+    rules,
+    players,
+    currentPlayerIndex: starterPlayerIndex,
+    discardPile: [],
+    lastPlay: null,
+    finalPlay: null,
+    isOpeningMoveAvailable: true,
+    lastCardDeclarerId: null,
+    penalty: null,
+    winnerId: null,
+    events: [],
+  };
+  return addEvent(state, {
+    type: 'GameStarted',
+    seed,
+    starterId: players[starterPlayerIndex].id,
+    hands: players.map(p => ({ playerId: p.id, cards: [...p.hand] })),
+  });
+};
+
+// QUERIES
+export const isFourOfAKind = (cards: Card[]): boolean =>
+  cards.length === 4 && new Set(cards.map(c => c.rank)).size === 1;
+
+export const isBluff = (play: LastPlay): boolean => play.actualCards.some(card => card.rank !== play.declaredRank);
+
+export const getPlayer = (state: GameState, playerId: number): Player | undefined =>
+  state.players.find(p => p.id === playerId);
+
+export const getCurrentPlayer = (state: GameState): Player => state.players[state.currentPlayerIndex];
+
+export const getMinRankOrder = (state: GameState): number =>
+  state.lastPlay ? RANK_ORDER[state.lastPlay.declaredRank] : 0;
+
+export const hasPermanentStarter = (pile: Card[], rules: RuleSet): boolean =>
+  rules.isStarterPermanent && pile.length > 0 && pile[0].id === rules.starterCardId;
+
+export const getPlayablePile = (pile: Card[], rules: RuleSet): Card[] => (hasPermanentStarter(pile, rules) ? pile.slice(1) : pile);
+
+// Face-up plays are shown to everyone and cannot be challenged.
+export const isFaceUpPlay = (state: GameState, cards: Card[]): boolean =>
+  (state.rules.faceUpFourOfAKind && isFourOfAKind(cards)) || (state.isOpeningMoveAvailable && cards.length === 1);
+
+const isAwaitingTurnOf = (state: GameState, playerId: number): boolean =>
+  state.winnerId === null && !state.finalPlay && !state.penalty && getCurrentPlayer(state).id === playerId;
+
+// Without a declared rank, checks what the selection alone decides: the
+// opening and a face-up four of a kind have their rank given, any other
+// play is only checked for its size.
+export const getPlayRejection = (state: GameState, playerId: number, cards: Card[], declaredRank?: Rank): PlayRejection | null => {
+  const player = getPlayer(state, playerId);
+  if (state.penalty && state.winnerId === null) return { type: 'PENALTY_PENDING' };
+  if (!player || !isAwaitingTurnOf(state, playerId)) return { type: 'NOT_YOUR_TURN' };
+  if (cards.length === 0) return { type: 'NO_CARDS' };
+  if (new Set(cards.map(c => c.id)).size !== cards.length || !cards.every(card => player.hand.some(c => c.id === card.id))) {
+    return { type: 'CARDS_NOT_IN_HAND' };
+  }
+
+  const { rules } = state;
+  if (declaredRank !== undefined && !getDeckRanks(rules).includes(declaredRank)) return { type: 'RANK_NOT_IN_DECK' };
+  if (state.isOpeningMoveAvailable) {
+    const starterRank = getStarterRank(rules);
+    if (declaredRank !== undefined && declaredRank !== starterRank) return { type: 'OPENING_RANK', rank: starterRank };
+    if (!cards.some(c => c.id === rules.starterCardId)) return { type: 'OPENING_WITHOUT_STARTER', starterCardId: rules.starterCardId };
+    return rules.openingSizes.includes(cards.length) ? null : { type: 'OPENING_SIZE', sizes: rules.openingSizes };
+  }
+
+  const isFaceUpFour = rules.faceUpFourOfAKind && isFourOfAKind(cards);
+  const rank = isFaceUpFour ? cards[0].rank : declaredRank;
+  if (rank !== undefined && RANK_ORDER[rank] < getMinRankOrder(state)) return { type: 'RANK_TOO_LOW', minRank: state.lastPlay!.declaredRank };
+  if (isFaceUpFour) return declaredRank === undefined || declaredRank === rank ? null : { type: 'FOUR_OF_A_KIND_RANK', rank: cards[0].rank };
+  return rules.playSizes.includes(cards.length) ? null : { type: 'PLAY_SIZE', sizes: rules.playSizes };
+};
+
+export const canPlay = (state: GameState, playerId: number, cards: Card[], declaredRank: Rank): boolean =>
+  getPlayRejection(state, playerId, cards, declaredRank) === null;
+
+export const canTake = (state: GameState, playerId: number): boolean =>
+  isAwaitingTurnOf(state, playerId) && !state.isOpeningMoveAvailable && getPlayablePile(state.discardPile, state.rules).length > 0;
+
+export const canChallenge = (state: GameState, playerId: number): boolean => {
+  if (state.winnerId !== null || state.penalty || getCurrentPlayer(state).id !== playerId) return false;
+  const target = state.finalPlay ?? state.lastPlay;
+  if (!target || !target.isChallengeable || target.playerId === playerId) return false;
+  // Cards that were taken back from the pile can no longer be checked.
+  return target.actualCards.every(card => state.discardPile.some(c => c.id === card.id));
+};
+
+// STATE HELPERS
+const addEvent = (state: GameState, event: GameEvent): GameState => ({
+  ...state,
+  events: [...state.events, event],
+});
+
+const indexOfPlayer = (state: GameState, playerId: number): number => state.players.findIndex(p => p.id === playerId);
+
+const giveCards = (state: GameState, playerId: number, cards: Card[]): GameState => ({
+  ...state,
+  players: state.players.map(p => (p.id === playerId ? { ...p, hand: [...p.hand, ...cards] } : p)),
+});
+
+const takeFromPile = (state: GameState, playerId: number, count: number): { state: GameState; taken: Card[] } => {
+  const pileToKeep = hasPermanentStarter(state.discardPile, state.rules) ? [state.discardPile[0]] : [];
+  const playablePile = getPlayablePile(state.discardPile, state.rules);
+  const taken = playablePile.slice(-count);
+  const remainingPlayablePile = playablePile.slice(0, playablePile.length - taken.length);
+  return {
+    state: giveCards({ ...state, discardPile: [...pileToKeep, ...remainingPlayablePile] }, playerId, taken),
+    taken,
+  };
+};
+
+const advanceTurn = (state: GameState): GameState => ({
+  ...state,
+  currentPlayerIndex: (state.currentPlayerIndex + 1) % state.players.length,
+});
+
+const declareWinner = (state: GameState, playerId: number, concededBy: number | null = null, isTimeLoss = false): GameState =>
+  addEvent({ ...state, winnerId: playerId, finalPlay: null, penalty: null }, { type: 'GameWon', playerId, concededBy, isTimeLoss });
+
+// ACTIONS
+const applyPlay = (state: GameState, { playerId, cards, declaredRank, declaresLastCard = false }: ActionOf<'PLAY'>): GameState => {
+  if (!canPlay(state, playerId, cards, declaredRank)) return state;
+
+  const player = getPlayer(state, playerId)!;
+  const isOpening = state.isOpeningMoveAvailable;
+  const isChallengeable = !isFaceUpPlay(state, cards);
+  const remainingHand = player.hand.filter(card => !cards.some(c => c.id === card.id));
+  const play: LastPlay = { playerId, declaredRank, declaredCount: cards.length, actualCards: cards, isChallengeable };
+
+  const starterCardId = state.rules.starterCardId;
+  const discardPile = isOpening
+    ? [cards.find(c => c.id === starterCardId)!, ...cards.filter(c => c.id !== starterCardId)]
+    : [...state.discardPile, ...cards];
+
+  let next: GameState = addEvent({
+    ...state,
+    players: state.players.map(p => (p.id === playerId ? { ...p, hand: remainingHand } : p)),
+    discardPile,
+    lastPlay: play,
+    isOpeningMoveAvailable: false,
+    lastCardDeclarerId: null,
+  }, { type: 'CardsPlayed', playerId, cards, declaredRank, declaredCount: cards.length, isOpening, isChallengeable });
+
+  if (remainingHand.length === 0) {
+    if (!isChallengeable) return declareWinner(next, playerId);
+    next = addEvent({ ...next, finalPlay: play }, { type: 'FinalPlayPending', playerId });
+  } else if (remainingHand.length === 1) {
+    next = declaresLastCard
+      ? addEvent({ ...next, lastCardDeclarerId: playerId }, { type: 'LastCardDeclared', playerId, isLate: false, elapsedMs: null })
+      : addEvent({ ...next, penalty: { id: next.events.length, offenderId: playerId, isOpen: false } }, { type: 'LastCardMissed', playerId });
+  }
+
+  return advanceTurn(next);
+};
+
+const applyTake = (state: GameState, { playerId }: ActionOf<'TAKE'>): GameState => {
+  if (!canTake(state, playerId)) return state;
+
+  const { state: next, taken } = takeFromPile(state, playerId, state.rules.takeCount);
+  return advanceTurn(addEvent(next, { type: 'PileTaken', playerId, count: taken.length }));
+};
+
+const applyChallenge = (state: GameState, { playerId }: ActionOf<'CHALLENGE'>): GameState => {
+  if (!canChallenge(state, playerId)) return state;
+
+  const target = (state.finalPlay ?? state.lastPlay)!;
+  const challenged = getPlayer(state, target.playerId)!;
+  const wasBluff = isBluff(target);
+  const takerId = wasBluff ? challenged.id : playerId;
+
+  const { state: afterTake, taken } = takeFromPile(state, takerId, Infinity);
+  const next = addEvent(
+    { ...afterTake, lastPlay: null, finalPlay: null, currentPlayerIndex: indexOfPlayer(afterTake, takerId) },
+    {
+      type: 'ChallengeResolved',
+      challengerId: playerId,
+      challengedId: challenged.id,
+      declaredRank: target.declaredRank,
+      declaredCount: target.declaredCount,
+      revealedCards: target.actualCards,
+      wasBluff,
+      takerId,
+      takenCount: taken.length,
+    }
+  );
+
+  if (!wasBluff && challenged.hand.length === 0) return declareWinner(next, challenged.id);
+  return next;
+};
+
+const applyConcede = (state: GameState, { playerId }: ActionOf<'CONCEDE'>): GameState => {
+  if (!state.finalPlay || state.winnerId !== null || getCurrentPlayer(state).id !== playerId) return state;
+
+  return declareWinner(state, state.finalPlay.playerId, playerId);
+};
+
+// Reaction times are kept in whole milliseconds, as game records write them.
+const toWholeMs = (ms: number): number => Math.max(0, Math.round(ms));
+
+// Whether a reaction-window step is meant for the pending call, not an earlier one.
+const isPenaltyWindow = (state: GameState, windowId: number): boolean =>
+  state.penalty !== null && state.penalty.id === windowId && state.winnerId === null;
+
+const applyDeclareLastCard = (state: GameState, { playerId, windowId, elapsedMs }: ActionOf<'DECLARE_LAST_CARD'>): GameState => {
+  if (!isPenaltyWindow(state, windowId) || state.penalty!.offenderId !== playerId) return state;
+
+  return addEvent({ ...state, penalty: null, lastCardDeclarerId: playerId }, { type: 'LastCardDeclared', playerId, isLate: true, elapsedMs: toWholeMs(elapsedMs) });
+};
+
+const applyOpenPenaltyWindow = (state: GameState, { windowId }: ActionOf<'OPEN_PENALTY_WINDOW'>): GameState => {
+  if (!isPenaltyWindow(state, windowId) || state.penalty!.isOpen) return state;
+
+  return addEvent(
+    { ...state, penalty: { ...state.penalty!, isOpen: true } },
+    { type: 'PenaltyWindowOpened', offenderId: state.penalty!.offenderId }
+  );
+};
+
+const applyClosePenaltyWindow = (state: GameState, { windowId, elapsedMs }: ActionOf<'CLOSE_PENALTY_WINDOW'>): GameState => {
+  if (!isPenaltyWindow(state, windowId) || !state.penalty!.isOpen) return state;
+
+  return addEvent({ ...state, penalty: null }, { type: 'PenaltyIgnored', offenderId: state.penalty!.offenderId, elapsedMs: toWholeMs(elapsedMs) });
+};
+
+// The least the opener can put down: the starter card and as few others as the opening sizes allow.
+export const getForcedOpening = (state: GameState, playerId: number): ActionOf<'PLAY'> => {
+  const { starterCardId, openingSizes } = state.rules;
+  const hand = getPlayer(state, playerId)!.hand;
+  const others = hand.filter(c => c.id !== starterCardId).slice(0, Math.min(...openingSizes) - 1);
+  const cards = [hand.find(c => c.id === starterCardId)!, ...others];
+  // A forced play is not held against the player: it calls its own last card.
+  return { type: 'PLAY', playerId, cards, declaredRank: getStarterRank(state.rules), declaresLastCard: true };
+};
+
+// A player who loses on time leaves the win to whoever holds the fewest cards, the next in seat order on a tie.
+const getTimeoutWinnerId = (state: GameState, loserId: number): number => {
+  const loserIndex = indexOfPlayer(state, loserId);
+  const others = state.players.map((_, i) => state.players[(loserIndex + 1 + i) % state.players.length]).filter(p => p.id !== loserId);
+  return others.reduce((best, p) => (p.hand.length < best.hand.length ? p : best)).id;
+};
+
+// Never while a missed last-card call is being settled, which the clock waits out.
+const applyTimeOut = (state: GameState, { playerId }: ActionOf<'TIME_OUT'>): GameState => {
+  if (state.rules.timeControl === 'off' || state.winnerId !== null || state.penalty || getCurrentPlayer(state).id !== playerId) return state;
+
+  const next = addEvent(state, { type: 'TimedOut', playerId });
+  if (state.rules.timeoutAction === 'lose') return declareWinner(next, getTimeoutWinnerId(next, playerId), playerId, true);
+  if (state.finalPlay) return declareWinner(next, state.finalPlay.playerId, playerId);
+  if (state.isOpeningMoveAvailable) {
+    const opening = getForcedOpening(state, playerId);
+    return canPlay(state, playerId, opening.cards, opening.declaredRank) ? applyPlay(next, opening) : state;
+  }
+  if (state.rules.timeoutAction === 'take' && canTake(state, playerId)) return applyTake(next, { type: 'TAKE', playerId });
+  return advanceTurn(next);
+};
+
+// The first report of an open window wins; any later one finds the call settled.
+const applyReportPenalty = (state: GameState, { playerId, windowId, elapsedMs }: ActionOf<'REPORT_PENALTY'>): GameState => {
+  if (!isPenaltyWindow(state, windowId) || !state.penalty!.isOpen || state.penalty!.offenderId === playerId) return state;
+  if (!getPlayer(state, playerId)) return state;
+
+  const offenderId = state.penalty!.offenderId;
+  const { state: next, taken } = takeFromPile({ ...state, penalty: null }, offenderId, state.rules.penaltyCount);
+  return addEvent(
+    { ...next, currentPlayerIndex: indexOfPlayer(next, playerId) },
+    { type: 'PenaltyApplied', reporterId: playerId, offenderId, count: taken.length, elapsedMs: toWholeMs(elapsedMs) }
+  );
+};
+
+export const reduce = (state: GameState, action: GameAction): GameState => {
+  switch (action.type) {
+    case 'PLAY': return applyPlay(state, action);
+    case 'TAKE': return applyTake(state, action);
+    case 'CHALLENGE': return applyChallenge(state, action);
+    case 'CONCEDE': return applyConcede(state, action);
+    case 'DECLARE_LAST_CARD': return applyDeclareLastCard(state, action);
+    case 'OPEN_PENALTY_WINDOW': return applyOpenPenaltyWindow(state, action);
+    case 'REPORT_PENALTY': return applyReportPenalty(state, action);
+    case 'CLOSE_PENALTY_WINDOW': return applyClosePenaltyWindow(state, action);
+    case 'TIME_OUT': return applyTimeOut(state, action);
+  }
+};
@@ -0,0 +1,80 @@
+import { GameEvent, GameEventType, Player, RuleSet } from './types';
+import { PENALTY_WINDOW_MS } from './constants';
+import { Translator, formatCardName, formatRank } from './i18n';
+
+// Presentation of the engine's structured event log.
+
+// In the order the log filter lists them; labels are under "eventType.<type>" in the catalogs.
+export const EVENT_TYPES: GameEventType[] = [
+  'GameStarted',
+  'CardsPlayed',
+  'FinalPlayPending',
+  'ChallengeResolved',
+  'PileTaken',
+  'LastCardDeclared',
+  'LastCardMissed',
+  'PenaltyWindowOpened',
+  'PenaltyApplied',
+  'PenaltyIgnored',
+  'TimedOut',
+  'GameWon',
+];
+
+export const getEventPlayerIds = (event: GameEvent): number[] => {
+  switch (event.type) {
+    case 'GameStarted': return [event.starterId];
+    case 'ChallengeResolved': return [event.challengerId, event.challengedId];
+    case 'PenaltyWindowOpened':
+    case 'PenaltyIgnored': return [event.offenderId];
+    case 'PenaltyApplied': return [event.reporterId, event.offenderId];
+    case 'GameWon': return event.concededBy === null ? [event.playerId] : [event.playerId, event.concededBy];
+    default: return [event.playerId];
+  }
+};
+
+export const describeEvent = (event: GameEvent, players: Player[], rules: RuleSet, t: Translator): string => {
+  const nameOf = (playerId: number) => players.find(p => p.id === playerId)?.name ?? '?';
+  const starter = formatCardName(t, rules.starterCardId);
+
+  switch (event.type) {
+    case 'GameStarted':
+      return t('event.gameStarted', { name: nameOf(event.starterId), starter });
+    case 'CardsPlayed': {
+      const play = { name: nameOf(event.playerId), count: event.declaredCount, rank: formatRank(t, event.declaredRank) };
+      const description = event.isChallengeable ? t('event.cardsPlayed', play) : t('event.faceUpPlayed', play);
+      return event.isOpening ? `${t('event.opening', { name: play.name, starter })} ${description}` : description;
+    }
+    case 'FinalPlayPending':
+      return t('event.finalPlayPending', { name: nameOf(event.playerId) });
+    case 'ChallengeResolved': {
+      const call = t('event.challengeCall', { name: nameOf(event.challengerId) });
+      const outcome = event.wasBluff
+        ? t('event.challengeBluff', {
+            challenged: nameOf(event.challengedId),
+            revealed: event.revealedCards.map(c => formatRank(t, c.rank)).join(', '),
+            count: event.declaredCount,
+            rank: formatRank(t, event.declaredRank),
+            taker: nameOf(event.takerId),
+          })
+        : t('event.challengeHonest', { taker: nameOf(event.takerId) });
+      return `${call} ${outcome}`;
+    }
+    case 'PileTaken':
+      return t('event.pileTaken', { name: nameOf(event.playerId), count: event.count });
+    case 'LastCardDeclared':
+      return t(event.isLate ? 'event.lastCardLate' : 'event.lastCardDeclared', { name: nameOf(event.playerId), seconds: (event.elapsedMs ?? 0) / 1000 });
+    case 'LastCardMissed':
+      return t('event.lastCardMissed', { name: nameOf(event.playerId), seconds: rules.lastCardGraceMs / 1000 });
+    case 'PenaltyWindowOpened':
+      return t('event.penaltyWindowOpened', { name: nameOf(event.offenderId), seconds: PENALTY_WINDOW_MS / 1000 });
+    case 'PenaltyApplied':
+      return t('event.penaltyApplied', { reporter: nameOf(event.reporterId), offender: nameOf(event.offenderId), count: event.count, seconds: event.elapsedMs / 1000 });
+    case 'PenaltyIgnored':
+      return t('event.penaltyIgnored', { seconds: event.elapsedMs / 1000 });
+    case 'TimedOut':
+      return t('event.timedOut', { name: nameOf(event.playerId) });
+    case 'GameWon':
+      if (event.concededBy === null) return t('event.gameWon', { name: nameOf(event.playerId) });
+      return t(event.isTimeLoss ? 'event.gameLostOnTime' : 'event.gameConceded', { conceder: nameOf(event.concededBy), name: nameOf(event.playerId) });
+  }
+};
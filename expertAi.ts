@@ -0,0 +1,98 @@
+import { AiMove, AiPlay, AiStrategy, AiView } from './ai';
+import { getMoveCandidates, getOpeningCandidates, searchMove, SearchBudget } from './ismcts';
+import { RandomSource, createRandom } from './random';
+import { createHeuristicStrategy } from './heuristicAi';
+
+// The expert bot: every turn decision is an information-set Monte Carlo search
+// (see ismcts.ts) run in a Web Worker within a fixed thinking time. Where
+// workers are unavailable (e.g. in Node) the same search runs inline. When the
+// search fails (the worker does not load, or it throws), the normal heuristic
+// bot decides instead, so the table never waits on a move that will not come.
+
+const EXPERT_BUDGET: SearchBudget = { timeMs: 1200, maxIterations: 20000 };
+
+export interface ExpertRequest {
+  id: number;
+  kind: 'opening' | 'move';
+  view: AiView;
+  seed: number;
+  budget: SearchBudget;
+}
+
+// Null when the search failed.
+export interface ExpertResponse {
+  id: number;
+  move: AiMove | null;
+}
+
+const FALLBACK_STRATEGY = createHeuristicStrategy('normal', 'NORMAL');
+
+const chooseFallback = (kind: ExpertRequest['kind'], view: AiView, seed: number): Promise<AiMove> => {
+  const random = createRandom(seed);
+  return Promise.resolve(kind === 'opening' ? FALLBACK_STRATEGY.chooseOpening(view, random) : FALLBACK_STRATEGY.chooseMove(view, random));
+};
+
+export const createExpertStrategy = (id: string, budget: SearchBudget = EXPERT_BUDGET): AiStrategy => {
+  let worker: Worker | null = null;
+  let nextRequestId = 0;
+  const pending = new Map<number, { request: ExpertRequest; resolve: (move: AiMove) => void }>();
+
+  const settle = (id: number, move: AiMove | null) => {
+    const entry = pending.get(id);
+    if (!entry) return;
+    pending.delete(id);
+    if (move) entry.resolve(move);
+    else void chooseFallback(entry.request.kind, entry.request.view, entry.request.seed).then(entry.resolve);
+  };
+
+  // A broken worker settles everything it was asked and is replaced with the next request.
+  const dropWorker = () => {
+    worker?.terminate();
+    worker = null;
+    [...pending.keys()].forEach(id => settle(id, null));
+  };
+
+  const getWorker = (): Worker => {
+    if (!worker) {
+      worker = new Worker(new URL('./expertWorker.ts', import.meta.url), { type: 'module' });
+      worker.onmessage = (message: MessageEvent<ExpertResponse>) => settle(message.data.id, message.data.move);
+      worker.onerror = dropWorker;
+      worker.onmessageerror = dropWorker;
+    }
+    return worker;
+  };
+
+  const search = (kind: ExpertRequest['kind'], view: AiView, random: RandomSource): Promise<AiMove> => {
+    // The search draws from its own stream, seeded from the table's AI stream.
+    const seed = Math.floor(random() * 0x100000000);
+    if (typeof Worker === 'undefined') {
+      try {
+        const candidates = kind === 'opening' ? getOpeningCandidates(view) : getMoveCandidates(view);
+        return Promise.resolve(searchMove(view, candidates, createRandom(seed), budget));
+      } catch {
+        return chooseFallback(kind, view, seed);
+      }
+    }
+    return new Promise(resolve => {
+      const request: ExpertRequest = { id: nextRequestId++, kind, view, seed, budget };
+      pending.set(request.id, { request, resolve });
+      try {
+        getWorker().postMessage(request);
+      } catch {
+        dropWorker();
+      }
+    });
+  };
+
+  return {
+    id,
+    chooseOpening: (view, random) => search('opening', view, random) as Promise<AiPlay>,
+    chooseMove: (view, random) => search('move', view, random),
+    // Conceding loses outright and calling an honest final play loses too, so always call.
+    shouldChallengeFinalPlay: () => true,
+    reactToPenaltyWindow: (view, random) => {
+      if (!view.penalty) return null;
+      return view.penalty.offenderId === view.seatId ? 1000 : 700 + random() * 300;
+    },
+  };
+};
@@ -0,0 +1,17 @@
+import { getMoveCandidates, getOpeningCandidates, searchMove } from './ismcts';
+import { createRandom } from './random';
+import { ExpertRequest, ExpertResponse } from './expertAi';
+
+// Runs the expert search off the main thread so the board keeps animating.
+// A failed search is answered with no move, for the caller to fall back.
+self.onmessage = (message: MessageEvent<ExpertRequest>) => {
+  const { id, kind, view, seed, budget } = message.data;
+  let response: ExpertResponse;
+  try {
+    const candidates = kind === 'opening' ? getOpeningCandidates(view) : getMoveCandidates(view);
+    response = { id, move: searchMove(view, candidates, createRandom(seed), budget) };
+  } catch {
+    response = { id, move: null };
+  }
+  self.postMessage(response);
+};
@@ -0,0 +1,272 @@
+import { randomInt, randomUUID } from 'node:crypto';
+import type { WebSocket } from 'ws';
+import { GameAction, GameState, PenaltyWindow, PlayRejection, RuleSet } from './types';
+import { MAX_PLAYERS, MIN_PLAYERS, PENALTY_WINDOW_MS } from './constants';
+import { createGame, getPlayRejection, getPlayer, reduce } from './engine';
+import { getAiView } from './ai';
+import { TurnClock, createClock, getRemainingMs, syncClock } from './clock';
+import { generateSeed } from './random';
+import { ClientMessage, Intent, LobbyInfo, MAX_NAME_LENGTH, ServerErrorCode, ServerMessage, parseClientMessage, toAction } from './protocol';
+
+// The authoritative side of network play. Lobbies hold up to MAX_PLAYERS
+// seats; the host starts the game once enough people have joined. All rules,
+// including the last-card grace period and the turn clock, run here: clients
+// only send intents and each seat is sent its own view after every change.
+
+const LOBBY_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const LOBBY_CODE_LENGTH = 4;
+// A lobby nobody is connected to is dropped after this long.
+const ABANDONED_LOBBY_MS = 10 * 60 * 1000;
+
+interface Seat {
+  id: number;
+  name: string;
+  token: string;
+  socket: WebSocket | null;
+}
+
+interface Lobby {
+  id: string;
+  seats: Seat[];
+  hostId: number;
+  nextSeatId: number;
+  rules: RuleSet;
+  game: GameState | null;
+  // The pending penalty the timer was started for, and when its call was missed.
+  timedPenalty: PenaltyWindow | null;
+  penaltySince: number;
+  penaltyTimer: ReturnType<typeof setTimeout> | null;
+  // Only at a timed table.
+  clock: TurnClock | null;
+  clockTimer: ReturnType<typeof setTimeout> | null;
+  abandonTimer: ReturnType<typeof setTimeout> | null;
+}
+
+export interface GameServer {
+  handleConnection: (socket: WebSocket) => void;
+  close: () => void;
+}
+
+// A seat without a name stays empty: each client names it in its own language.
+const cleanName = (name: string): string => name.trim().slice(0, MAX_NAME_LENGTH);
+
+export const createGameServer = (): GameServer => {
+  const lobbies = new Map<string, Lobby>();
+  const seating = new Map<WebSocket, { lobby: Lobby; seat: Seat }>();
+
+  // SENDING
+  const send = (socket: WebSocket | null, message: ServerMessage) => {
+    if (socket && socket.readyState === socket.OPEN) socket.send(JSON.stringify(message));
+  };
+
+  const fail = (socket: WebSocket, code: ServerErrorCode, rejection?: PlayRejection) => send(socket, { type: 'ERROR', code, rejection });
+
+  const toLobbyInfo = (lobby: Lobby): LobbyInfo => ({
+    lobbyId: lobby.id,
+    hostId: lobby.hostId,
+    seats: lobby.seats.map(seat => ({ id: seat.id, name: seat.name, isConnected: seat.socket !== null })),
+    isPlaying: lobby.game !== null && lobby.game.winnerId === null,
+  });
+
+  const sendState = (lobby: Lobby, seat: Seat) => {
+    // Seats that joined after the last game have nothing to see until the next one.
+    if (!lobby.game || !getPlayer(lobby.game, seat.id)) return;
+    const clock = lobby.clock && syncClock(lobby.clock, lobby.game, Date.now());
+    send(seat.socket, { type: 'STATE', view: getAiView(lobby.game, seat.id), clock });
+  };
+
+  const broadcastLobby = (lobby: Lobby) => {
+    const lobbyInfo = toLobbyInfo(lobby);
+    lobby.seats.forEach(seat => send(seat.socket, { type: 'LOBBY', lobby: lobbyInfo }));
+  };
+
+  // LOBBY LIFECYCLE
+  const createLobbyCode = (): string => {
+    let code: string;
+    do {
+      code = Array.from({ length: LOBBY_CODE_LENGTH }, () => LOBBY_CODE_ALPHABET[randomInt(LOBBY_CODE_ALPHABET.length)]).join('');
+    } while (lobbies.has(code));
+    return code;
+  };
+
+  const dropLobby = (lobby: Lobby) => {
+    if (lobby.penaltyTimer) clearTimeout(lobby.penaltyTimer);
+    if (lobby.clockTimer) clearTimeout(lobby.clockTimer);
+    if (lobby.abandonTimer) clearTimeout(lobby.abandonTimer);
+    lobby.seats.forEach(seat => seat.socket && seating.delete(seat.socket));
+    lobbies.delete(lobby.id);
+  };
+
+  const watchAbandonment = (lobby: Lobby) => {
+    if (lobby.abandonTimer) clearTimeout(lobby.abandonTimer);
+    lobby.abandonTimer = lobby.seats.some(seat => seat.socket)
+      ? null
+      : setTimeout(() => dropLobby(lobby), ABANDONED_LOBBY_MS);
+  };
+
+  const takeSeat = (socket: WebSocket, lobby: Lobby, seat: Seat) => {
+    const previous = seating.get(socket);
+    if (previous && previous.seat !== seat) leaveSeat(socket);
+    // A seat is played from one connection at a time; the newest one wins.
+    if (seat.socket && seat.socket !== socket) {
+      seating.delete(seat.socket);
+      seat.socket.close();
+    }
+    seat.socket = socket;
+    seating.set(socket, { lobby, seat });
+    send(socket, { type: 'JOINED', lobbyId: lobby.id, seatId: seat.id, token: seat.token });
+    watchAbandonment(lobby);
+    broadcastLobby(lobby);
+    sendState(lobby, seat);
+  };
+
+  const addSeat = (lobby: Lobby, name: string): Seat => {
+    const id = lobby.nextSeatId++;
+    const seat: Seat = { id, name: cleanName(name), token: randomUUID(), socket: null };
+    lobby.seats.push(seat);
+    return seat;
+  };
+
+  // Before the game starts the seat is given up; during a game it is kept for a reconnect.
+  const leaveSeat = (socket: WebSocket, isLeaving = true) => {
+    const seated = seating.get(socket);
+    if (!seated) return;
+    const { lobby, seat } = seated;
+    seating.delete(socket);
+    seat.socket = null;
+
+    if (isLeaving && !toLobbyInfo(lobby).isPlaying) {
+      lobby.seats = lobby.seats.filter(s => s !== seat);
+      if (lobby.seats.length === 0) return dropLobby(lobby);
+      if (lobby.hostId === seat.id) lobby.hostId = lobby.seats[0].id;
+    }
+    watchAbandonment(lobby);
+    broadcastLobby(lobby);
+  };
+
+  // GAME
+  // Opens the reaction window after the grace period and closes it PENALTY_WINDOW_MS later, both counted from the missed call.
+  const syncPenaltyTimer = (lobby: Lobby) => {
+    const penalty = lobby.game?.penalty ?? null;
+    if (penalty === lobby.timedPenalty) return;
+    if (lobby.penaltyTimer) clearTimeout(lobby.penaltyTimer);
+    if (penalty && penalty.id !== lobby.timedPenalty?.id) lobby.penaltySince = Date.now();
+    lobby.timedPenalty = penalty;
+    lobby.penaltyTimer = null;
+    if (!lobby.game || !penalty) return;
+
+    const windowId = penalty.id;
+    const endsAt = lobby.penaltySince + lobby.game.rules.lastCardGraceMs + (penalty.isOpen ? PENALTY_WINDOW_MS : 0);
+    lobby.penaltyTimer = setTimeout(() => applyAction(lobby, penalty.isOpen
+      ? { type: 'CLOSE_PENALTY_WINDOW', windowId, elapsedMs: Date.now() - lobby.penaltySince }
+      : { type: 'OPEN_PENALTY_WINDOW', windowId }
+    ), endsAt - Date.now());
+  };
+
+  const syncTurnClock = (lobby: Lobby) => {
+    if (lobby.clockTimer) clearTimeout(lobby.clockTimer);
+    lobby.clockTimer = null;
+    const game = lobby.game;
+    if (!game || game.rules.timeControl === 'off') {
+      lobby.clock = null;
+      return;
+    }
+    const now = Date.now();
+    const clock = syncClock(lobby.clock ?? createClock(game, now), game, now);
+    lobby.clock = clock;
+    const playerId = clock.runningId;
+    if (playerId !== null) {
+      lobby.clockTimer = setTimeout(() => applyAction(lobby, { type: 'TIME_OUT', playerId }), getRemainingMs(clock, playerId, now));
+    }
+  };
+
+  // Messages are handled one at a time, so the first claim to reach the server wins.
+  const applyAction = (lobby: Lobby, action: GameAction): boolean => {
+    if (!lobby.game) return false;
+    const next = reduce(lobby.game, action);
+    if (next === lobby.game) return false;
+
+    const wasPlaying = toLobbyInfo(lobby).isPlaying;
+    lobby.game = next;
+    syncPenaltyTimer(lobby);
+    syncTurnClock(lobby);
+    lobby.seats.forEach(seat => sendState(lobby, seat));
+    if (wasPlaying !== toLobbyInfo(lobby).isPlaying) broadcastLobby(lobby);
+    return true;
+  };
+
+  const startGame = (lobby: Lobby) => {
+    lobby.game = createGame(lobby.seats.map(seat => ({ id: seat.id, name: seat.name, isHuman: true })), generateSeed(), lobby.rules);
+    lobby.clock = null;
+    syncPenaltyTimer(lobby);
+    syncTurnClock(lobby);
+    broadcastLobby(lobby);
+    lobby.seats.forEach(seat => sendState(lobby, seat));
+  };
+
+  const playIntent = (socket: WebSocket, lobby: Lobby, seat: Seat, intent: Intent) => {
+    const player = lobby.game && getPlayer(lobby.game, seat.id);
+    if (!player) return fail(socket, 'NO_GAME');
+    const action = toAction(intent, player, Date.now() - lobby.penaltySince);
+    if (!action) return fail(socket, 'ILLEGAL_MOVE', { type: 'CARDS_NOT_IN_HAND' });
+    const rejection = action.type === 'PLAY' ? getPlayRejection(lobby.game!, player.id, action.cards, action.declaredRank) : null;
+    if (rejection) return fail(socket, 'ILLEGAL_MOVE', rejection);
+    if (!applyAction(lobby, action)) fail(socket, 'ILLEGAL_MOVE');
+  };
+
+  // MESSAGES
+  const handleMessage = (socket: WebSocket, message: ClientMessage) => {
+    const seated = seating.get(socket);
+
+    switch (message.type) {
+      case 'CREATE_LOBBY': {
+        const lobby: Lobby = {
+          id: createLobbyCode(), seats: [], hostId: 1, nextSeatId: 1, rules: message.rules, game: null, timedPenalty: null, penaltySince: 0, penaltyTimer: null, clock: null, clockTimer: null, abandonTimer: null,
+        };
+        lobbies.set(lobby.id, lobby);
+        const seat = addSeat(lobby, message.name);
+        lobby.hostId = seat.id;
+        return takeSeat(socket, lobby, seat);
+      }
+      case 'JOIN_LOBBY': {
+        const lobby = lobbies.get(message.lobbyId.trim().toUpperCase());
+        if (!lobby) return fail(socket, 'LOBBY_NOT_FOUND');
+        if (toLobbyInfo(lobby).isPlaying) return fail(socket, 'GAME_IN_PROGRESS');
+        if (lobby.seats.length >= MAX_PLAYERS) return fail(socket, 'LOBBY_FULL');
+        return takeSeat(socket, lobby, addSeat(lobby, message.name));
+      }
+      case 'RESUME': {
+        const lobby = lobbies.get(message.lobbyId);
+        const seat = lobby?.seats.find(s => s.token === message.token);
+        if (!lobby || !seat) return fail(socket, 'SESSION_NOT_FOUND');
+        return takeSeat(socket, lobby, seat);
+      }
+      case 'LEAVE':
+        return leaveSeat(socket);
+      case 'START': {
+        if (!seated) return fail(socket, 'NOT_SEATED');
+        const { lobby, seat } = seated;
+        if (lobby.hostId !== seat.id) return fail(socket, 'NOT_HOST');
+        if (toLobbyInfo(lobby).isPlaying) return fail(socket, 'GAME_IN_PROGRESS');
+        if (lobby.seats.length < MIN_PLAYERS) return fail(socket, 'NOT_ENOUGH_PLAYERS');
+        return startGame(lobby);
+      }
+      case 'INTENT':
+        if (!seated) return fail(socket, 'NOT_SEATED');
+        return playIntent(socket, seated.lobby, seated.seat, message.intent);
+    }
+  };
+
+  const handleConnection = (socket: WebSocket) => {
+    socket.on('message', data => {
+      const message = parseClientMessage(String(data));
+      if (message) handleMessage(socket, message);
+      else fail(socket, 'BAD_MESSAGE');
+    });
+    socket.on('close', () => leaveSeat(socket, false));
+  };
+
+  const close = () => [...lobbies.values()].forEach(dropLobby);
+
+  return { handleConnection, close };
+};
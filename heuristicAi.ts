@@ -0,0 +1,152 @@
+import { Card, Rank } from './types';
+import { RANK_ORDER } from './constants';
+import { AiMove, AiPlay, AiStrategy, AiView, CardKnowledge, PublicPlay, countKnownOutsideTop, getHonestOpening, trackCards } from './ai';
+import { getCopiesPerRank, getDeckRanks, getHonestPlaySizes, getStarterRank } from './rules';
+import { RandomSource } from './random';
+
+// The rule-of-thumb bot, in three strengths. Easy plays loosely and calls
+// claims at random; Normal judges claims against its own hand; Hard tracks
+// every card it has seen and uses that to judge claims and pick bluffs.
+
+export type HeuristicLevel = 'EASY' | 'NORMAL' | 'HARD';
+
+interface HeuristicProfile {
+  // Chance of calling "last card" when playing down to one card.
+  lastCardRecall: number;
+  // Chance of correcting its own missed call once it can be reported.
+  selfCorrectChance: number;
+  // Delay before reporting someone else's missed call: base + random * spread.
+  reportDelayMs: { base: number; spread: number };
+}
+
+const PROFILES: { [key in HeuristicLevel]: HeuristicProfile } = {
+  EASY: { lastCardRecall: 0.6, selfCorrectChance: 0.2, reportDelayMs: { base: 2500, spread: 1500 } },
+  NORMAL: { lastCardRecall: 0.85, selfCorrectChance: 0.5, reportDelayMs: { base: 1500, spread: 1000 } },
+  HARD: { lastCardRecall: 1, selfCorrectChance: 0.9, reportDelayMs: { base: 800, spread: 500 } },
+};
+
+// HELPER FUNCTIONS
+const cardCountOf = (view: AiView, playerId: number): number => view.players.find(p => p.id === playerId)?.cardCount ?? 0;
+
+const makePlay = (view: AiView, cards: Card[], declaredRank: Rank, profile: HeuristicProfile, random: RandomSource): AiPlay => ({
+  type: 'PLAY',
+  cards,
+  declaredRank,
+  declaresLastCard: view.hand.length - cards.length === 1 && random() < profile.lastCardRecall,
+});
+
+// Chance to call "SPRAWDZAM!" on a claim during normal play; 1 means the claim is impossible.
+const getChallengeChance = (view: AiView, claim: PublicPlay, level: HeuristicLevel, knowledge: CardKnowledge | null): number => {
+  const claimantCardCount = cardCountOf(view, claim.playerId);
+  if (level === 'EASY') return claimantCardCount <= 2 ? 0.3 : 0.1;
+
+  const copies = getCopiesPerRank(view.rules);
+  const ownCopies = view.hand.filter(c => c.rank === claim.declaredRank).length;
+  const accountedFor = knowledge ? countKnownOutsideTop(knowledge, claim.declaredRank, claim.declaredCount) : ownCopies;
+  if (accountedFor + claim.declaredCount > copies) return 1;
+
+  let challengeChance = 0.05;
+  if (claim.declaredCount === 3) challengeChance += 0.4;
+  if (claim.declaredCount === 1) challengeChance += 0.1;
+  if (['K', 'A'].includes(claim.declaredRank)) challengeChance += 0.15;
+  if (claimantCardCount <= 3) challengeChance += 0.2;
+  if (!knowledge) return challengeChance;
+
+  // The fewer copies left unaccounted for, the less likely the claim is honest.
+  const unaccounted = copies - accountedFor;
+  return Math.min(0.95, challengeChance * (unaccounted / copies) + (1 - unaccounted / copies) * 0.6);
+};
+
+// Rank to claim for a bluff: a rank whose copies the seat has seen go into the
+// pile can't be disproved from an opponent's hand, while copies known to sit in
+// an opponent's hand make the claim easy to catch.
+const chooseBluffRank = (view: AiView, knowledge: CardKnowledge | null): Rank => {
+  const ranks = getDeckRanks(view.rules);
+  const allowedRanks = ranks.filter(r => RANK_ORDER[r] >= view.minRankOrder);
+  if (allowedRanks.length === 0) return ranks[ranks.length - 1];
+  if (!knowledge) {
+    return allowedRanks.find(r => RANK_ORDER[r] === view.minRankOrder || RANK_ORDER[r] === view.minRankOrder + 1) ?? allowedRanks[0];
+  }
+
+  const riskOf = (rank: Rank) => Object.values(knowledge.known)
+    .filter(({ card }) => card.rank === rank)
+    .reduce((risk, { location }) => risk + (location === 'pile' ? -1 : location === view.seatId ? 0 : 2), 0);
+  // Lower ranks first so ties keep the bar low for the next claim.
+  return allowedRanks.reduce((best, rank) => (riskOf(rank) < riskOf(best) ? rank : best));
+};
+
+export const createHeuristicStrategy = (id: string, level: HeuristicLevel): AiStrategy => {
+  const profile = PROFILES[level];
+
+  const chooseOpening = (view: AiView, random: RandomSource): AiPlay => {
+    const { starterCardId, openingSizes } = view.rules;
+    const starterRank = getStarterRank(view.rules);
+    const others = view.hand.filter(c => c.rank !== starterRank);
+    // Without an honest opening, the smallest allowed one is padded with other cards.
+    let cardsToPlay = getHonestOpening(view.hand, view.rules)
+      ?? [view.hand.find(c => c.id === starterCardId)!, ...others.slice(0, Math.min(...openingSizes) - 1)];
+    if (cardsToPlay.length > 1 && random() > 0.8) {
+      const bluffCard = others.find(c => !cardsToPlay.includes(c));
+      const replacedIndex = cardsToPlay.findIndex(c => c.rank === starterRank && c.id !== starterCardId);
+      if (bluffCard && replacedIndex !== -1) cardsToPlay = cardsToPlay.map((c, i) => (i === replacedIndex ? bluffCard : c));
+    }
+    return makePlay(view, cardsToPlay, starterRank, profile, random);
+  };
+
+  const chooseMove = (view: AiView, random: RandomSource): AiMove => {
+    const knowledge = level === 'HARD' ? trackCards(view) : null;
+
+    if (view.lastPlay && view.canChallenge) {
+      const challengeChance = getChallengeChance(view, view.lastPlay, level, knowledge);
+      if (challengeChance >= 1 || random() < challengeChance) return { type: 'CHALLENGE' };
+    }
+
+    const counts: { [key in Rank]?: Card[] } = {};
+    view.hand.forEach(card => {
+      if (!counts[card.rank]) counts[card.rank] = [];
+      counts[card.rank]!.push(card);
+    });
+
+    const validHonestGroups = Object.values(counts)
+      .filter(group => RANK_ORDER[group[0].rank] >= view.minRankOrder);
+    if (level === 'EASY') {
+      validHonestGroups.sort(() => random() - 0.5);
+    } else if (level === 'HARD') {
+      // Lowest ranks first, so the next claim stays within reach of the cards left.
+      validHonestGroups.sort((a, b) => RANK_ORDER[a[0].rank] - RANK_ORDER[b[0].rank]);
+    }
+
+    // Largest honest play first.
+    for (const size of getHonestPlaySizes(view.rules)) {
+      const group = validHonestGroups.find(g => g.length >= size);
+      if (group) return makePlay(view, group.slice(0, size), group[0].rank, profile, random);
+    }
+
+    if (view.hand.length > 0) {
+      const allCardGroups = Object.values(counts).sort((a, b) => a.length - b.length);
+      return makePlay(view, [allCardGroups[0][0]], chooseBluffRank(view, knowledge), profile, random);
+    }
+    return { type: 'TAKE' };
+  };
+
+  // Conceding loses outright, and calling an honest final play loses too, so a
+  // careful player always calls.
+  const shouldChallengeFinalPlay = (view: AiView, random: RandomSource): boolean => {
+    if (!view.finalPlay || level === 'HARD') return true;
+    if (level === 'EASY') return random() < 0.3;
+
+    const { declaredRank, declaredCount } = view.finalPlay;
+    if (view.hand.filter(c => c.rank === declaredRank).length + declaredCount > getCopiesPerRank(view.rules)) return true;
+    return random() < (declaredCount === 3 ? 0.75 : 0.4);
+  };
+
+  const reactToPenaltyWindow = (view: AiView, random: RandomSource): number | null => {
+    if (!view.penalty) return null;
+    if (view.penalty.offenderId === view.seatId) {
+      return random() < profile.selfCorrectChance ? 1000 : null;
+    }
+    return profile.reportDelayMs.base + random() * profile.reportDelayMs.spread;
+  };
+
+  return { id, chooseOpening, chooseMove, shouldChallengeFinalPlay, reactToPenaltyWindow };
+};
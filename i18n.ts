@@ -0,0 +1,885 @@
+import { Rank, Suit } from './types';
+
+// Message catalogs and a small formatter for the ICU message syntax they use:
+// "{name}" arguments, "{count, number}", "{count, plural, one {...} few {...}
+// many {...} other {...}}" with "#" for the count and "=N" for exact matches,
+// and "{flag, select, yes {...} other {...}}". Plural categories come from
+// Intl.PluralRules, so Polish gets its one/few/many forms.
+
+export type Locale = 'pl' | 'en';
+
+export const DEFAULT_LOCALE: Locale = 'pl';
+
+// Every language is named in itself.
+export const LOCALE_NAMES: { [key in Locale]: string } = { pl: 'Polski', en: 'English' };
+
+const PL = {
+  // APP
+  'app.tagline': 'Polska gra karciana oparta na blefie',
+  'app.loading': 'Ładowanie...',
+  'app.language': 'Język',
+  'sound.mute': 'Wycisz dźwięki',
+  'sound.unmute': 'Włącz dźwięki',
+  'sound.volume': 'Głośność',
+  'common.cancel': 'Anuluj',
+  'common.back': 'Wróć',
+
+  // CARDS
+  'suit.Pik': 'Pik',
+  'suit.Kier': 'Kier',
+  'suit.Trefl': 'Trefl',
+  'suit.Karo': 'Karo',
+  'rank.2': '2',
+  'rank.3': '3',
+  'rank.4': '4',
+  'rank.5': '5',
+  'rank.6': '6',
+  'rank.7': '7',
+  'rank.8': '8',
+  'rank.9': '9',
+  'rank.10': '10',
+  'rank.J': 'W',
+  'rank.Q': 'D',
+  'rank.K': 'K',
+  'rank.A': 'A',
+  'rankName.2': '2',
+  'rankName.3': '3',
+  'rankName.4': '4',
+  'rankName.5': '5',
+  'rankName.6': '6',
+  'rankName.7': '7',
+  'rankName.8': '8',
+  'rankName.9': '9',
+  'rankName.10': '10',
+  'rankName.J': 'Walet',
+  'rankName.Q': 'Dama',
+  'rankName.K': 'Król',
+  'rankName.A': 'As',
+  'card.faceDown': 'Zakryta karta',
+  'card.name': '{rank} {suit}',
+  'deck.short': '24 karty (9–A)',
+  'deck.classic': '28 kart (8–A)',
+  'deck.piquet': '32 karty (7–A)',
+  'deck.full': '52 karty (2–A)',
+  'deck.double': 'Dwie talie, 56 kart (8–A)',
+
+  // SEATS
+  'player.human': 'Gracz',
+  'player.ai': 'AI',
+  'player.seat': 'Gracz {id, number}',
+  'setup.playerCount': 'Liczba graczy',
+  'setup.human': 'Człowiek',
+  'setup.computer': 'Komputer',
+  'setup.level': 'Poziom: {name}',
+  'setup.hotSeat': 'Gra na jednym urządzeniu: karty są zakryte, dopóki nie przekażesz urządzenia kolejnemu graczowi.',
+  'strategy.easy': 'Łatwy',
+  'strategy.normal': 'Normalny',
+  'strategy.hard': 'Trudny',
+  'strategy.expert': 'Ekspert',
+
+  // HOUSE RULES
+  'rules.title': 'Zasady domowe · {preset}',
+  'rules.custom': 'Własne',
+  'rules.deck': 'Talia',
+  'rules.playSizes': 'Liczba kart w zagraniu',
+  'rules.openingSizes': 'Liczba kart w otwarciu',
+  'rules.faceUpFourOfAKind': 'Cztery karty tej samej rangi kładzie się jawnie',
+  'rules.takeCount': 'Karty pobierane ze stołu',
+  'rules.penaltyCount': 'Karty karne za brak deklaracji',
+  'rules.grace': 'Czas na deklarację "Ostatnia Karta" (s)',
+  'rules.starter': 'Karta rozpoczynająca',
+  'rules.permanentStarter': 'Karta rozpoczynająca zostaje na stole do końca gry',
+  'rules.timeControl': 'Zegar',
+  'rules.timeLimitTurn': 'Czas na ruch (s)',
+  'rules.timeLimitChess': 'Czas na całą grę (s)',
+  'rules.timeoutAction': 'Gdy czas się skończy',
+  'rules.outOfRange': 'Wpisz liczbę od {min} do {max}',
+  'timeControl.off': 'Bez zegara',
+  'timeControl.turn': 'Czas na każdy ruch',
+  'timeControl.chess': 'Zegar szachowy',
+  'timeoutAction.take': 'Pobierz',
+  'timeoutAction.pass': 'Utrata tury',
+  'timeoutAction.lose': 'Przegrana',
+  'rulePreset.classic': 'Klasyczne',
+  'rulePreset.loose': 'Swobodne',
+  'rulePreset.merciless': 'Bez litości',
+  'rulePreset.plain-opening': 'Zwykłe otwarcie',
+
+  // MENU
+  'menu.continue': 'Kontynuuj grę',
+  'menu.start': 'Rozpocznij Grę',
+  'menu.practice': 'Gra treningowa: ruchy można cofać, a wynik nie trafia do statystyk',
+  'menu.tutorial': 'Samouczek',
+  'dealCode.label': 'Kod rozdania (opcjonalnie)',
+  'dealCode.placeholder': 'np. 2161-000QGLJ',
+  'dealCode.invalid': 'Nieprawidłowy kod rozdania',
+  'record.import': 'Wczytaj zapis gry',
+  'record.text': 'Zapis gry',
+  'record.file': 'Plik z zapisem gry',
+  'record.load': 'Wczytaj',
+  'record.errorLine': 'Wiersz {line}: {message}',
+
+  // HOW TO PLAY
+  'howTo.title': 'Jak Grać?',
+  'howTo.goal.title': 'Cel Gry',
+  'howTo.goal.text': 'Celem jest jak najszybsze pozbycie się wszystkich kart z ręki. Gracz, którego ręka staje się pusta, natychmiast wygrywa grę.',
+  'howTo.turn.title': 'Przebieg Tury',
+  'howTo.turn.deal': 'Przy stole siedzi od {min} do {max} graczy, karty rozdaje się po kolei całą talią ({deck}). Tury idą zgodnie z kolejnością miejsc.',
+  'howTo.turn.play': 'W swojej turze wykładasz na stos {counts} {max, plural, one {kartę} few {karty} many {kart} other {karty}}.',
+  'howTo.turn.declare': 'Kładąc karty, musisz głośno zadeklarować ich rangę (np. "trzy dziesiątki"). Zagrywane karty kładzie się zakryte.',
+  'howTo.faceUp.title': 'Jawne zagranie:',
+  'howTo.faceUp.text': 'Zagranie 4 kart tej samej rangi (np. 4 Króle) jest jawne. Tego zagrania nie można sprawdzić.',
+  'howTo.opening.title': 'Specjalne Otwarcie:',
+  'howTo.opening.text': 'Gracz z {starter} rozpoczyna grę, deklarując rangę {rank}: kładzie {counts} {max, plural, one {kartę} few {karty} many {kart} other {karty}}, w tym odkrytą {starter}, resztę zakrytą.',
+  'howTo.opening.challengeable': 'Otwarcie kilkoma kartami MOŻNA sprawdzić.',
+  'howTo.opening.permanent': '{starter} pozostaje na stole do końca gry.',
+  'howTo.turn.rank': 'Kolejny gracz musi zadeklarować rangę równą lub wyższą niż ostatnio deklarowana.',
+  'howTo.turn.take': 'Jeśli nie chcesz lub nie możesz zagrać, możesz pobrać do {count, plural, one {# ostatniej karty} other {# ostatnich kart}} ze stołu (jeśli są dostępne).',
+  'howTo.challenge.title': '"Sprawdzam!"',
+  'howTo.challenge.text': 'Zagranie może sprawdzić tylko następny gracz, zamiast wykładać własne karty. Jeśli blefował, zbiera on wszystkie karty ze stołu{permanent, select, yes { (poza {starter})} other {}}, a Ty widzisz co zagrał. Jeśli nie, Ty je zbierasz. Gracz, który zebrał karty, rozpoczyna następną turę.',
+  'howTo.lastCard.title': 'Ostatnia Karta i Kary',
+  'howTo.lastCard.call': 'Gdy zagrywasz karty, które pozostawią Cię z jedną kartą w ręku, musisz wcisnąć "Ostatnia Karta" przed ich położeniem.',
+  'howTo.lastCard.penalty': 'Jeśli tego nie zrobisz, po {seconds, number} s każdy z pozostałych graczy ma {window, number} s na zgłoszenie. Ty możesz się poprawić, a oni Cię ukarać: zbierasz wtedy do {count, plural, one {# ostatniej karty} other {# ostatnich kart}} ze stołu. Kto pierwszy, ten lepszy!',
+  'howTo.lastCard.final': 'Gdy zagrywasz ostatnią kartę, następny gracz ma prawo ją sprawdzić, zanim wygrasz grę!',
+  'howTo.clock.title': 'Zegar',
+  'howTo.clock.turn': 'Na każdy ruch masz {seconds, number} s.',
+  'howTo.clock.chess': 'Każdy gracz ma {seconds, number} s na całą grę, liczone tylko w jego turach. Gdy prawie się skończą, na każdy ruch nadal masz {minimum, number} s.',
+  'howTo.clock.timeout.take': 'Gdy czas się skończy, gra pobiera za Ciebie {count, plural, one {# kartę} few {# karty} many {# kart} other {# karty}} (lub oddaje turę, gdy nie ma czego pobrać), a ostatniego zagrania nie sprawdza.',
+  'howTo.clock.timeout.pass': 'Gdy czas się skończy, tracisz turę, a ostatniego zagrania nie sprawdzasz.',
+  'howTo.clock.timeout.lose': 'Gdy czas się skończy, przegrywasz grę.',
+  'howTo.clock.pause': 'Zegar stoi, dopóki trwa czas na deklarację "Ostatnia Karta".',
+  'howTo.keyboard.title': 'Klawiatura',
+  'howTo.keyboard.hand': 'Strzałki przesuwają po kartach w ręce, a Spacja lub Enter zaznacza kartę.',
+  'howTo.keyboard.actions': '{play} – Kładę, {challenge} – Sprawdzam, {take} – Pobierz, {lastCard} – Ostatnia Karta.',
+  'howTo.keyboard.undo': '{undo} – Cofnij ruch (w grze treningowej).',
+
+  // STATISTICS
+  'stats.title': 'Statystyki',
+  'stats.games': 'Gry',
+  'stats.winsDetail': 'Wygrane: {count} ({percent})',
+  'stats.bluffs': 'Blefy',
+  'stats.bluffShare': '{percent} zagrań do sprawdzenia',
+  'stats.bluffsCaught': 'Przyłapane: {count} ({percent})',
+  'stats.challenges': 'Sprawdzenia',
+  'stats.correctChallenges': 'Trafne: {count} ({percent})',
+  'stats.piles': 'Zebrane stosy',
+  'stats.pileSizes': 'Średnio {average, plural, one {# karta} few {# karty} many {# kart} other {# karty}}, największy: {largest}',
+  'stats.penaltiesSuffered': 'Otrzymane kary',
+  'stats.penaltiesSufferedDetail': 'Za brak deklaracji ostatniej karty',
+  'stats.penaltiesIssued': 'Zgłoszone kary',
+  'stats.penaltiesIssuedDetail': 'Brak deklaracji u przeciwnika',
+  'stats.practiceDetail': 'Gry treningowe (niewliczane): {count}',
+  'stats.opponent': 'Przeciwnik',
+  'stats.wins': 'Wygrane',
+  'stats.winRate': 'Skuteczność',
+  'stats.empty': 'Zagraj pierwszą grę, aby zobaczyć statystyki.',
+  'stats.downloadJson': 'Pobierz JSON',
+  'stats.downloadCsv': 'Pobierz CSV',
+  'stats.fileName': 'oszust-statystyki',
+  'stats.reset': 'Wyczyść',
+  'stats.confirmReset': 'Wyczyścić wszystkie statystyki?',
+
+  // NETWORK
+  'network.title': 'Gra sieciowa',
+  'network.serverUrl': 'Adres serwera',
+  'network.name': 'Twoje imię',
+  'network.newTable': 'Nowy stół',
+  'network.tableCode': 'Kod stołu',
+  'network.codePlaceholder': 'KOD',
+  'network.join': 'Dołącz',
+  'network.resume': 'Wróć do stołu {lobbyId}',
+  'network.host': 'gospodarz',
+  'network.disconnected': 'rozłączony',
+  'network.start': 'Rozpocznij grę',
+  'network.waitingForHost': 'Czekamy, aż gospodarz rozpocznie grę…',
+  'network.takingSeat': 'Zajmowanie miejsca…',
+  'network.connecting': 'Łączenie z serwerem…',
+  'network.disconnectedPlayers': 'Rozłączeni: {names}',
+  'network.leave': 'Opuść stół',
+  'serverError.BAD_MESSAGE': 'Serwer nie zrozumiał wiadomości.',
+  'serverError.LOBBY_NOT_FOUND': 'Nie ma stołu o takim kodzie.',
+  'serverError.LOBBY_FULL': 'Przy tym stole nie ma już wolnych miejsc.',
+  'serverError.GAME_IN_PROGRESS': 'Przy tym stole trwa już gra.',
+  'serverError.SESSION_NOT_FOUND': 'Twoje miejsce przy stole już nie istnieje.',
+  'serverError.NOT_SEATED': 'Nie siedzisz przy żadnym stole.',
+  'serverError.NOT_HOST': 'Tylko gospodarz stołu może rozpocząć grę.',
+  'serverError.NOT_ENOUGH_PLAYERS': 'Do gry potrzeba co najmniej {count, plural, one {# gracza} other {# graczy}}.',
+  'serverError.NO_GAME': 'Gra jeszcze się nie rozpoczęła.',
+  'serverError.ILLEGAL_MOVE': 'Ten ruch jest niedozwolony.',
+  'playRejection.NOT_YOUR_TURN': 'Teraz nie Twoja kolej.',
+  'playRejection.NO_CARDS': 'Zaznacz karty do zagrania.',
+  'playRejection.CARDS_NOT_IN_HAND': 'Nie masz tych kart w ręce.',
+  'playRejection.RANK_NOT_IN_DECK': 'Tej rangi nie ma w talii.',
+  'playRejection.PENALTY_PENDING': 'Poczekaj, aż rozstrzygnie się zgłoszenie ostatniej karty.',
+  'playRejection.OPENING_RANK': 'Otwarcie deklaruje się jako {rank}.',
+  'playRejection.OPENING_WITHOUT_STARTER': 'Otwarcie musi zawierać {starter}.',
+  'playRejection.OPENING_SIZE': 'Na otwarcie kładzie się {counts} {max, plural, one {kartę} few {karty} many {kart} other {karty}}.',
+  'playRejection.RANK_TOO_LOW': 'Ranga poniżej ostatniej deklaracji ({rank}).',
+  'playRejection.FOUR_OF_A_KIND_RANK': 'Czwórka idzie odkryta jako {rank}.',
+  'playRejection.PLAY_SIZE': 'Trzeba położyć {counts} {max, plural, one {kartę} few {karty} many {kart} other {karty}}.',
+
+  // TABLE
+  'hand.lastCard': 'OSTATNIA KARTA',
+  'hand.label': 'Karty: {name}',
+  'opponent.cardCount': '{count, plural, one {# karta} few {# karty} many {# kart} other {# karty}}',
+  'clock.label': 'Pozostały czas: {time}',
+  'hotkey.play': 'k',
+  'hotkey.challenge': 's',
+  'hotkey.take': 'p',
+  'hotkey.lastCard': 'o',
+  'hotkey.undo': 'c',
+  'declare.playedCards': 'Zagrywane Karty',
+  'declare.title': 'Zadeklaruj Rangę',
+  'table.take': 'Pobierz {count}',
+  'table.report': 'Zgłoś Brak Deklaracji!',
+  'table.declaration': 'DEKLARACJA:',
+  'table.pile': 'STOS',
+  'table.pileCount': '({count, plural, one {# KARTA} few {# KARTY} many {# KART} other {# KARTY}})',
+  'table.challenge': 'Sprawdzam',
+  'table.lastCard': 'Ostatnia Karta',
+  'table.play': 'Kładę',
+  'table.undo': 'Cofnij ruch',
+  'table.practice': 'Gra treningowa',
+  'table.matchGame': 'Mecz · gra {number}',
+  'bluff.revealed': 'Ujawniony Blef!',
+  'passDevice.title': 'Przekaż urządzenie',
+  'passDevice.reveal': 'Jestem {name} · Pokaż karty',
+  'penalty.correct': '{name}: Ostatnia Karta!',
+  'penalty.report': '{name}: Zgłaszam!',
+  'finalChallenge.title': 'Ostatnia Karta!',
+  'finalChallenge.question': '{name} zagrał ostatnią kartę. Sprawdzasz?',
+  'finalChallenge.challenge': 'Sprawdzam!',
+  'finalChallenge.concede': 'Poddaję się',
+  'gameOver.title': 'Koniec Gry!',
+  'gameOver.winner': 'Wygrywa {name}!',
+  'gameOver.playAgain': 'Zagraj Ponownie',
+  'gameOver.waitingForHost': 'Czekamy na gospodarza stołu…',
+  'match.format': 'Rozgrywka:',
+  'match.single': 'Pojedyncza gra',
+  'match.bestOf': 'Mecz do {games, number} gier',
+  'match.toPoints': 'Mecz na punkty',
+  'match.target': 'Do punktów:',
+  'match.rules': 'Zwycięzca gry dostaje punkt za każdą kartę w rękach przegranych. Kolejną grę otwiera gracz, któremu zostało najwięcej kart: to on dostaje kartę otwierającą.',
+  'match.title': 'Mecz',
+  'match.winner': 'Mecz wygrywa {name}!',
+  'match.goal.bestOf': 'Po {games, number} grach (lub wcześniej, gdy nikt nie może już dogonić lidera) wygrywa ten, kto ma najwięcej wygranych. Przy remisie decydują punkty, a potem to, kto ostatni wygrał grę.',
+  'match.goal.points': 'Wygrywa ten, kto pierwszy zdobędzie {target, number} pkt.',
+  'match.game': 'Gra',
+  'match.opener': 'Otwiera',
+  'match.gamePoints': 'Wygrana, +{points, number} pkt',
+  'match.cardsLeft': '{count, plural, one {# karta} few {# karty} many {# kart} other {# karty}}',
+  'match.total': 'Razem',
+  'match.totalDetail': '{wins, plural, one {# wygrana} few {# wygrane} many {# wygranych} other {# wygranej}}, {points, number} pkt',
+  'match.standing': '{name}: {wins, number} ({points, number} pkt)',
+  'match.summary': 'Podsumowanie meczu',
+  'match.nextGame': 'Następna gra',
+  'match.newMatch': 'Nowy mecz',
+  'match.menu': 'Menu',
+
+  // TUTORIAL
+  'tutorial.player': 'Ty',
+  'tutorial.tutor': 'Nauczyciel',
+  'tutorial.progress': 'Samouczek · krok {step} z {count}',
+  'tutorial.waiting': '{tutor} wykonuje ruch…',
+  'tutorial.wrongMove': 'To nie ten ruch. Zrób to, o co prosi samouczek.',
+  'tutorial.next': 'Dalej',
+  'tutorial.exit': 'Zakończ samouczek',
+  'tutorial.finish': 'Wróć do menu',
+  'tutorial.intro.title': 'Witaj przy stole!',
+  'tutorial.intro.text': 'Zagrasz krótką partię z Nauczycielem. Celem jest pozbycie się wszystkich kart. Każdy krok pokazuje jedną zasadę i czeka, aż wykonasz właściwy ruch.',
+  'tutorial.opening.title': 'Otwarcie',
+  'tutorial.opening.text': 'Grę zaczyna ten, kto ma kartę {starter}. Zaznacz ją w swojej ręce i naciśnij „Kładę”. Pojedyncza karta otwarcia leży odkryta i zostaje na stole do końca gry.',
+  'tutorial.take.title': 'Pobieranie kart',
+  'tutorial.take.text': 'Nauczyciel położył kartę zakrytą i powiedział, że to 9. Nie musisz kłaść kart: możesz zamiast tego wziąć ze stosu do {takeCount, plural, one {# karty} other {# kart}}. Naciśnij „Pobierz”.',
+  'tutorial.challenge.title': 'Sprawdzam!',
+  'tutorial.challenge.text': 'Teraz Nauczyciel twierdzi, że położył 10. Nie wierzysz mu? Naciśnij „Sprawdzam”. Jeśli to blef, kłamca zabiera cały stos, a jeśli nie, zabierasz go ty.',
+  'tutorial.fourOfAKind.title': 'Cztery jednakowe',
+  'tutorial.fourOfAKind.text': 'Masz cztery dziesiątki. Cztery karty tej samej rangi kładzie się odkryte i nikt nie może ich sprawdzić. Zaznacz wszystkie cztery i naciśnij „Kładę”.',
+  'tutorial.lastCard.title': 'Ostatnia Karta',
+  'tutorial.lastCard.text': 'Zostały ci dwie karty, a deklaracja musi być co najmniej tak wysoka jak poprzednia, więc {bluff} będzie blefem. To też część gry! Zaznacz {bluff}, naciśnij „Ostatnia Karta”, potem „Kładę” i wybierz rangę.',
+  'tutorial.penalty.title': 'Kara za brak zapowiedzi',
+  'tutorial.penalty.text': 'Nauczyciel został z jedną kartą i nie powiedział „Ostatnia Karta”. Za chwilę pojawi się przycisk zgłoszenia: naciśnij go, a Nauczyciel weźmie {penaltyCount, plural, one {# kartę karną} few {# karty karne} many {# kart karnych} other {# karty karnej}}.',
+  'tutorial.finalPlay.title': 'Ostatnie zagranie',
+  'tutorial.finalPlay.text': 'Została ci ostatnia karta, {last}. Połóż ją i powiedz prawdę. Przeciwnik może jeszcze sprawdzić ostatnie zagranie; jeśli było uczciwe, wygrywasz.',
+  'tutorial.done.title': 'Wygrana!',
+  'tutorial.done.text': 'Nauczyciel sprawdził twoją ostatnią kartę i przegrał. Znasz już wszystkie zasady, czas na prawdziwą grę.',
+
+  // ADVISOR
+  'advisor.title': 'Doradca',
+  'advisor.show': 'Pokaż doradcę',
+  'advisor.hide': 'Ukryj',
+  'advisor.claim': '{name}: {count}× „{rank}”',
+  'advisor.bluffChance': 'Szansa blefu: {percent}',
+  'advisor.noClaim': 'Na stole nie ma deklaracji do sprawdzenia.',
+  'advisor.advice.CHALLENGE': 'Rada: Sprawdzam!',
+  'advisor.advice.PLAY_HONEST': 'Rada: połóż uczciwie {count}× {rank}.',
+  'advisor.advice.BLUFF': 'Rada: zablefuj, deklarując {rank}.',
+  'advisor.advice.TAKE': 'Rada: pobierz karty ze stosu.',
+  'advisor.basis': 'Liczone tylko z tego, co wiesz: twoich kart, kart odkrytych i pokazanych przy sprawdzeniu oraz kart zebranych ze stosu.',
+
+  // GAME LOG
+  'log.title': 'Log Gry',
+  'log.dealCode': 'Kod rozdania:',
+  'log.downloadRecord': 'Pobierz zapis gry',
+  'log.filterType': 'Filtruj po typie',
+  'log.allEvents': 'Wszystkie zdarzenia',
+  'log.filterPlayer': 'Filtruj po graczu',
+  'log.allPlayers': 'Wszyscy gracze',
+  'eventType.GameStarted': 'Start gry',
+  'eventType.CardsPlayed': 'Zagrania',
+  'eventType.FinalPlayPending': 'Ostatnie zagranie',
+  'eventType.ChallengeResolved': 'Sprawdzenia',
+  'eventType.PileTaken': 'Pobrania',
+  'eventType.LastCardDeclared': 'Deklaracje ostatniej karty',
+  'eventType.LastCardMissed': 'Brak deklaracji',
+  'eventType.PenaltyWindowOpened': 'Okna kary',
+  'eventType.PenaltyApplied': 'Kary',
+  'eventType.PenaltyIgnored': 'Zignorowane kary',
+  'eventType.TimedOut': 'Koniec czasu',
+  'eventType.GameWon': 'Wygrane',
+  'event.gameStarted': 'Nowa Gra Rozpoczęta. Gracz {name} ma {starter} i rozpoczyna.',
+  'event.opening': '{name} rozpoczyna grę z {starter}.',
+  'event.cardsPlayed': '{name} zagrał {count}x jako "{rank}".',
+  'event.faceUpPlayed': '{name} jawnie zagrywa {count}x "{rank}".',
+  'event.finalPlayPending': '{name} zagrał ostatnią kartę! Czas na ostateczne sprawdzenie.',
+  'event.challengeCall': '{name} mówi "SPRAWDZAM!".',
+  'event.challengeBluff': 'To był blef! {challenged} zagrał: [{revealed}], a nie {count}x "{rank}". {taker} zabiera stos.',
+  'event.challengeHonest': 'To nie był blef. {taker} zabiera stos.',
+  'event.pileTaken': '{name} pobrał {count, plural, one {# kartę} few {# karty} many {# kart} other {# karty}} ze stosu.',
+  'event.lastCardDeclared': '{name} deklaruje: OSTATNIA KARTA!',
+  'event.lastCardLate': '{name} deklaruje ostatnią kartę {seconds, number} s po czasie, w porę, by uniknąć kary!',
+  'event.lastCardMissed': '{name} nie zadeklarował ostatniej karty. Można go będzie zgłosić za {seconds, number} s.',
+  'event.penaltyWindowOpened': 'Minął okres ochronny! Przez {seconds, number} s można zgłosić brak deklaracji gracza {name}!',
+  'event.penaltyApplied': '{reporter} zgłasza brak deklaracji po {seconds, number} s! {offender} bierze {count, plural, one {# kartę} few {# karty} many {# kart} other {# karty}} kary. Tura gracza {reporter}.',
+  'event.penaltyIgnored': 'Nikt nie zgłosił braku deklaracji przez {seconds, number} s. Gra toczy się dalej.',
+  'event.gameWon': 'Koniec gry! {name} pozbył się wszystkich kart i wygrywa!',
+  'event.gameConceded': '{conceder} nie sprawdza. Koniec gry! Wygrywa {name}!',
+  'event.gameLostOnTime': '{conceder} przegrywa na czas. Koniec gry! Wygrywa {name}!',
+  'event.timedOut': 'Koniec czasu gracza {name}!',
+
+  // GAME RECORDS
+  'recordField.player': 'gracz',
+  'recordField.seat': 'miejsce',
+  'recordField.seed': 'ziarno',
+  'recordField.cardCount': 'liczba kart',
+  'recordField.challenger': 'sprawdzający',
+  'recordField.challenged': 'sprawdzany',
+  'recordField.taker': 'zabierający',
+  'recordField.reporter': 'zgłaszający',
+  'recordField.offender': 'ukarany',
+  'recordField.elapsed': 'czas w ms',
+  'recordError.expectedNumber': 'oczekiwano liczby ({what}), jest "{token}"',
+  'recordError.unknownCard': 'nieznana karta "{token}"',
+  'recordError.noCards': 'brak kart',
+  'recordError.expectedFlag': 'oczekiwano "yes" lub "no" ({what}), jest "{token}"',
+  'recordError.expectedKeyValue': 'oczekiwano "klucz=wartość", jest "{token}"',
+  'recordError.unknownRule': 'nieznana zasada "{token}"',
+  'recordError.invalidRules': 'nieprawidłowe zasady: {errors}',
+  'recordError.invalidDeclaration': 'nieprawidłowa deklaracja "{token}"',
+  'recordError.expectedWord': 'oczekiwano "{word}", jest "{token}"',
+  'recordError.extraText': 'nadmiarowy tekst "{text}"',
+  'recordError.unknownFlag': 'nieznana flaga w "{flags}"',
+  'recordError.expectedOutcome': 'oczekiwano "bluff" lub "honest", jest "{token}"',
+  'recordError.unknownEntry': 'nieznany wpis "{keyword}"',
+  'recordError.missingHeader': 'zapis musi zaczynać się od "{header}"',
+  'recordError.oldVersion': 'zapisy "{old}" powstały przed wprowadzeniem limitu czasu na zgłoszenie ostatniej karty i nie dają się odtworzyć; obsługiwany jest "{header}"',
+  'recordError.headerAfterEvents': 'wpis "{keyword}" musi stać przed przebiegiem gry',
+  'recordError.expectedSeatType': 'oczekiwano "human" lub "ai", jest "{token}"',
+  'recordError.missingName': 'brak nazwy gracza',
+  'recordError.duplicateSeat': 'miejsce {id} podano dwa razy',
+  'recordError.unknownHandSeat': 'ręka dla nieznanego miejsca {id}',
+  'recordError.missingSeed': 'brak wpisu "seed"',
+  'recordError.missingStart': 'przebieg gry musi zaczynać się od "start"',
+  'recordError.invalidDeal': 'nieprawidłowe rozdanie: {reason}',
+  'recordError.incompleteDeal': 'nieprawidłowe rozdanie: ręce muszą zawierać całą talię, każdą kartę raz',
+  'recordError.cardNotInDeck': 'karty "{card}" nie ma w talii tej gry',
+  'recordError.illegalMove': 'ruch niezgodny z zasadami: "{event}"',
+  'recordError.expectedEvent': 'według zasad powinno być "{event}"',
+  'recordError.expectedEnd': 'według zasad powinien tu być koniec zapisu',
+  'recordError.missingEvent': 'brakuje wpisu "{event}"',
+};
+
+export type MessageKey = keyof typeof PL;
+
+const EN: { [key in MessageKey]: string } = {
+  // APP
+  'app.tagline': 'A Polish card game of bluffing',
+  'app.loading': 'Loading...',
+  'app.language': 'Language',
+  'sound.mute': 'Mute sounds',
+  'sound.unmute': 'Unmute sounds',
+  'sound.volume': 'Volume',
+  'common.cancel': 'Cancel',
+  'common.back': 'Back',
+
+  // CARDS
+  'suit.Pik': 'Spades',
+  'suit.Kier': 'Hearts',
+  'suit.Trefl': 'Clubs',
+  'suit.Karo': 'Diamonds',
+  'rank.2': '2',
+  'rank.3': '3',
+  'rank.4': '4',
+  'rank.5': '5',
+  'rank.6': '6',
+  'rank.7': '7',
+  'rank.8': '8',
+  'rank.9': '9',
+  'rank.10': '10',
+  'rank.J': 'J',
+  'rank.Q': 'Q',
+  'rank.K': 'K',
+  'rank.A': 'A',
+  'rankName.2': '2',
+  'rankName.3': '3',
+  'rankName.4': '4',
+  'rankName.5': '5',
+  'rankName.6': '6',
+  'rankName.7': '7',
+  'rankName.8': '8',
+  'rankName.9': '9',
+  'rankName.10': '10',
+  'rankName.J': 'Jack',
+  'rankName.Q': 'Queen',
+  'rankName.K': 'King',
+  'rankName.A': 'Ace',
+  'card.faceDown': 'Face-down card',
+  'card.name': '{rank} of {suit}',
+  'deck.short': '24 cards (9–A)',
+  'deck.classic': '28 cards (8–A)',
+  'deck.piquet': '32 cards (7–A)',
+  'deck.full': '52 cards (2–A)',
+  'deck.double': 'Two decks, 56 cards (8–A)',
+
+  // SEATS
+  'player.human': 'Player',
+  'player.ai': 'AI',
+  'player.seat': 'Player {id, number}',
+  'setup.playerCount': 'Players',
+  'setup.human': 'Human',
+  'setup.computer': 'Computer',
+  'setup.level': 'Level: {name}',
+  'setup.hotSeat': 'Playing on one device: cards stay hidden until you pass the device to the next player.',
+  'strategy.easy': 'Easy',
+  'strategy.normal': 'Normal',
+  'strategy.hard': 'Hard',
+  'strategy.expert': 'Expert',
+
+  // HOUSE RULES
+  'rules.title': 'House rules · {preset}',
+  'rules.custom': 'Custom',
+  'rules.deck': 'Deck',
+  'rules.playSizes': 'Cards in a play',
+  'rules.openingSizes': 'Cards in the opening',
+  'rules.faceUpFourOfAKind': 'Four cards of one rank are played face up',
+  'rules.takeCount': 'Cards taken from the pile',
+  'rules.penaltyCount': 'Penalty cards for a missed call',
+  'rules.grace': 'Time to call "Last Card" (s)',
+  'rules.starter': 'Starting card',
+  'rules.permanentStarter': 'The starting card stays on the table until the game ends',
+  'rules.timeControl': 'Clock',
+  'rules.timeLimitTurn': 'Time per move (s)',
+  'rules.timeLimitChess': 'Time for the whole game (s)',
+  'rules.timeoutAction': 'When time runs out',
+  'rules.outOfRange': 'Enter a number from {min} to {max}',
+  'timeControl.off': 'No clock',
+  'timeControl.turn': 'Time per move',
+  'timeControl.chess': 'Chess clock',
+  'timeoutAction.take': 'Take',
+  'timeoutAction.pass': 'Lose the turn',
+  'timeoutAction.lose': 'Lose the game',
+  'rulePreset.classic': 'Classic',
+  'rulePreset.loose': 'Relaxed',
+  'rulePreset.merciless': 'Merciless',
+  'rulePreset.plain-opening': 'Plain opening',
+
+  // MENU
+  'menu.continue': 'Continue game',
+  'menu.start': 'Start Game',
+  'menu.practice': 'Practice game: moves can be undone and the result stays out of the statistics',
+  'menu.tutorial': 'Tutorial',
+  'dealCode.label': 'Deal code (optional)',
+  'dealCode.placeholder': 'e.g. 2161-000QGLJ',
+  'dealCode.invalid': 'Invalid deal code',
+  'record.import': 'Load a game record',
+  'record.text': 'Game record',
+  'record.file': 'Game record file',
+  'record.load': 'Load',
+  'record.errorLine': 'Line {line}: {message}',
+
+  // HOW TO PLAY
+  'howTo.title': 'How to Play',
+  'howTo.goal.title': 'Goal',
+  'howTo.goal.text': 'Get rid of all the cards in your hand as fast as you can. The player whose hand becomes empty wins the game at once.',
+  'howTo.turn.title': 'Taking a Turn',
+  'howTo.turn.deal': '{min} to {max} players sit at the table, and the whole deck ({deck}) is dealt out one card at a time. Turns follow the seating order.',
+  'howTo.turn.play': 'On your turn you put {counts} {max, plural, one {card} other {cards}} on the pile.',
+  'howTo.turn.declare': 'As you play, you must announce their rank out loud (e.g. "three tens"). The cards are played face down.',
+  'howTo.faceUp.title': 'Face-up play:',
+  'howTo.faceUp.text': 'Playing 4 cards of the same rank (e.g. 4 Kings) is done face up. Such a play cannot be challenged.',
+  'howTo.opening.title': 'Special Opening:',
+  'howTo.opening.text': 'The player with the {starter} opens the game by declaring rank {rank}: they put down {counts} {max, plural, one {card} other {cards}}, the {starter} face up and the rest face down.',
+  'howTo.opening.challengeable': 'An opening of several cards CAN be challenged.',
+  'howTo.opening.permanent': 'The {starter} stays on the table until the game ends.',
+  'howTo.turn.rank': 'The next player must declare a rank equal to or higher than the last one declared.',
+  'howTo.turn.take': 'If you cannot or do not want to play, you can take up to the last {count, plural, one {card} other {# cards}} from the pile (if there are any).',
+  'howTo.challenge.title': '"Challenge!"',
+  'howTo.challenge.text': 'Only the next player can challenge a play, instead of playing their own cards. If it was a bluff, the player who made it collects every card on the table{permanent, select, yes { (except the {starter})} other {}} and you see what they played. If not, you collect them. Whoever collected the cards starts the next turn.',
+  'howTo.lastCard.title': 'Last Card and Penalties',
+  'howTo.lastCard.call': 'When you play cards that will leave you with one card in hand, you must press "Last Card" before playing them.',
+  'howTo.lastCard.penalty': 'If you do not, after {seconds, number} s every other player gets {window, number} s to report it. You can still correct yourself, or they can punish you: you then take up to the last {count, plural, one {card} other {# cards}} from the pile. First come, first served!',
+  'howTo.lastCard.final': 'When you play your last card, the next player may challenge it before you win the game!',
+  'howTo.clock.title': 'Clock',
+  'howTo.clock.turn': 'You have {seconds, number} s for every move.',
+  'howTo.clock.chess': 'Every player has {seconds, number} s for the whole game, counted only on their own turns. Once it is nearly spent, every move still gets {minimum, number} s.',
+  'howTo.clock.timeout.take': 'When your time runs out, the game takes {count, plural, one {# card} other {# cards}} for you (or passes the turn when there is nothing to take) and does not challenge a final play.',
+  'howTo.clock.timeout.pass': 'When your time runs out, you lose the turn and do not challenge a final play.',
+  'howTo.clock.timeout.lose': 'When your time runs out, you lose the game.',
+  'howTo.clock.pause': 'The clock stands still while the time to call "Last Card" runs.',
+  'howTo.keyboard.title': 'Keyboard',
+  'howTo.keyboard.hand': 'Arrow keys move through the cards in your hand; Space or Enter selects a card.',
+  'howTo.keyboard.actions': '{play} – Play, {challenge} – Challenge, {take} – Take, {lastCard} – Last Card.',
+  'howTo.keyboard.undo': '{undo} – Undo (in a practice game).',
+
+  // STATISTICS
+  'stats.title': 'Statistics',
+  'stats.games': 'Games',
+  'stats.winsDetail': 'Won: {count} ({percent})',
+  'stats.bluffs': 'Bluffs',
+  'stats.bluffShare': '{percent} of challengeable plays',
+  'stats.bluffsCaught': 'Caught: {count} ({percent})',
+  'stats.challenges': 'Challenges',
+  'stats.correctChallenges': 'Correct: {count} ({percent})',
+  'stats.piles': 'Piles collected',
+  'stats.pileSizes': '{average, plural, one {# card} other {# cards}} on average, largest: {largest}',
+  'stats.penaltiesSuffered': 'Penalties taken',
+  'stats.penaltiesSufferedDetail': 'For missing the last-card call',
+  'stats.penaltiesIssued': 'Penalties reported',
+  'stats.penaltiesIssuedDetail': 'Missed calls by opponents',
+  'stats.practiceDetail': 'Practice games (not counted): {count}',
+  'stats.opponent': 'Opponent',
+  'stats.wins': 'Wins',
+  'stats.winRate': 'Win rate',
+  'stats.empty': 'Play your first game to see your statistics.',
+  'stats.downloadJson': 'Download JSON',
+  'stats.downloadCsv': 'Download CSV',
+  'stats.fileName': 'oszust-statistics',
+  'stats.reset': 'Clear',
+  'stats.confirmReset': 'Clear all statistics?',
+
+  // NETWORK
+  'network.title': 'Network game',
+  'network.serverUrl': 'Server address',
+  'network.name': 'Your name',
+  'network.newTable': 'New table',
+  'network.tableCode': 'Table code',
+  'network.codePlaceholder': 'CODE',
+  'network.join': 'Join',
+  'network.resume': 'Back to table {lobbyId}',
+  'network.host': 'host',
+  'network.disconnected': 'disconnected',
+  'network.start': 'Start game',
+  'network.waitingForHost': 'Waiting for the host to start the game…',
+  'network.takingSeat': 'Taking a seat…',
+  'network.connecting': 'Connecting to the server…',
+  'network.disconnectedPlayers': 'Disconnected: {names}',
+  'network.leave': 'Leave table',
+  'serverError.BAD_MESSAGE': 'The server did not understand the message.',
+  'serverError.LOBBY_NOT_FOUND': 'There is no table with this code.',
+  'serverError.LOBBY_FULL': 'This table has no free seats left.',
+  'serverError.GAME_IN_PROGRESS': 'A game is already being played at this table.',
+  'serverError.SESSION_NOT_FOUND': 'Your seat at the table no longer exists.',
+  'serverError.NOT_SEATED': 'You are not seated at any table.',
+  'serverError.NOT_HOST': 'Only the host of the table can start the game.',
+  'serverError.NOT_ENOUGH_PLAYERS': 'The game needs at least {count, plural, one {# player} other {# players}}.',
+  'serverError.NO_GAME': 'The game has not started yet.',
+  'serverError.ILLEGAL_MOVE': 'This move is not allowed.',
+  'playRejection.NOT_YOUR_TURN': 'It is not your turn.',
+  'playRejection.NO_CARDS': 'Select the cards to play.',
+  'playRejection.CARDS_NOT_IN_HAND': 'You do not hold these cards.',
+  'playRejection.RANK_NOT_IN_DECK': 'This rank is not in the deck.',
+  'playRejection.PENALTY_PENDING': 'Wait until the missed last-card call is settled.',
+  'playRejection.OPENING_RANK': 'The opening is declared as {rank}.',
+  'playRejection.OPENING_WITHOUT_STARTER': 'The opening must include the {starter}.',
+  'playRejection.OPENING_SIZE': 'The opening must be {counts} {max, plural, one {card} other {cards}}.',
+  'playRejection.RANK_TOO_LOW': 'Rank below the last declaration ({rank}).',
+  'playRejection.FOUR_OF_A_KIND_RANK': 'A four of a kind is played face up as {rank}.',
+  'playRejection.PLAY_SIZE': 'You must play {counts} {max, plural, one {card} other {cards}}.',
+
+  // TABLE
+  'hand.lastCard': 'LAST CARD',
+  'hand.label': 'Cards: {name}',
+  'opponent.cardCount': '{count, plural, one {# card} other {# cards}}',
+  'clock.label': 'Time left: {time}',
+  'hotkey.play': 'p',
+  'hotkey.challenge': 'c',
+  'hotkey.take': 't',
+  'hotkey.lastCard': 'l',
+  'hotkey.undo': 'u',
+  'declare.playedCards': 'Cards Played',
+  'declare.title': 'Declare a Rank',
+  'table.take': 'Take {count}',
+  'table.report': 'Report Missed Call!',
+  'table.declaration': 'DECLARED:',
+  'table.pile': 'PILE',
+  'table.pileCount': '({count, plural, one {# CARD} other {# CARDS}})',
+  'table.challenge': 'Challenge',
+  'table.lastCard': 'Last Card',
+  'table.play': 'Play',
+  'table.undo': 'Undo',
+  'table.practice': 'Practice game',
+  'table.matchGame': 'Match · game {number}',
+  'bluff.revealed': 'Bluff Revealed!',
+  'passDevice.title': 'Pass the device to',
+  'passDevice.reveal': 'I am {name} · Show my cards',
+  'penalty.correct': '{name}: Last Card!',
+  'penalty.report': '{name}: Report!',
+  'finalChallenge.title': 'Last Card!',
+  'finalChallenge.question': '{name} played their last card. Will you challenge?',
+  'finalChallenge.challenge': 'Challenge!',
+  'finalChallenge.concede': 'I give up',
+  'gameOver.title': 'Game Over!',
+  'gameOver.winner': '{name} wins!',
+  'gameOver.playAgain': 'Play Again',
+  'gameOver.waitingForHost': 'Waiting for the host of the table…',
+  'match.format': 'Play:',
+  'match.single': 'Single game',
+  'match.bestOf': 'Best of {games, number}',
+  'match.toPoints': 'Match to points',
+  'match.target': 'Points to win:',
+  'match.rules': 'The winner of a game scores a point for every card left in the losing hands. The player left with the most cards opens the next game and is dealt the starter card.',
+  'match.title': 'Match',
+  'match.winner': '{name} wins the match!',
+  'match.goal.bestOf': 'After {games, number} games (or sooner, once nobody can catch the leader) the most wins take the match. Ties go to points, then to whoever won a game last.',
+  'match.goal.points': 'The first to {target, number} points takes the match.',
+  'match.game': 'Game',
+  'match.opener': 'Opened by',
+  'match.gamePoints': 'Won, +{points, number} pts',
+  'match.cardsLeft': '{count, plural, one {# card} other {# cards}}',
+  'match.total': 'Total',
+  'match.totalDetail': '{wins, plural, one {# win} other {# wins}}, {points, number} pts',
+  'match.standing': '{name}: {wins, number} ({points, number} pts)',
+  'match.summary': 'Match summary',
+  'match.nextGame': 'Next game',
+  'match.newMatch': 'New match',
+  'match.menu': 'Menu',
+
+  // TUTORIAL
+  'tutorial.player': 'You',
+  'tutorial.tutor': 'Teacher',
+  'tutorial.progress': 'Tutorial · step {step} of {count}',
+  'tutorial.waiting': '{tutor} is moving…',
+  'tutorial.wrongMove': 'Not that move. Do what the tutorial asks.',
+  'tutorial.next': 'Next',
+  'tutorial.exit': 'End tutorial',
+  'tutorial.finish': 'Back to menu',
+  'tutorial.intro.title': 'Welcome to the table!',
+  'tutorial.intro.text': 'You will play a short game against the Teacher. The goal is to get rid of all your cards. Each step shows one rule and waits until you make the right move.',
+  'tutorial.opening.title': 'Opening',
+  'tutorial.opening.text': 'Whoever holds the {starter} starts. Select it in your hand and press "Play". A single opening card lies face up and stays on the table until the game ends.',
+  'tutorial.take.title': 'Taking cards',
+  'tutorial.take.text': 'The Teacher played a face-down card and said it is a 9. You do not have to play: you can take up to {takeCount, plural, one {# card} other {# cards}} from the pile instead. Press "Take".',
+  'tutorial.challenge.title': 'Challenge!',
+  'tutorial.challenge.text': 'Now the Teacher claims to have played a 10. Don\'t believe it? Press "Challenge". If it was a bluff, the liar takes the whole pile; if not, you do.',
+  'tutorial.fourOfAKind.title': 'Four of a kind',
+  'tutorial.fourOfAKind.text': 'You hold four tens. Four cards of one rank are played face up and nobody can challenge them. Select all four and press "Play".',
+  'tutorial.lastCard.title': 'Last Card',
+  'tutorial.lastCard.text': 'You have two cards left, and a declaration must be at least as high as the one before, so the {bluff} will be a bluff. That is part of the game too! Select the {bluff}, press "Last Card", then "Play" and choose a rank.',
+  'tutorial.penalty.title': 'Penalty for a missed call',
+  'tutorial.penalty.text': 'The Teacher is down to one card and did not say "Last Card". In a moment a report button appears: press it and the Teacher takes {penaltyCount, plural, one {# penalty card} other {# penalty cards}}.',
+  'tutorial.finalPlay.title': 'The final play',
+  'tutorial.finalPlay.text': 'Your last card is the {last}. Play it and tell the truth. The opponent may still challenge the final play; if it was honest, you win.',
+  'tutorial.done.title': 'You won!',
+  'tutorial.done.text': 'The Teacher challenged your last card and lost. You know all the rules now: time for a real game.',
+
+  // ADVISOR
+  'advisor.title': 'Advisor',
+  'advisor.show': 'Show advisor',
+  'advisor.hide': 'Hide',
+  'advisor.claim': '{name}: {count}× "{rank}"',
+  'advisor.bluffChance': 'Chance of a bluff: {percent}',
+  'advisor.noClaim': 'There is no claim on the table to check.',
+  'advisor.advice.CHALLENGE': 'Advice: Challenge!',
+  'advisor.advice.PLAY_HONEST': 'Advice: play {count}× {rank} honestly.',
+  'advisor.advice.BLUFF': 'Advice: bluff, declaring {rank}.',
+  'advisor.advice.TAKE': 'Advice: take cards from the pile.',
+  'advisor.basis': 'Based only on what you know: your cards, cards played face up or shown by a challenge, and cards you took from the pile.',
+
+  // GAME LOG
+  'log.title': 'Game Log',
+  'log.dealCode': 'Deal code:',
+  'log.downloadRecord': 'Download game record',
+  'log.filterType': 'Filter by type',
+  'log.allEvents': 'All events',
+  'log.filterPlayer': 'Filter by player',
+  'log.allPlayers': 'All players',
+  'eventType.GameStarted': 'Game start',
+  'eventType.CardsPlayed': 'Plays',
+  'eventType.FinalPlayPending': 'Final plays',
+  'eventType.ChallengeResolved': 'Challenges',
+  'eventType.PileTaken': 'Takes',
+  'eventType.LastCardDeclared': 'Last-card calls',
+  'eventType.LastCardMissed': 'Missed calls',
+  'eventType.PenaltyWindowOpened': 'Penalty chances',
+  'eventType.PenaltyApplied': 'Penalties',
+  'eventType.PenaltyIgnored': 'Ignored penalties',
+  'eventType.TimedOut': 'Timeouts',
+  'eventType.GameWon': 'Wins',
+  'event.gameStarted': 'New game started. {name} has the {starter} and goes first.',
+  'event.opening': '{name} opens the game with the {starter}.',
+  'event.cardsPlayed': '{name} played {count}x as "{rank}".',
+  'event.faceUpPlayed': '{name} plays {count}x "{rank}" face up.',
+  'event.finalPlayPending': '{name} played their last card! Time for the final check.',
+  'event.challengeCall': '{name} says "CHALLENGE!".',
+  'event.challengeBluff': 'It was a bluff! {challenged} played [{revealed}], not {count}x "{rank}". {taker} takes the pile.',
+  'event.challengeHonest': 'It was not a bluff. {taker} takes the pile.',
+  'event.pileTaken': '{name} took {count, plural, one {# card} other {# cards}} from the pile.',
+  'event.lastCardDeclared': '{name} calls: LAST CARD!',
+  'event.lastCardLate': '{name} calls their last card {seconds, number} s late, just in time to avoid a penalty!',
+  'event.lastCardMissed': '{name} did not call their last card. They can be reported in {seconds, number} s.',
+  'event.penaltyWindowOpened': 'The grace period is over! For {seconds, number} s, {name} can be reported for the missed call!',
+  'event.penaltyApplied': '{reporter} reports the missed call after {seconds, number} s! {offender} takes {count, plural, one {# penalty card} other {# penalty cards}}. {reporter} plays next.',
+  'event.penaltyIgnored': 'Nobody reported the missed call within {seconds, number} s. Play goes on.',
+  'event.gameWon': 'Game over! {name} got rid of every card and wins!',
+  'event.gameConceded': '{conceder} does not challenge. Game over! {name} wins!',
+  'event.gameLostOnTime': '{conceder} loses on time. Game over! {name} wins!',
+  'event.timedOut': '{name} ran out of time!',
+
+  // GAME RECORDS
+  'recordField.player': 'player',
+  'recordField.seat': 'seat',
+  'recordField.seed': 'seed',
+  'recordField.cardCount': 'card count',
+  'recordField.challenger': 'challenger',
+  'recordField.challenged': 'challenged player',
+  'recordField.taker': 'taker',
+  'recordField.reporter': 'reporter',
+  'recordField.offender': 'offender',
+  'recordField.elapsed': 'time in ms',
+  'recordError.expectedNumber': 'expected a number ({what}), got "{token}"',
+  'recordError.unknownCard': 'unknown card "{token}"',
+  'recordError.noCards': 'no cards',
+  'recordError.expectedFlag': 'expected "yes" or "no" ({what}), got "{token}"',
+  'recordError.expectedKeyValue': 'expected "key=value", got "{token}"',
+  'recordError.unknownRule': 'unknown rule "{token}"',
+  'recordError.invalidRules': 'invalid rules: {errors}',
+  'recordError.invalidDeclaration': 'invalid declaration "{token}"',
+  'recordError.expectedWord': 'expected "{word}", got "{token}"',
+  'recordError.extraText': 'unexpected text "{text}"',
+  'recordError.unknownFlag': 'unknown flag in "{flags}"',
+  'recordError.expectedOutcome': 'expected "bluff" or "honest", got "{token}"',
+  'recordError.unknownEntry': 'unknown entry "{keyword}"',
+  'recordError.missingHeader': 'the record must start with "{header}"',
+  'recordError.oldVersion': '"{old}" records predate the timed last-card window and cannot be replayed; "{header}" is supported',
+  'recordError.headerAfterEvents': 'the "{keyword}" entry must come before the game moves',
+  'recordError.expectedSeatType': 'expected "human" or "ai", got "{token}"',
+  'recordError.missingName': 'missing player name',
+  'recordError.duplicateSeat': 'seat {id} is listed twice',
+  'recordError.unknownHandSeat': 'hand for unknown seat {id}',
+  'recordError.missingSeed': 'missing "seed" entry',
+  'recordError.missingStart': 'the game moves must start with "start"',
+  'recordError.invalidDeal': 'invalid deal: {reason}',
+  'recordError.incompleteDeal': 'invalid deal: the hands must hold the whole deck, every card once',
+  'recordError.cardNotInDeck': 'the card "{card}" is not in this game\'s deck',
+  'recordError.illegalMove': 'move breaks the rules: "{event}"',
+  'recordError.expectedEvent': 'by the rules this should be "{event}"',
+  'recordError.expectedEnd': 'by the rules the record should end here',
+  'recordError.missingEvent': 'missing entry "{event}"',
+};
+
+const CATALOGS: { [key in Locale]: { [key in MessageKey]: string } } = { pl: PL, en: EN };
+
+export type MessageValues = { [name: string]: string | number };
+
+export type Translator = (key: MessageKey, values?: MessageValues) => string;
+
+export const isLocale = (value: unknown): value is Locale => typeof value === 'string' && value in CATALOGS;
+
+export const isMessageKey = (key: string): key is MessageKey => key in PL;
+
+// FORMATTING
+// Index of the "}" closing the "{" at `open`.
+const findClosingBrace = (message: string, open: number): number => {
+  let depth = 0;
+  for (let i = open; i < message.length; i++) {
+    if (message[i] === '{') depth++;
+    if (message[i] === '}' && --depth === 0) return i;
+  }
+  throw new Error(`Unbalanced braces in message "${message}"`);
+};
+
+// "one {...} few {...} other {...}" -> { one: '...', few: '...', other: '...' }
+const parseOptions = (body: string): { [selector: string]: string } => {
+  const options: { [selector: string]: string } = {};
+  let index = 0;
+  while (body.slice(index).trim()) {
+    const open = body.indexOf('{', index);
+    if (open === -1) throw new Error(`Option without a message in "${body}"`);
+    const close = findClosingBrace(body, open);
+    options[body.slice(index, open).trim()] = body.slice(open + 1, close);
+    index = close + 1;
+  }
+  return options;
+};
+
+const formatArgument = (locale: Locale, argument: string, values: MessageValues): string => {
+  const [name, type, ...rest] = argument.split(',');
+  const value = values[name.trim()];
+  if (value === undefined) throw new Error(`Missing value "${name.trim()}" for message argument "{${argument}}"`);
+
+  switch (type?.trim()) {
+    case undefined:
+      return String(value);
+    case 'number':
+      return new Intl.NumberFormat(locale).format(Number(value));
+    case 'plural': {
+      const options = parseOptions(rest.join(','));
+      const count = Number(value);
+      const option = options[`=${count}`] ?? options[new Intl.PluralRules(locale).select(count)] ?? options.other;
+      if (option === undefined) throw new Error(`No plural form for ${count} in "{${argument}}"`);
+      return formatMessage(locale, option.replace(/#/g, new Intl.NumberFormat(locale).format(count)), values);
+    }
+    case 'select': {
+      const options = parseOptions(rest.join(','));
+      const option = options[String(value)] ?? options.other;
+      if (option === undefined) throw new Error(`No option for "${value}" in "{${argument}}"`);
+      return formatMessage(locale, option, values);
+    }
+    default:
+      throw new Error(`Unknown argument type "${type.trim()}" in "{${argument}}"`);
+  }
+};
+
+export const formatMessage = (locale: Locale, message: string, values: MessageValues = {}): string => {
+  let result = '';
+  let index = 0;
+  while (index < message.length) {
+    const open = message.indexOf('{', index);
+    if (open === -1) return result + message.slice(index);
+    const close = findClosingBrace(message, open);
+    result += message.slice(index, open) + formatArgument(locale, message.slice(open + 1, close), values);
+    index = close + 1;
+  }
+  return result;
+};
+
+export const createTranslator = (locale: Locale): Translator =>
+  (key, values) => formatMessage(locale, CATALOGS[locale][key], values);
+
+// "1, 3 lub 4" / "1, 3, or 4"
+export const formatList = (locale: Locale, items: (string | number)[]): string =>
+  new Intl.ListFormat(locale, { type: 'disjunction' }).format(items.map(String));
+
+// CARDS
+export const formatRank = (t: Translator, rank: Rank): string => t(`rank.${rank}`);
+
+// The full name, e.g. "Dama" where formatRank gives "D".
+export const formatRankName = (t: Translator, rank: Rank): string => t(`rankName.${rank}`);
+
+export const formatSuit = (t: Translator, suit: Suit): string => t(`suit.${suit}`);
+
+// Card ids are "<rank>-<suit>", with a copy number after a second "-" in a double deck.
+export const formatCardName = (t: Translator, cardId: string): string => {
+  const [rank, suit] = cardId.split('-') as [Rank, Suit];
+  return t('card.name', { rank: formatRankName(t, rank), suit: formatSuit(t, suit) });
+};
@@ -0,0 +1,260 @@
+import { Card, GameAction, GameState, Player, Rank } from './types';
+import { RANK_ORDER } from './constants';
+import { AiPlay, AiMove, AiView, CardKnowledge, getHonestOpening, trackCards } from './ai';
+import { getCopiesPerRank, getDeckRanks, getHonestPlaySizes, getStarterRank } from './rules';
+import { createDeck, reduce, getCurrentPlayer, getPlayer, canChallenge, canTake, getMinRankOrder, shuffleDeck } from './engine';
+import { RandomSource } from './random';
+
+// Information-set Monte Carlo search for the expert bot. Each iteration deals
+// the unseen cards into a full game consistent with everything the seat has
+// observed (a determinization), picks one of the seat's candidate moves by UCB1
+// and plays the game out with a quick policy that only looks at each player's
+// own hand. Statistics are shared across determinizations, so the chosen move is
+// the one that does best over the whole information set, not one guessed deal.
+
+export interface SearchBudget {
+  timeMs: number;
+  maxIterations: number;
+}
+
+// How often a face-down claim is assumed honest when dealing the unseen cards.
+const HONEST_CLAIM_PRIOR = 0.6;
+const EXPLORATION = 0.7;
+const ROLLOUT_STEP_LIMIT = 400;
+
+const now = (): number => (typeof performance !== 'undefined' ? performance.now() : Date.now());
+
+// CANDIDATE MOVES
+const groupByRank = (hand: Card[]): Card[][] => {
+  const groups: { [key in Rank]?: Card[] } = {};
+  hand.forEach(card => {
+    if (!groups[card.rank]) groups[card.rank] = [];
+    groups[card.rank]!.push(card);
+  });
+  return Object.values(groups).sort((a, b) => RANK_ORDER[a[0].rank] - RANK_ORDER[b[0].rank]);
+};
+
+const toPlay = (view: AiView, cards: Card[], declaredRank: Rank): AiPlay => ({
+  type: 'PLAY', cards, declaredRank, declaresLastCard: view.hand.length - cards.length === 1,
+});
+
+// The cards the seat would miss least: from the smallest groups, lowest ranks first.
+const cheapestCards = (hand: Card[], count: number, exclude: Card[] = []): Card[] =>
+  groupByRank(hand.filter(card => !exclude.includes(card)))
+    .sort((a, b) => a.length - b.length)
+    .flat()
+    .slice(0, count);
+
+export const getOpeningCandidates = (view: AiView): AiPlay[] => {
+  const starter = view.hand.find(c => c.id === view.rules.starterCardId);
+  if (!starter) return [];
+  const rank = getStarterRank(view.rules);
+  const sameRank = view.hand.filter(c => c.rank === rank && c.id !== starter.id);
+  const candidates: AiPlay[] = [];
+  view.rules.openingSizes.forEach(size => {
+    const extra = size - 1;
+    if (sameRank.length >= extra) candidates.push(toPlay(view, [starter, ...sameRank.slice(0, extra)], rank));
+    if (extra === 0) return;
+    const filler = cheapestCards(view.hand.filter(c => c.rank !== rank), extra);
+    if (filler.length === extra) candidates.push(toPlay(view, [starter, ...filler], rank));
+  });
+  return candidates;
+};
+
+// Claims are searched only up to this many ranks above the minimum; higher
+// claims just raise the bar for everyone and are rarely worth the iterations.
+const BLUFF_RANK_SPAN = 3;
+
+export const getMoveCandidates = (view: AiView): AiMove[] => {
+  const candidates: AiMove[] = [];
+  if (view.canChallenge) candidates.push({ type: 'CHALLENGE' });
+  if (view.canTake) candidates.push({ type: 'TAKE' });
+
+  const groups = groupByRank(view.hand);
+  const honestSizes = getHonestPlaySizes(view.rules);
+  groups.filter(group => RANK_ORDER[group[0].rank] >= view.minRankOrder).forEach(group => {
+    honestSizes.filter(size => group.length >= size).forEach(size => candidates.push(toPlay(view, group.slice(0, size), group[0].rank)));
+  });
+
+  const bluffRanks = getDeckRanks(view.rules).filter(rank => RANK_ORDER[rank] >= view.minRankOrder).slice(0, BLUFF_RANK_SPAN);
+  bluffRanks.forEach(declared => {
+    // Single-card bluffs with one of the two cheapest cards.
+    cheapestCards(view.hand.filter(c => c.rank !== declared), 2).forEach(card => candidates.push(toPlay(view, [card], declared)));
+
+    // Larger bluffs: the held copies padded with one spare card, or spare cards only.
+    view.rules.playSizes.filter(size => size > 1).forEach(size => {
+      const held = groups.find(g => g[0].rank === declared && g.length === size - 1);
+      if (held) {
+        const [spare] = cheapestCards(view.hand, 1, held);
+        if (spare) candidates.push(toPlay(view, [...held, spare], declared));
+      }
+      const spares = cheapestCards(view.hand.filter(c => c.rank !== declared), size);
+      if (spares.length === size) candidates.push(toPlay(view, spares, declared));
+    });
+  });
+
+  return candidates;
+};
+
+// DETERMINIZATION
+// Whether the last claim's cards still lie on top of the pile, i.e. nobody took
+// from the pile after they were played.
+const isLastPlayOnPile = (view: AiView): boolean => {
+  for (let i = view.events.length - 1; i >= 0; i--) {
+    const event = view.events[i];
+    if (event.type === 'CardsPlayed') return true;
+    if (event.type === 'PileTaken' && event.count > 0) return false;
+    if (event.type === 'PenaltyApplied' && event.count > 0) return false;
+  }
+  return false;
+};
+
+export const determinize = (view: AiView, knowledge: CardKnowledge, random: RandomSource): GameState | null => {
+  const unseen = shuffleDeck(createDeck(view.rules.deck).filter(card => !knowledge.known[card.id]), random);
+  const draw = (predicate: (card: Card) => boolean = () => true): Card | undefined => {
+    const index = unseen.findIndex(predicate);
+    return index === -1 ? undefined : unseen.splice(index, 1)[0];
+  };
+
+  // Face-down cards of a pending claim lean towards matching it.
+  const claim = view.finalPlay ?? view.lastPlay;
+  const claimStart = claim && isLastPlayOnPile(view) ? knowledge.pile.length - claim.declaredCount : knowledge.pile.length;
+  const pile = knowledge.pile.map((card, index) => {
+    if (card) return card;
+    if (claim && index >= claimStart && random() < HONEST_CLAIM_PRIOR) {
+      const matching = draw(c => c.rank === claim.declaredRank);
+      if (matching) return matching;
+    }
+    return draw();
+  });
+
+  const players: Player[] = view.players.map(p => {
+    if (p.id === view.seatId) return { id: p.id, name: p.name, isHuman: false, hand: view.hand };
+    const knownHand = Object.values(knowledge.known).filter(k => k.location === p.id).map(k => k.card);
+    const dealt = Array.from({ length: p.cardCount - knownHand.length }, () => draw());
+    return { id: p.id, name: p.name, isHuman: false, hand: [...knownHand, ...dealt] as Card[] };
+  });
+
+  // Observations and counts disagree; better not to search on a made-up table.
+  if (unseen.length > 0 || pile.some(card => !card) || players.some(p => p.hand.some(card => !card))) return null;
+
+  const onPile = isLastPlayOnPile(view);
+  const withCards = (play: AiView['lastPlay']) => play && {
+    ...play,
+    isChallengeable: play.isChallengeable && onPile,
+    actualCards: onPile ? (pile.slice(pile.length - play.declaredCount) as Card[]) : [],
+  };
+
+  return {
+    seed: 0,
+    rules: view.rules,
+    players,
+    currentPlayerIndex: players.findIndex(p => p.id === view.currentPlayerId),
+    discardPile: pile as Card[],
+    lastPlay: withCards(view.lastPlay),
+    finalPlay: withCards(view.finalPlay),
+    isOpeningMoveAvailable: view.isOpeningMoveAvailable,
+    lastCardDeclarerId: view.lastCardDeclarerId,
+    penalty: view.penalty,
+    winnerId: null,
+    events: [],
+  };
+};
+
+// ROLLOUT POLICY
+// A quick player that only uses its own hand and the public claim.
+const rolloutAction = (state: GameState, random: RandomSource): GameAction => {
+  if (state.penalty) {
+    const { id: windowId, offenderId } = state.penalty;
+    if (!state.penalty.isOpen) return { type: 'OPEN_PENALTY_WINDOW', windowId };
+    const others = state.players.filter(p => p.id !== offenderId);
+    // Rollouts keep no time: every claim counts as made when the window opens.
+    const elapsedMs = state.rules.lastCardGraceMs;
+    return random() < 0.5
+      ? { type: 'DECLARE_LAST_CARD', playerId: offenderId, windowId, elapsedMs }
+      : { type: 'REPORT_PENALTY', playerId: others[Math.floor(random() * others.length)].id, windowId, elapsedMs };
+  }
+
+  const player = getCurrentPlayer(state);
+  if (state.finalPlay) return { type: 'CHALLENGE', playerId: player.id };
+
+  if (state.isOpeningMoveAvailable) {
+    const { rules } = state;
+    const starterRank = getStarterRank(rules);
+    const cards = getHonestOpening(player.hand, rules) ?? [
+      player.hand.find(c => c.id === rules.starterCardId)!,
+      ...cheapestCards(player.hand.filter(c => c.rank !== starterRank), Math.min(...rules.openingSizes) - 1),
+    ];
+    return { type: 'PLAY', playerId: player.id, cards, declaredRank: starterRank, declaresLastCard: random() < 0.85 };
+  }
+
+  const claim = state.lastPlay;
+  if (claim && canChallenge(state, player.id)) {
+    const ownCopies = player.hand.filter(c => c.rank === claim.declaredRank).length;
+    const claimant = getPlayer(state, claim.playerId)!;
+    const chance = ownCopies + claim.declaredCount > getCopiesPerRank(state.rules) ? 1 : (claim.declaredCount === 3 ? 0.4 : 0.15) + (claimant.hand.length <= 3 ? 0.2 : 0);
+    if (random() < chance) return { type: 'CHALLENGE', playerId: player.id };
+  }
+
+  const minRankOrder = getMinRankOrder(state);
+  const honest = groupByRank(player.hand).find(group => RANK_ORDER[group[0].rank] >= minRankOrder);
+  if (honest) {
+    const size = getHonestPlaySizes(state.rules).find(s => honest.length >= s) ?? 1;
+    const cards = honest.slice(0, size);
+    return { type: 'PLAY', playerId: player.id, cards, declaredRank: honest[0].rank, declaresLastCard: random() < 0.85 };
+  }
+  if (canTake(state, player.id) && random() < 0.3) return { type: 'TAKE', playerId: player.id };
+
+  const ranks = getDeckRanks(state.rules);
+  const declaredRank = ranks.find(rank => RANK_ORDER[rank] >= minRankOrder) ?? ranks[ranks.length - 1];
+  return { type: 'PLAY', playerId: player.id, cards: cheapestCards(player.hand, 1), declaredRank, declaresLastCard: random() < 0.85 };
+};
+
+// 1 for a win; a game cut short scores by how close the seat came to emptying its hand.
+const playOut = (state: GameState, seatId: number, random: RandomSource): number => {
+  let current = state;
+  for (let step = 0; step < ROLLOUT_STEP_LIMIT && current.winnerId === null; step++) {
+    const next = reduce(current, rolloutAction(current, random));
+    if (next === current) break;
+    current = next;
+  }
+  if (current.winnerId !== null) return current.winnerId === seatId ? 1 : 0;
+  const ownCount = getPlayer(current, seatId)!.hand.length;
+  const fewest = Math.min(...current.players.map(p => p.hand.length));
+  return ownCount === fewest ? 0.5 : 0;
+};
+
+const toAction = (move: AiMove, seatId: number): GameAction =>
+  move.type === 'PLAY'
+    ? { type: 'PLAY', playerId: seatId, cards: move.cards, declaredRank: move.declaredRank, declaresLastCard: move.declaresLastCard }
+    : { type: move.type, playerId: seatId };
+
+// SEARCH
+// Throws without candidates: there is nothing to choose from, and the caller decides another way.
+export const searchMove = <T extends AiMove>(view: AiView, candidates: T[], random: RandomSource, budget: SearchBudget): T => {
+  if (candidates.length === 0) throw new Error(`No candidate moves for seat ${view.seatId}`);
+  if (candidates.length === 1) return candidates[0];
+
+  const knowledge = trackCards(view);
+  const visits = candidates.map(() => 0);
+  const rewards = candidates.map(() => 0);
+  const deadline = now() + budget.timeMs;
+
+  for (let iteration = 0; iteration < budget.maxIterations && now() < deadline; iteration++) {
+    const state = determinize(view, knowledge, random);
+    if (!state) break;
+
+    const total = visits.reduce((sum, n) => sum + n, 0);
+    const scoreOf = (index: number) => (visits[index] === 0
+      ? Infinity
+      : rewards[index] / visits[index] + EXPLORATION * Math.sqrt(Math.log(total) / visits[index]));
+    const chosen = candidates.reduce((best, _, index) => (scoreOf(index) > scoreOf(best) ? index : best), 0);
+
+    const next = reduce(state, toAction(candidates[chosen], view.seatId));
+    visits[chosen]++;
+    rewards[chosen] += next === state ? 0 : playOut(next, view.seatId, random);
+  }
+
+  const mostVisited = candidates.reduce((best, _, index) => (visits[index] > visits[best] ? index : best), 0);
+  return candidates[mostVisited];
+};
@@ -0,0 +1,116 @@
+import { GameState, Player, RuleSet } from './types';
+import { createGame, createGameFromHands } from './engine';
+import { forkRandom } from './random';
+
+// Match play: a series of games at the same table, won by the most games
+// (best of 3, 5 or 7) or by the first player to a points target. A game's
+// winner scores the cards left in the losing hands.
+//
+// A best-of match ends after its last game, or sooner once nobody can catch
+// the leader. Equal wins are decided by points, then by who won a game last.
+//
+// Between games the player left with the most cards opens the next one. The
+// engine lets only the holder of the starter card open, so that player is
+// dealt it: their card for it is swapped with whoever it was dealt to.
+
+export const BEST_OF_OPTIONS = [3, 5, 7];
+export const MIN_POINTS_TARGET = 10;
+export const MAX_POINTS_TARGET = 500;
+export const DEFAULT_POINTS_TARGET = 50;
+
+export type MatchFormat = { type: 'bestOf'; games: number } | { type: 'points'; target: number };
+
+export interface MatchGameResult {
+  seed: number;
+  openerId: number;
+  winnerId: number;
+  cardsLeft: { [playerId: number]: number };
+  points: number;
+}
+
+export interface Match {
+  format: MatchFormat;
+  players: { id: number; name: string }[];
+  results: MatchGameResult[];
+}
+
+export interface MatchStanding {
+  playerId: number;
+  wins: number;
+  points: number;
+}
+
+export const createMatch = (format: MatchFormat, players: Omit<Player, 'hand'>[]): Match => ({
+  format,
+  players: players.map(p => ({ id: p.id, name: p.name })),
+  results: [],
+});
+
+// A game played again after an undo replaces its earlier result.
+export const recordMatchGame = (match: Match, game: GameState): Match => {
+  if (game.winnerId === null) return match;
+  const started = game.events.find(event => event.type === 'GameStarted');
+  const cardsLeft = Object.fromEntries(game.players.map(p => [p.id, p.hand.length]));
+  const result: MatchGameResult = {
+    seed: game.seed,
+    openerId: started?.type === 'GameStarted' ? started.starterId : game.players[0].id,
+    winnerId: game.winnerId,
+    cardsLeft,
+    // Only the losers' cards: a winner on time may still hold some.
+    points: game.players.filter(p => p.id !== game.winnerId).reduce((sum, p) => sum + p.hand.length, 0),
+  };
+  return { ...match, results: [...dropMatchGame(match, game.seed).results, result] };
+};
+
+export const dropMatchGame = (match: Match, seed: number): Match => ({ ...match, results: match.results.filter(result => result.seed !== seed) });
+
+// In seating order.
+export const getMatchStandings = (match: Match): MatchStanding[] =>
+  match.players.map(p => {
+    const won = match.results.filter(result => result.winnerId === p.id);
+    return { playerId: p.id, wins: won.length, points: won.reduce((sum, result) => sum + result.points, 0) };
+  });
+
+// Index of the player's latest win, -1 without one.
+const getLastWin = (match: Match, playerId: number): number => match.results.map(result => result.winnerId).lastIndexOf(playerId);
+
+// Null while the match is still on.
+export const getMatchWinnerId = (match: Match): number | null => {
+  const { format } = match;
+  const standings = getMatchStandings(match);
+  if (format.type === 'points') return standings.find(standing => standing.points >= format.target)?.playerId ?? null;
+
+  const [leader, ...rest] = [...standings].sort((a, b) =>
+    b.wins - a.wins || b.points - a.points || getLastWin(match, b.playerId) - getLastWin(match, a.playerId)
+  );
+  const gamesLeft = format.games - match.results.length;
+  const isDecided = gamesLeft <= 0 || rest.every(standing => standing.wins + gamesLeft < leader.wins);
+  return isDecided ? leader.playerId : null;
+};
+
+// The most cards left after the last game; on a tie, whoever sits first after its winner.
+const getNextOpenerId = (match: Match): number | null => {
+  const last = match.results[match.results.length - 1];
+  if (!last) return null;
+  const winnerIndex = match.players.findIndex(p => p.id === last.winnerId);
+  const order = match.players.map((_, i) => match.players[(winnerIndex + 1 + i) % match.players.length]);
+  return order.reduce((best, p) => ((last.cardsLeft[p.id] ?? 0) > (last.cardsLeft[best.id] ?? 0) ? p : best)).id;
+};
+
+// The next game of the match, dealt from `seed` like any other.
+export const createMatchGame = (match: Match, seats: Omit<Player, 'hand'>[], seed: number, rules: RuleSet): GameState => {
+  const dealt = createGame(seats, seed, rules);
+  const openerId = getNextOpenerId(match);
+  const holder = dealt.players.find(p => p.hand.some(c => c.id === rules.starterCardId))!;
+  if (openerId === null || openerId === holder.id) return dealt;
+
+  const opener = dealt.players.find(p => p.id === openerId)!;
+  const given = opener.hand[Math.floor(forkRandom(seed, 'opener')() * opener.hand.length)];
+  const starter = holder.hand.find(c => c.id === rules.starterCardId)!;
+  const swap = (p: Player) => {
+    if (p.id === opener.id) return { ...p, hand: p.hand.map(c => (c.id === given.id ? starter : c)) };
+    if (p.id === holder.id) return { ...p, hand: p.hand.map(c => (c.id === starter.id ? given : c)) };
+    return p;
+  };
+  return createGameFromHands(dealt.players.map(swap), seed, rules);
+};
@@ -0,0 +1,127 @@
+import { Card, GameEvent, GameState, Player } from './types';
+import { PublicPlay } from './ai';
+import { ClientMessage, DEFAULT_SERVER_PORT, SeatView, ServerMessage } from './protocol';
+
+// Client side of network play: a connection to the game server that keeps
+// reconnecting until it is closed, and the table the app renders, rebuilt from
+// the view the server sends this seat.
+
+const RECONNECT_DELAY_MS = 2000;
+
+export const getDefaultServerUrl = (): string => `ws://${location.hostname || 'localhost'}:${DEFAULT_SERVER_PORT}`;
+
+export interface ServerConnection {
+  send: (message: ClientMessage) => void;
+  close: () => void;
+}
+
+// Messages sent before the connection opens are queued. After a drop it is
+// reopened and onConnectionChange(true) fires again, e.g. to resume the seat.
+export const connectToServer = (
+  url: string,
+  onMessage: (message: ServerMessage) => void,
+  onConnectionChange: (isConnected: boolean) => void
+): ServerConnection => {
+  let socket: WebSocket | null = null;
+  let isClosed = false;
+  let retryTimer: ReturnType<typeof setTimeout> | undefined;
+  const queue: ClientMessage[] = [];
+
+  const open = () => {
+    const current = new WebSocket(url);
+    socket = current;
+    current.onopen = () => {
+      onConnectionChange(true);
+      queue.splice(0).forEach(message => current.send(JSON.stringify(message)));
+    };
+    current.onmessage = event => onMessage(JSON.parse(String(event.data)) as ServerMessage);
+    current.onclose = () => {
+      if (isClosed) return;
+      socket = null;
+      onConnectionChange(false);
+      retryTimer = setTimeout(open, RECONNECT_DELAY_MS);
+    };
+  };
+  open();
+
+  return {
+    send: message => {
+      if (socket?.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message));
+      else queue.push(message);
+    },
+    close: () => {
+      isClosed = true;
+      clearTimeout(retryTimer);
+      socket?.close();
+    },
+  };
+};
+
+// TABLE STATE
+const hiddenCard = (id: string): Card => ({ suit: 'Pik', rank: '8', id: `hidden-${id}` });
+
+// Rebuilds a GameState from one seat's view, for rendering and for the
+// engine's queries (canPlay, canTake, ...). Cards the seat cannot see become
+// face-down placeholders that move through the pile exactly like the real
+// ones. The seed is not sent (it would reveal the deal), so it is 0.
+export const toTableState = (view: SeatView): GameState => {
+  const { starterCardId, isStarterPermanent } = view.rules;
+  let pile: Card[] = [];
+  let lastPlayedCards: Card[] = [];
+  const takeTop = (count: number) => {
+    const keep = isStarterPermanent && pile[0]?.id === starterCardId ? 1 : 0;
+    pile = pile.slice(0, Math.max(keep, pile.length - count));
+  };
+
+  const events: GameEvent[] = view.events.map((event, index) => {
+    switch (event.type) {
+      case 'GameStarted': {
+        const { hand, ...rest } = event;
+        return { ...rest, seed: 0, hands: [{ playerId: view.seatId, cards: hand }] };
+      }
+      case 'CardsPlayed': {
+        const cards = event.cards.map((card, i) => card ?? hiddenCard(`${index}-${i}`));
+        lastPlayedCards = cards;
+        pile = event.isOpening
+          ? [...cards.filter(card => card.id === starterCardId), ...cards.filter(card => card.id !== starterCardId)]
+          : [...pile, ...cards];
+        return { ...event, cards };
+      }
+      case 'ChallengeResolved':
+        takeTop(Infinity);
+        return event;
+      case 'PileTaken':
+        takeTop(event.count);
+        return event;
+      case 'PenaltyApplied':
+        takeTop(event.count);
+        return event;
+      default:
+        return event;
+    }
+  });
+
+  const players: Player[] = view.players.map(p => ({
+    id: p.id,
+    name: p.name,
+    hand: p.id === view.seatId ? view.hand : Array.from({ length: p.cardCount }, (_, i) => hiddenCard(`${p.id}-${i}`)),
+    isHuman: true,
+  }));
+  const withCards = (play: PublicPlay | null) => (play ? { ...play, actualCards: lastPlayedCards } : null);
+  const gameWon = events.find(event => event.type === 'GameWon');
+
+  return {
+    seed: 0,
+    rules: view.rules,
+    players,
+    currentPlayerIndex: players.findIndex(p => p.id === view.currentPlayerId),
+    discardPile: pile,
+    lastPlay: withCards(view.lastPlay),
+    finalPlay: withCards(view.finalPlay),
+    isOpeningMoveAvailable: view.isOpeningMoveAvailable,
+    lastCardDeclarerId: view.lastCardDeclarerId,
+    penalty: view.penalty,
+    winnerId: gameWon?.type === 'GameWon' ? gameWon.playerId : null,
+    events,
+  };
+};
@@ -0,0 +1,422 @@
+import { Card, DeckId, GameAction, GameEvent, GameState, Player, Rank, RuleSet, Suit, TimeControl, TimeoutAction } from './types';
+import { DEFAULT_RULES, RANKS, SUITS } from './constants';
+import { createDeck, createGameFromHands, reduce } from './engine';
+import { getRuleErrors } from './rules';
+import { Translator } from './i18n';
+
+/*
+ * OSZUST GAME RECORD (version 2)
+ *
+ * A plain-text, line-based record of a whole game. Blank lines and lines
+ * starting with "#" are ignored. Player ids are seat numbers, cards are
+ * written as their ids ("10-Kier", "A-Pik", "A-Pik-2" for the second copy in a
+ * double deck) and groups of cards are joined
+ * with commas and no spaces. A declaration is "<count>x<rank>", e.g. "3xQ".
+ *
+ * Header, in this order:
+ *   OSZUST 2
+ *   seat <id> <human|ai> <name...>          one line per seat, in seating order
+ *   seed <number>                           seed for AI choices and card jitter
+ *   rules <key>=<value> ...                 house rules; classic rules when missing:
+ *     deck=classic plays=1,3 face-up-four=yes take=3 penalty=3 grace=3000
+ *     starter=8-Kier permanent-starter=yes opening=1,3,4
+ *     clock=off clock-ms=30000 timeout=take
+ *     (deck may be left out: short, classic, piquet, full or double;
+ *     so may the clock keys: clock=off, turn or chess; timeout=take, pass or lose)
+ *   hand <id> <cards>                       initial hand of every seat
+ *
+ * Then one line per game event, in the order they happened:
+ *   start <id>                              seat holding the starter card opens the game
+ *   play <id> <cards> as <declaration> [opening] [face-up]
+ *   last-card <id>                          declared together with the play above
+ *   missed-last-card <id>                   played down to one card without declaring
+ *   window <id>                             grace period over, <id> may now be reported
+ *   late-last-card <id> [after <ms>]        <id> corrected the missed declaration in time
+ *   report <reporter> on <offender> takes <n> [after <ms>]
+ *   ignored <id> [after <ms>]               the window closed with nobody reporting <id>
+ *     (after: time since the missed declaration; 0 when left out)
+ *   take <id> <n>                           "Pobierz"
+ *   timeout <id>                            <id> ran out of time; the timeout action follows
+ *   final <id>                              <id> played their last cards, awaiting the check
+ *   challenge <challenger> on <id> as <declaration> revealed <cards> <bluff|honest> taker <id> takes <n>
+ *   win <id> [conceded-by <id> | out-of-time <id>]
+ *
+ * Reading a record replays every move through the rules engine, so a record
+ * that breaks the rules, or whose written outcomes differ from what the rules
+ * produce, is rejected with the offending line number.
+ *
+ * Version 1 records predate the timed reaction window for a missed last-card
+ * call (no turns while it is pending, reaction times) and are not replayed.
+ */
+
+export interface RecordError {
+  line: number;
+  message: string;
+}
+
+export type RecordParseResult = { ok: true; game: GameState } | { ok: false; errors: RecordError[] };
+
+const FORMAT_HEADER = 'OSZUST 2';
+const OLD_FORMAT_HEADERS = ['OSZUST 1'];
+
+// FORMATTING
+const formatCards = (cards: Card[]): string => cards.map(c => c.id).join(',');
+
+const formatDeclaration = (count: number, rank: Rank): string => `${count}x${rank}`;
+
+export const formatEvent = (event: GameEvent): string => {
+  switch (event.type) {
+    case 'GameStarted':
+      return `start ${event.starterId}`;
+    case 'CardsPlayed':
+      return [
+        `play ${event.playerId} ${formatCards(event.cards)} as ${formatDeclaration(event.declaredCount, event.declaredRank)}`,
+        event.isOpening ? 'opening' : '',
+        event.isChallengeable ? '' : 'face-up',
+      ].filter(Boolean).join(' ');
+    case 'FinalPlayPending':
+      return `final ${event.playerId}`;
+    case 'ChallengeResolved':
+      return `challenge ${event.challengerId} on ${event.challengedId} as ${formatDeclaration(event.declaredCount, event.declaredRank)} ` +
+        `revealed ${formatCards(event.revealedCards)} ${event.wasBluff ? 'bluff' : 'honest'} taker ${event.takerId} takes ${event.takenCount}`;
+    case 'PileTaken':
+      return `take ${event.playerId} ${event.count}`;
+    case 'LastCardDeclared':
+      return event.isLate ? `late-last-card ${event.playerId} after ${event.elapsedMs ?? 0}` : `last-card ${event.playerId}`;
+    case 'LastCardMissed':
+      return `missed-last-card ${event.playerId}`;
+    case 'PenaltyWindowOpened':
+      return `window ${event.offenderId}`;
+    case 'PenaltyApplied':
+      return `report ${event.reporterId} on ${event.offenderId} takes ${event.count} after ${event.elapsedMs}`;
+    case 'PenaltyIgnored':
+      return `ignored ${event.offenderId} after ${event.elapsedMs}`;
+    case 'TimedOut':
+      return `timeout ${event.playerId}`;
+    case 'GameWon':
+      if (event.concededBy === null) return `win ${event.playerId}`;
+      return `win ${event.playerId} ${event.isTimeLoss ? 'out-of-time' : 'conceded-by'} ${event.concededBy}`;
+  }
+};
+
+const formatFlag = (value: boolean): string => (value ? 'yes' : 'no');
+
+const formatRules = (rules: RuleSet): string => [
+  'rules',
+  `deck=${rules.deck}`,
+  `plays=${rules.playSizes.join(',')}`,
+  `face-up-four=${formatFlag(rules.faceUpFourOfAKind)}`,
+  `take=${rules.takeCount}`,
+  `penalty=${rules.penaltyCount}`,
+  `grace=${rules.lastCardGraceMs}`,
+  `starter=${rules.starterCardId}`,
+  `permanent-starter=${formatFlag(rules.isStarterPermanent)}`,
+  `opening=${rules.openingSizes.join(',')}`,
+  `clock=${rules.timeControl}`,
+  `clock-ms=${rules.timeLimitMs}`,
+  `timeout=${rules.timeoutAction}`,
+].join(' ');
+
+export const formatRecord = (state: GameState): string => {
+  const started = state.events.find(e => e.type === 'GameStarted');
+  if (!started || started.type !== 'GameStarted') throw new Error('Game has no start event');
+
+  return [
+    FORMAT_HEADER,
+    ...state.players.map(p => `seat ${p.id} ${p.isHuman ? 'human' : 'ai'} ${p.name}`),
+    `seed ${started.seed}`,
+    formatRules(state.rules),
+    ...started.hands.map(hand => `hand ${hand.playerId} ${formatCards(hand.cards)}`),
+    ...state.events.map(formatEvent),
+  ].join('\n') + '\n';
+};
+
+// PARSING
+// Error messages are written in the reader's language; `what` names the field.
+const parseNumber = (t: Translator, token: string | undefined, what: string): number => {
+  if (token === undefined || !/^\d+$/.test(token)) throw new Error(t('recordError.expectedNumber', { what, token: token ?? '' }));
+  return Number(token);
+};
+
+const parseCard = (t: Translator, token: string): Card => {
+  const [rank, suit, copy, ...rest] = token.split('-') as [Rank, Suit, string | undefined];
+  const isCopyValid = copy === undefined || /^[2-9]$/.test(copy);
+  if (!RANKS.includes(rank) || !SUITS.includes(suit) || !isCopyValid || rest.length > 0) throw new Error(t('recordError.unknownCard', { token }));
+  return { suit, rank, id: token };
+};
+
+const parseCards = (t: Translator, token: string | undefined): Card[] => {
+  if (!token) throw new Error(t('recordError.noCards'));
+  return token.split(',').map(card => parseCard(t, card));
+};
+
+const parseFlag = (t: Translator, token: string | undefined, what: string): boolean => {
+  if (token !== 'yes' && token !== 'no') throw new Error(t('recordError.expectedFlag', { what, token: token ?? '' }));
+  return token === 'yes';
+};
+
+const parseNumberList = (t: Translator, token: string | undefined, what: string): number[] =>
+  (token ?? '').split(',').map(part => parseNumber(t, part, what));
+
+const RULE_KEYS = ['deck', 'plays', 'face-up-four', 'take', 'penalty', 'grace', 'starter', 'permanent-starter', 'opening', 'clock', 'clock-ms', 'timeout'];
+
+const parseRules = (t: Translator, tokens: string[]): RuleSet => {
+  const values = new Map<string, string>();
+  tokens.slice(1).forEach(token => {
+    const separator = token.indexOf('=');
+    if (separator <= 0) throw new Error(t('recordError.expectedKeyValue', { token }));
+    if (!RULE_KEYS.includes(token.slice(0, separator))) throw new Error(t('recordError.unknownRule', { token }));
+    values.set(token.slice(0, separator), token.slice(separator + 1));
+  });
+  const rules: RuleSet = {
+    deck: (values.get('deck') ?? DEFAULT_RULES.deck) as DeckId,
+    playSizes: parseNumberList(t, values.get('plays'), 'plays'),
+    faceUpFourOfAKind: parseFlag(t, values.get('face-up-four'), 'face-up-four'),
+    takeCount: parseNumber(t, values.get('take'), 'take'),
+    penaltyCount: parseNumber(t, values.get('penalty'), 'penalty'),
+    lastCardGraceMs: parseNumber(t, values.get('grace'), 'grace'),
+    starterCardId: parseCard(t, values.get('starter') ?? '').id,
+    isStarterPermanent: parseFlag(t, values.get('permanent-starter'), 'permanent-starter'),
+    openingSizes: parseNumberList(t, values.get('opening'), 'opening'),
+    timeControl: (values.get('clock') ?? DEFAULT_RULES.timeControl) as TimeControl,
+    timeLimitMs: values.has('clock-ms') ? parseNumber(t, values.get('clock-ms'), 'clock-ms') : DEFAULT_RULES.timeLimitMs,
+    timeoutAction: (values.get('timeout') ?? DEFAULT_RULES.timeoutAction) as TimeoutAction,
+  };
+  const ruleErrors = getRuleErrors(rules);
+  if (ruleErrors.length > 0) throw new Error(t('recordError.invalidRules', { errors: ruleErrors.join('; ') }));
+  return rules;
+};
+
+const parseDeclaration = (t: Translator, token: string | undefined): { count: number; rank: Rank } => {
+  const match = /^(\d)x(.+)$/.exec(token ?? '');
+  if (!match || !RANKS.includes(match[2] as Rank)) throw new Error(t('recordError.invalidDeclaration', { token: token ?? '' }));
+  return { count: Number(match[1]), rank: match[2] as Rank };
+};
+
+const expectWord = (t: Translator, tokens: string[], index: number, word: string): void => {
+  if (tokens[index] !== word) throw new Error(t('recordError.expectedWord', { word, token: tokens[index] ?? '' }));
+};
+
+const expectEnd = (t: Translator, tokens: string[], index: number): void => {
+  if (tokens.length > index) throw new Error(t('recordError.extraText', { text: tokens.slice(index).join(' ') }));
+};
+
+// An optional "after <ms>" ending the line at `index`.
+const parseElapsed = (t: Translator, tokens: string[], index: number): number => {
+  if (tokens.length <= index) return 0;
+  expectWord(t, tokens, index, 'after');
+  expectEnd(t, tokens, index + 2);
+  return parseNumber(t, tokens[index + 1], t('recordField.elapsed'));
+};
+
+// Parses one event line. GameStarted is only partially filled here; seed and
+// hands come from the header.
+const parseEventLine = (t: Translator, tokens: string[]): GameEvent => {
+  const [keyword] = tokens;
+  const player = t('recordField.player');
+  const cardCount = t('recordField.cardCount');
+  switch (keyword) {
+    case 'start':
+      expectEnd(t, tokens, 2);
+      return { type: 'GameStarted', seed: 0, starterId: parseNumber(t, tokens[1], player), hands: [] };
+    case 'play': {
+      expectWord(t, tokens, 3, 'as');
+      const { count, rank } = parseDeclaration(t, tokens[4]);
+      const flags = tokens.slice(5);
+      if (flags.some(flag => flag !== 'opening' && flag !== 'face-up')) throw new Error(t('recordError.unknownFlag', { flags: flags.join(' ') }));
+      return {
+        type: 'CardsPlayed',
+        playerId: parseNumber(t, tokens[1], player),
+        cards: parseCards(t, tokens[2]),
+        declaredRank: rank,
+        declaredCount: count,
+        isOpening: flags.includes('opening'),
+        isChallengeable: !flags.includes('face-up'),
+      };
+    }
+    case 'final':
+      expectEnd(t, tokens, 2);
+      return { type: 'FinalPlayPending', playerId: parseNumber(t, tokens[1], player) };
+    case 'challenge': {
+      expectWord(t, tokens, 2, 'on');
+      expectWord(t, tokens, 4, 'as');
+      expectWord(t, tokens, 6, 'revealed');
+      expectWord(t, tokens, 9, 'taker');
+      expectWord(t, tokens, 11, 'takes');
+      expectEnd(t, tokens, 13);
+      if (tokens[8] !== 'bluff' && tokens[8] !== 'honest') throw new Error(t('recordError.expectedOutcome', { token: tokens[8] ?? '' }));
+      const { count, rank } = parseDeclaration(t, tokens[5]);
+      return {
+        type: 'ChallengeResolved',
+        challengerId: parseNumber(t, tokens[1], t('recordField.challenger')),
+        challengedId: parseNumber(t, tokens[3], t('recordField.challenged')),
+        declaredRank: rank,
+        declaredCount: count,
+        revealedCards: parseCards(t, tokens[7]),
+        wasBluff: tokens[8] === 'bluff',
+        takerId: parseNumber(t, tokens[10], t('recordField.taker')),
+        takenCount: parseNumber(t, tokens[12], cardCount),
+      };
+    }
+    case 'take':
+      expectEnd(t, tokens, 3);
+      return { type: 'PileTaken', playerId: parseNumber(t, tokens[1], player), count: parseNumber(t, tokens[2], cardCount) };
+    case 'last-card':
+      expectEnd(t, tokens, 2);
+      return { type: 'LastCardDeclared', playerId: parseNumber(t, tokens[1], player), isLate: false, elapsedMs: null };
+    case 'late-last-card':
+      return { type: 'LastCardDeclared', playerId: parseNumber(t, tokens[1], player), isLate: true, elapsedMs: parseElapsed(t, tokens, 2) };
+    case 'missed-last-card':
+      expectEnd(t, tokens, 2);
+      return { type: 'LastCardMissed', playerId: parseNumber(t, tokens[1], player) };
+    case 'window':
+      expectEnd(t, tokens, 2);
+      return { type: 'PenaltyWindowOpened', offenderId: parseNumber(t, tokens[1], player) };
+    case 'report':
+      expectWord(t, tokens, 2, 'on');
+      expectWord(t, tokens, 4, 'takes');
+      return {
+        type: 'PenaltyApplied',
+        reporterId: parseNumber(t, tokens[1], t('recordField.reporter')),
+        offenderId: parseNumber(t, tokens[3], t('recordField.offender')),
+        count: parseNumber(t, tokens[5], cardCount),
+        elapsedMs: parseElapsed(t, tokens, 6),
+      };
+    case 'ignored':
+      return { type: 'PenaltyIgnored', offenderId: parseNumber(t, tokens[1], player), elapsedMs: parseElapsed(t, tokens, 2) };
+    case 'timeout':
+      expectEnd(t, tokens, 2);
+      return { type: 'TimedOut', playerId: parseNumber(t, tokens[1], player) };
+    case 'win':
+      if (tokens.length > 2) {
+        if (tokens[2] !== 'out-of-time') expectWord(t, tokens, 2, 'conceded-by');
+        expectEnd(t, tokens, 4);
+      }
+      return {
+        type: 'GameWon',
+        playerId: parseNumber(t, tokens[1], player),
+        concededBy: tokens.length > 2 ? parseNumber(t, tokens[3], player) : null,
+        isTimeLoss: tokens[2] === 'out-of-time',
+      };
+    default:
+      throw new Error(t('recordError.unknownEntry', { keyword }));
+  }
+};
+
+// Turns the recorded events back into the actions that caused them. Events
+// that are pure consequences (e.g. "final") map to no action. Reaction-window
+// steps are meant for the window pending in `game`.
+const eventToAction = (event: GameEvent, nextEvent: GameEvent | undefined, game: GameState): GameAction | null => {
+  const windowId = game.penalty?.id ?? -1;
+  switch (event.type) {
+    case 'CardsPlayed': {
+      const declaresLastCard = nextEvent?.type === 'LastCardDeclared' && !nextEvent.isLate && nextEvent.playerId === event.playerId;
+      return { type: 'PLAY', playerId: event.playerId, cards: event.cards, declaredRank: event.declaredRank, declaresLastCard };
+    }
+    case 'ChallengeResolved': return { type: 'CHALLENGE', playerId: event.challengerId };
+    case 'PileTaken': return { type: 'TAKE', playerId: event.playerId };
+    case 'LastCardDeclared': return event.isLate ? { type: 'DECLARE_LAST_CARD', playerId: event.playerId, windowId, elapsedMs: event.elapsedMs ?? 0 } : null;
+    case 'PenaltyWindowOpened': return { type: 'OPEN_PENALTY_WINDOW', windowId };
+    case 'PenaltyApplied': return { type: 'REPORT_PENALTY', playerId: event.reporterId, windowId, elapsedMs: event.elapsedMs };
+    case 'PenaltyIgnored': return { type: 'CLOSE_PENALTY_WINDOW', windowId, elapsedMs: event.elapsedMs };
+    case 'TimedOut': return { type: 'TIME_OUT', playerId: event.playerId };
+    case 'GameWon': return event.concededBy === null || event.isTimeLoss ? null : { type: 'CONCEDE', playerId: event.concededBy };
+    default: return null;
+  }
+};
+
+export const parseRecord = (text: string, t: Translator): RecordParseResult => {
+  const errors: RecordError[] = [];
+  const seats: Omit<Player, 'hand'>[] = [];
+  const hands = new Map<number, Card[]>();
+  const events: { line: number; event: GameEvent }[] = [];
+  let seed: number | null = null;
+  let rules: RuleSet = DEFAULT_RULES;
+  let hasHeader = false;
+
+  text.split(/\r?\n/).forEach((rawLine, index) => {
+    const line = index + 1;
+    const trimmed = rawLine.trim();
+    if (!trimmed || trimmed.startsWith('#')) return;
+
+    try {
+      if (!hasHeader) {
+        if (OLD_FORMAT_HEADERS.includes(trimmed)) throw new Error(t('recordError.oldVersion', { old: trimmed, header: FORMAT_HEADER }));
+        if (trimmed !== FORMAT_HEADER) throw new Error(t('recordError.missingHeader', { header: FORMAT_HEADER }));
+        hasHeader = true;
+        return;
+      }
+
+      const tokens = trimmed.split(/\s+/);
+      const isHeaderLine = ['seat', 'seed', 'rules', 'hand'].includes(tokens[0]);
+      if (isHeaderLine && events.length > 0) throw new Error(t('recordError.headerAfterEvents', { keyword: tokens[0] }));
+
+      if (tokens[0] === 'seat') {
+        const id = parseNumber(t, tokens[1], t('recordField.seat'));
+        if (tokens[2] !== 'human' && tokens[2] !== 'ai') throw new Error(t('recordError.expectedSeatType', { token: tokens[2] ?? '' }));
+        if (tokens.length < 4) throw new Error(t('recordError.missingName'));
+        if (seats.some(seat => seat.id === id)) throw new Error(t('recordError.duplicateSeat', { id }));
+        seats.push({ id, name: tokens.slice(3).join(' '), isHuman: tokens[2] === 'human' });
+      } else if (tokens[0] === 'seed') {
+        expectEnd(t, tokens, 2);
+        seed = parseNumber(t, tokens[1], t('recordField.seed'));
+      } else if (tokens[0] === 'rules') {
+        rules = parseRules(t, tokens);
+      } else if (tokens[0] === 'hand') {
+        expectEnd(t, tokens, 3);
+        const id = parseNumber(t, tokens[1], t('recordField.seat'));
+        if (!seats.some(seat => seat.id === id)) throw new Error(t('recordError.unknownHandSeat', { id }));
+        hands.set(id, parseCards(t, tokens[2]));
+      } else {
+        events.push({ line, event: parseEventLine(t, tokens) });
+      }
+    } catch (error) {
+      errors.push({ line, message: (error as Error).message });
+    }
+  });
+
+  if (!hasHeader) errors.push({ line: 1, message: t('recordError.missingHeader', { header: FORMAT_HEADER }) });
+  if (errors.length > 0) return { ok: false, errors };
+  if (seed === null) return { ok: false, errors: [{ line: 1, message: t('recordError.missingSeed') }] };
+  if (events[0]?.event.type !== 'GameStarted') return { ok: false, errors: [{ line: events[0]?.line ?? 1, message: t('recordError.missingStart') }] };
+
+  let game: GameState;
+  try {
+    game = createGameFromHands(seats.map(seat => ({ ...seat, hand: hands.get(seat.id) ?? [] })), seed, rules);
+  } catch (error) {
+    return { ok: false, errors: [{ line: events[0].line, message: t('recordError.invalidDeal', { reason: (error as Error).message }) }] };
+  }
+  const dealtIds = new Set(seats.flatMap(seat => (hands.get(seat.id) ?? []).map(c => c.id)));
+  const deck = createDeck(game.rules.deck);
+  const dealtCount = seats.reduce((sum, seat) => sum + (hands.get(seat.id)?.length ?? 0), 0);
+  if (dealtIds.size !== dealtCount || dealtIds.size !== deck.length || deck.some(c => !dealtIds.has(c.id))) {
+    return { ok: false, errors: [{ line: events[0].line, message: t('recordError.incompleteDeal') }] };
+  }
+  const deckIds = new Set(deck.map(c => c.id));
+  for (const { line, event } of events) {
+    const cards = event.type === 'CardsPlayed' ? event.cards : event.type === 'ChallengeResolved' ? event.revealedCards : [];
+    const outside = cards.find(c => !deckIds.has(c.id));
+    if (outside) return { ok: false, errors: [{ line, message: t('recordError.cardNotInDeck', { card: outside.id }) }] };
+  }
+
+  for (let i = 0; i < events.length; i++) {
+    const { line, event } = events[i];
+    // Events the previous action already produced (e.g. the take after a timeout) are its consequences.
+    const action = game.events.length > i ? null : eventToAction(event, events[i + 1]?.event, game);
+    if (action) {
+      const next = reduce(game, action);
+      if (next === game) return { ok: false, errors: [{ line, message: t('recordError.illegalMove', { event: formatEvent(event) }) }] };
+      game = next;
+    }
+    const replayed = game.events[i];
+    if (!replayed || formatEvent(replayed) !== formatEvent(event)) {
+      const message = replayed ? t('recordError.expectedEvent', { event: formatEvent(replayed) }) : t('recordError.expectedEnd');
+      return { ok: false, errors: [{ line, message }] };
+    }
+  }
+  if (game.events.length !== events.length) {
+    return { ok: false, errors: [{ line: events[events.length - 1].line, message: t('recordError.missingEvent', { event: formatEvent(game.events[events.length]) }) }] };
+  }
+
+  return { ok: true, game };
+};
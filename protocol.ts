@@ -0,0 +1,194 @@
+import { Card, DeckId, GameAction, PlayRejection, Player, Rank, RuleSet, TimeControl, TimeoutAction } from './types';
+import { RANKS } from './constants';
+import { AiView } from './ai';
+import { TurnClock } from './clock';
+import { getRuleErrors } from './rules';
+
+// Messages between the game server (server.ts) and the app in network mode,
+// sent as JSON over a WebSocket. Only the server runs the rules: clients send
+// intents for their own seat and get back what that seat may see.
+
+export const DEFAULT_SERVER_PORT = 8787;
+export const MAX_NAME_LENGTH = 20;
+
+// A networked seat sees exactly what a computer player does: its own hand,
+// hand counts, declarations and the cards turned over by challenges.
+export type SeatView = AiView;
+
+export type Intent =
+  | { type: 'PLAY'; cardIds: string[]; declaredRank: Rank; declaresLastCard: boolean }
+  | { type: 'TAKE' }
+  | { type: 'CHALLENGE' }
+  | { type: 'CONCEDE' }
+  // Claims name the reaction window they are meant for; the server times them itself.
+  | { type: 'DECLARE_LAST_CARD'; windowId: number }
+  | { type: 'REPORT_PENALTY'; windowId: number };
+
+export type ClientMessage =
+  // The host's house rules apply to every game at the table.
+  | { type: 'CREATE_LOBBY'; name: string; rules: RuleSet }
+  | { type: 'JOIN_LOBBY'; lobbyId: string; name: string }
+  | { type: 'RESUME'; lobbyId: string; token: string }
+  | { type: 'LEAVE' }
+  | { type: 'START' }
+  | { type: 'INTENT'; intent: Intent };
+
+export interface LobbySeat {
+  id: number;
+  // Empty when the player gave none.
+  name: string;
+  isConnected: boolean;
+}
+
+export interface LobbyInfo {
+  lobbyId: string;
+  hostId: number;
+  seats: LobbySeat[];
+  isPlaying: boolean;
+}
+
+export type ServerErrorCode =
+  | 'BAD_MESSAGE'
+  | 'LOBBY_NOT_FOUND'
+  | 'LOBBY_FULL'
+  | 'GAME_IN_PROGRESS'
+  | 'SESSION_NOT_FOUND'
+  | 'NOT_SEATED'
+  | 'NOT_HOST'
+  | 'NOT_ENOUGH_PLAYERS'
+  | 'NO_GAME'
+  | 'ILLEGAL_MOVE';
+
+export type ServerMessage =
+  // The token lets this seat take its place back after a dropped connection.
+  | { type: 'JOINED'; lobbyId: string; seatId: number; token: string }
+  | { type: 'LOBBY'; lobby: LobbyInfo }
+  // The clock of a timed table as of sending; the receiver restarts it from its own time of arrival.
+  | { type: 'STATE'; view: SeatView; clock: TurnClock | null }
+  // A refused play comes with the engine's reason.
+  | { type: 'ERROR'; code: ServerErrorCode; rejection?: PlayRejection };
+
+// CONVERSIONS
+// The action a client wants for its own seat; null for the timed steps only the server may take.
+export const toIntent = (action: GameAction): Intent | null => {
+  switch (action.type) {
+    case 'PLAY':
+      return { type: 'PLAY', cardIds: action.cards.map(card => card.id), declaredRank: action.declaredRank, declaresLastCard: !!action.declaresLastCard };
+    case 'DECLARE_LAST_CARD':
+    case 'REPORT_PENALTY':
+      return { type: action.type, windowId: action.windowId };
+    case 'OPEN_PENALTY_WINDOW':
+    case 'CLOSE_PENALTY_WINDOW':
+    case 'TIME_OUT':
+      return null;
+    default:
+      return { type: action.type };
+  }
+};
+
+// Null if the intent names cards the seat does not hold. Claims are stamped
+// with `elapsedMs`, the server's own time since the pending missed call.
+export const toAction = (intent: Intent, player: Player, elapsedMs: number): GameAction | null => {
+  switch (intent.type) {
+    case 'PLAY': {
+      const cards = intent.cardIds.map(id => player.hand.find(card => card.id === id));
+      if (!cards.every((card): card is Card => card !== undefined)) return null;
+      return { type: 'PLAY', playerId: player.id, cards, declaredRank: intent.declaredRank, declaresLastCard: intent.declaresLastCard };
+    }
+    case 'DECLARE_LAST_CARD':
+    case 'REPORT_PENALTY':
+      return { type: intent.type, playerId: player.id, windowId: intent.windowId, elapsedMs };
+    default:
+      return { type: intent.type, playerId: player.id };
+  }
+};
+
+// VALIDATION
+const isString = (value: unknown): value is string => typeof value === 'string';
+
+const isCountArray = (value: unknown): value is number[] => Array.isArray(value) && value.every(item => typeof item === 'number');
+
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+
+const isRank = (value: unknown): value is Rank => RANKS.some(rank => rank === value);
+
+const parseRules = (value: unknown): RuleSet | null => {
+  if (!isRecord(value)) return null;
+  const { deck, playSizes, faceUpFourOfAKind, takeCount, penaltyCount, lastCardGraceMs, starterCardId, isStarterPermanent, openingSizes, timeControl, timeLimitMs, timeoutAction } = value;
+  if (
+    !isCountArray(playSizes) || !isCountArray(openingSizes) ||
+    typeof faceUpFourOfAKind !== 'boolean' || typeof isStarterPermanent !== 'boolean' ||
+    typeof takeCount !== 'number' || typeof penaltyCount !== 'number' ||
+    typeof lastCardGraceMs !== 'number' || !isString(starterCardId) || !isString(deck) ||
+    !isString(timeControl) || typeof timeLimitMs !== 'number' || !isString(timeoutAction)
+  ) return null;
+  // getRuleErrors checks the names of the deck, time control and timeout action.
+  const rules: RuleSet = {
+    deck: deck as DeckId,
+    playSizes,
+    faceUpFourOfAKind,
+    takeCount,
+    penaltyCount,
+    lastCardGraceMs,
+    starterCardId,
+    isStarterPermanent,
+    openingSizes,
+    timeControl: timeControl as TimeControl,
+    timeLimitMs,
+    timeoutAction: timeoutAction as TimeoutAction,
+  };
+  return getRuleErrors(rules).length === 0 ? rules : null;
+};
+
+const parseIntent = (value: unknown): Intent | null => {
+  if (!isRecord(value)) return null;
+  switch (value.type) {
+    case 'PLAY': {
+      const { cardIds, declaredRank } = value;
+      return Array.isArray(cardIds) && cardIds.every(isString) && isRank(declaredRank)
+        ? { type: 'PLAY', cardIds, declaredRank, declaresLastCard: value.declaresLastCard === true }
+        : null;
+    }
+    case 'TAKE':
+    case 'CHALLENGE':
+    case 'CONCEDE':
+      return { type: value.type };
+    case 'DECLARE_LAST_CARD':
+    case 'REPORT_PENALTY': {
+      const { windowId } = value;
+      return typeof windowId === 'number' && Number.isInteger(windowId) ? { type: value.type, windowId } : null;
+    }
+    default:
+      return null;
+  }
+};
+
+// Clients are not trusted: anything malformed comes back as null.
+export const parseClientMessage = (raw: string): ClientMessage | null => {
+  let value: unknown;
+  try {
+    value = JSON.parse(raw);
+  } catch {
+    return null;
+  }
+  if (!isRecord(value)) return null;
+  switch (value.type) {
+    case 'CREATE_LOBBY': {
+      const rules = parseRules(value.rules);
+      return isString(value.name) && rules ? { type: 'CREATE_LOBBY', name: value.name, rules } : null;
+    }
+    case 'JOIN_LOBBY':
+      return isString(value.lobbyId) && isString(value.name) ? { type: 'JOIN_LOBBY', lobbyId: value.lobbyId, name: value.name } : null;
+    case 'RESUME':
+      return isString(value.lobbyId) && isString(value.token) ? { type: 'RESUME', lobbyId: value.lobbyId, token: value.token } : null;
+    case 'LEAVE':
+    case 'START':
+      return { type: value.type };
+    case 'INTENT': {
+      const intent = parseIntent(value.intent);
+      return intent ? { type: 'INTENT', intent } : null;
+    }
+    default:
+      return null;
+  }
+};
@@ -0,0 +1,71 @@
+import { DeckId, Rank, Suit } from './types';
+import { DECKS, MIN_PLAYERS, MAX_PLAYERS, RANKS, SUITS } from './constants';
+
+// Seeded randomness. Every random choice in a game (dealing, AI decisions,
+// cosmetic card jitter) is drawn from streams derived from a single seed. A
+// deal code holds it together with what else decides the deal (the table
+// size, the deck and the starter card), so it replays the exact same game.
+
+export type RandomSource = () => number;
+
+const SEED_CODE_LENGTH = 7;
+
+// mulberry32
+export const createRandom = (seed: number): RandomSource => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// FNV-1a
+const hashString = (value: string): number => {
+  let hash = 0x811C9DC5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+export const generateSeed = (): number => Math.floor(Math.random() * 0x100000000);
+
+// Independent stream for one consumer, so e.g. animation jitter never shifts AI decisions.
+export const forkRandom = (seed: number, stream: string): RandomSource => createRandom(seed ^ hashString(stream));
+
+// Stable value in [0, 1) for a given key, independent of call order.
+export const randomFromKey = (seed: number, key: string): number => forkRandom(seed, key)();
+
+export interface DealCode {
+  seed: number;
+  playerCount: number;
+  deck: DeckId;
+  starterCardId: string;
+}
+
+const DECK_IDS = Object.keys(DECKS) as DeckId[];
+
+// The table ("<players><deck><starter rank><starter suit>"), a dash and the seed, e.g. "2161-000QGLJ".
+export const toDealCode = ({ seed, playerCount, deck, starterCardId }: DealCode): string => {
+  const [rank, suit] = starterCardId.split('-');
+  const table = `${playerCount}${DECK_IDS.indexOf(deck)}${RANKS.indexOf(rank as Rank).toString(36)}${SUITS.indexOf(suit as Suit)}`;
+  return `${table}-${(seed >>> 0).toString(36).padStart(SEED_CODE_LENGTH, '0')}`.toUpperCase();
+};
+
+export const parseDealCode = (code: string): DealCode | null => {
+  const raw = code.replace(/[\s-]/g, '').toUpperCase();
+  if (!new RegExp(`^\\d{2}[0-9A-Z]\\d[0-9A-Z]{${SEED_CODE_LENGTH}}$`).test(raw)) return null;
+
+  const playerCount = Number(raw[0]);
+  const deck = DECK_IDS[Number(raw[1])];
+  const rank = RANKS[parseInt(raw[2], 36)];
+  const suit = SUITS[Number(raw[3])];
+  const seed = parseInt(raw.slice(4), 36);
+  if (playerCount < MIN_PLAYERS || playerCount > MAX_PLAYERS || seed > 0xFFFFFFFF) return null;
+  if (!deck || !suit || !DECKS[deck].ranks.includes(rank)) return null;
+  return { seed, playerCount, deck, starterCardId: `${rank}-${suit}` };
+};
@@ -0,0 +1,99 @@
+import { DeckId, Rank, RuleSet, TimeControl, TimeoutAction } from './types';
+import { DECKS, DEFAULT_RULES, SUITS } from './constants';
+
+// House rules: ready-made variants, validation and small helpers for the deck
+// they are played with.
+
+// A play never has more cards than there are suits.
+export const MAX_PLAY_SIZE = SUITS.length;
+export const MAX_TAKE_COUNT = 10;
+export const MAX_GRACE_MS = 10000;
+export const MIN_TIME_LIMIT_MS = 5000;
+export const MAX_TIME_LIMIT_MS = 60 * 60 * 1000;
+
+export const TIME_CONTROLS: TimeControl[] = ['off', 'turn', 'chess'];
+export const TIMEOUT_ACTIONS: TimeoutAction[] = ['take', 'pass', 'lose'];
+
+export type RulePresetId = 'classic' | 'loose' | 'merciless' | 'plain-opening';
+
+// Named under "rulePreset.<id>" in the message catalogs.
+export interface RulePreset {
+  id: RulePresetId;
+  rules: RuleSet;
+}
+
+export const RULE_PRESETS: RulePreset[] = [
+  { id: 'classic', rules: DEFAULT_RULES },
+  {
+    id: 'loose',
+    rules: { ...DEFAULT_RULES, playSizes: [1, 2, 3], openingSizes: [1, 2, 3, 4] },
+  },
+  {
+    id: 'merciless',
+    rules: { ...DEFAULT_RULES, playSizes: [1, 3, 4], faceUpFourOfAKind: false, penaltyCount: 5, lastCardGraceMs: 1000 },
+  },
+  {
+    id: 'plain-opening',
+    rules: { ...DEFAULT_RULES, openingSizes: [1], isStarterPermanent: false },
+  },
+];
+
+export const isSameRuleSet = (a: RuleSet, b: RuleSet): boolean => JSON.stringify(a) === JSON.stringify(b);
+
+export const getStarterRank = (rules: RuleSet): Rank => rules.starterCardId.slice(0, rules.starterCardId.lastIndexOf('-')) as Rank;
+
+export const getDeckRanks = (rules: RuleSet): Rank[] => DECKS[rules.deck].ranks;
+
+// How many cards of one rank the deck holds, e.g. for deciding a claim is impossible.
+export const getCopiesPerRank = (rules: RuleSet): number => SUITS.length * DECKS[rules.deck].copies;
+
+// Switches the deck; a starter card the new deck lacks becomes its lowest rank in the same suit.
+export const changeDeck = (rules: RuleSet, deck: DeckId): RuleSet => {
+  const ranks = DECKS[deck].ranks;
+  const suit = rules.starterCardId.slice(rules.starterCardId.lastIndexOf('-') + 1);
+  return ranks.includes(getStarterRank(rules)) ? { ...rules, deck } : { ...rules, deck, starterCardId: `${ranks[0]}-${suit}` };
+};
+
+// Presets cover the rules of play: the deck and the time control of the table stay as they are.
+export const applyPreset = (rules: RuleSet, preset: RulePreset): RuleSet => ({
+  ...changeDeck(preset.rules, rules.deck),
+  timeControl: rules.timeControl,
+  timeLimitMs: rules.timeLimitMs,
+  timeoutAction: rules.timeoutAction,
+});
+
+const isCountList = (counts: number[]): boolean =>
+  counts.length > 0 &&
+  new Set(counts).size === counts.length &&
+  counts.every(count => Number.isInteger(count) && count >= 1 && count <= MAX_PLAY_SIZE);
+
+const isCount = (value: number, min: number, max: number): boolean => Number.isInteger(value) && value >= min && value <= max;
+
+// Empty when the rule set can be played.
+export const getRuleErrors = (rules: RuleSet): string[] => {
+  const errors: string[] = [];
+  const suit = rules.starterCardId.slice(rules.starterCardId.lastIndexOf('-') + 1);
+  if (!Object.keys(DECKS).includes(rules.deck)) return [`Unknown deck ${rules.deck}`];
+  if (!isCountList(rules.playSizes)) errors.push(`Play sizes must be distinct numbers from 1 to ${MAX_PLAY_SIZE}`);
+  // Otherwise a player holding fewer cards than the smallest play could be stuck.
+  if (!rules.playSizes.includes(1)) errors.push('Play sizes must include single cards');
+  if (!isCountList(rules.openingSizes)) errors.push(`Opening sizes must be distinct numbers from 1 to ${MAX_PLAY_SIZE}`);
+  if (!isCount(rules.takeCount, 1, MAX_TAKE_COUNT)) errors.push(`Take count must be between 1 and ${MAX_TAKE_COUNT}`);
+  if (!isCount(rules.penaltyCount, 1, MAX_TAKE_COUNT)) errors.push(`Penalty count must be between 1 and ${MAX_TAKE_COUNT}`);
+  if (!isCount(rules.lastCardGraceMs, 0, MAX_GRACE_MS)) errors.push(`Grace period must be between 0 and ${MAX_GRACE_MS} ms`);
+  if (!TIME_CONTROLS.includes(rules.timeControl)) errors.push(`Unknown time control ${rules.timeControl}`);
+  if (!isCount(rules.timeLimitMs, MIN_TIME_LIMIT_MS, MAX_TIME_LIMIT_MS)) {
+    errors.push(`Time limit must be between ${MIN_TIME_LIMIT_MS} and ${MAX_TIME_LIMIT_MS} ms`);
+  }
+  if (!TIMEOUT_ACTIONS.includes(rules.timeoutAction)) errors.push(`Unknown timeout action ${rules.timeoutAction}`);
+  if (!getDeckRanks(rules).includes(getStarterRank(rules)) || !SUITS.some(s => s === suit)) {
+    errors.push(`Starter card ${rules.starterCardId} is not in the ${rules.deck} deck`);
+  }
+  return errors;
+};
+
+// Sizes an honest play of one rank may have, largest first.
+export const getHonestPlaySizes = (rules: RuleSet): number[] => {
+  const sizes = rules.faceUpFourOfAKind ? [...rules.playSizes, SUITS.length] : rules.playSizes;
+  return [...new Set(sizes)].sort((a, b) => b - a);
+};
@@ -0,0 +1,51 @@
+import { WebSocket, WebSocketServer } from 'ws';
+import { createGameServer } from './gameServer';
+import { DEFAULT_SERVER_PORT } from './protocol';
+
+// Game server for network play on a LAN:
+//   npm run server -- --port 8787
+
+// Connections that stop answering pings are closed, so their seats show as
+// disconnected and can be resumed from a fresh connection.
+const HEARTBEAT_MS = 15000;
+const MAX_MESSAGE_BYTES = 16 * 1024;
+
+const readOption = (args: string[], name: string): string | undefined => {
+  const index = args.indexOf(`--${name}`);
+  return index === -1 ? undefined : args[index + 1];
+};
+
+const port = Number(readOption(process.argv.slice(2), 'port') ?? process.env.PORT ?? DEFAULT_SERVER_PORT);
+if (!Number.isInteger(port) || port < 1 || port > 65535) {
+  console.error('--port must be an integer between 1 and 65535');
+  process.exit(1);
+}
+
+const gameServer = createGameServer();
+const wss = new WebSocketServer({ port, maxPayload: MAX_MESSAGE_BYTES });
+const alive = new WeakSet<WebSocket>();
+
+wss.on('connection', socket => {
+  alive.add(socket);
+  socket.on('pong', () => alive.add(socket));
+  gameServer.handleConnection(socket);
+});
+
+const heartbeat = setInterval(() => {
+  wss.clients.forEach(socket => {
+    if (!alive.has(socket)) return socket.terminate();
+    alive.delete(socket);
+    socket.ping();
+  });
+}, HEARTBEAT_MS);
+
+wss.on('listening', () => console.log(`OSZUST server listening on port ${port}`));
+
+const shutdown = () => {
+  clearInterval(heartbeat);
+  gameServer.close();
+  wss.close(() => process.exit(0));
+  wss.clients.forEach(socket => socket.terminate());
+};
+process.on('SIGINT', shutdown);
+process.on('SIGTERM', shutdown);
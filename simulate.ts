@@ -0,0 +1,71 @@
+import { DeckId } from './types';
+import { DECKS, MAX_PLAYERS, MIN_PLAYERS } from './constants';
+import { getAiStrategies } from './strategies';
+import { DEFAULT_EXPERT_ITERATIONS, runSimulation, wilsonInterval } from './simulation';
+import { RULE_PRESETS, changeDeck } from './rules';
+import { generateSeed } from './random';
+
+// Command-line runner for AI-vs-AI games:
+//   npm run simulate -- --bots hard,normal,easy --games 1000 --seed 42 --rules classic --deck full --expert-iterations 200
+
+const USAGE = 'Usage: npm run simulate -- --bots <id>,<id>[,...] [--games <n>] [--seed <n>] [--rules <preset>] [--deck <id>] [--expert-iterations <n>]';
+
+const readOption = (args: string[], name: string): string | undefined => {
+  const index = args.indexOf(`--${name}`);
+  return index === -1 ? undefined : args[index + 1];
+};
+
+const percent = (value: number): string => `${(value * 100).toFixed(1)}%`;
+
+const ratio = (part: number, whole: number): string => (whole === 0 ? '-' : percent(part / whole));
+
+const main = async () => {
+  const args = process.argv.slice(2);
+  const knownIds = getAiStrategies().map(strategy => strategy.id);
+  const strategyIds = (readOption(args, 'bots') ?? '').split(',').filter(Boolean);
+  const games = Number(readOption(args, 'games') ?? 1000);
+  const seed = Number(readOption(args, 'seed') ?? generateSeed());
+  const presetId = readOption(args, 'rules') ?? RULE_PRESETS[0].id;
+  const preset = RULE_PRESETS.find(p => p.id === presetId);
+  const deck = (readOption(args, 'deck') ?? preset?.rules.deck) as DeckId;
+  const expertIterations = Number(readOption(args, 'expert-iterations') ?? DEFAULT_EXPERT_ITERATIONS);
+
+  if (strategyIds.length < MIN_PLAYERS || strategyIds.length > MAX_PLAYERS) {
+    throw new Error(`Give ${MIN_PLAYERS} to ${MAX_PLAYERS} bots. ${USAGE}`);
+  }
+  const unknownId = strategyIds.find(id => !knownIds.includes(id));
+  if (unknownId) throw new Error(`Unknown bot "${unknownId}", expected one of: ${knownIds.join(', ')}`);
+  if (!Number.isInteger(games) || games < 1) throw new Error(`--games must be a positive integer. ${USAGE}`);
+  if (!Number.isInteger(seed) || seed < 0) throw new Error(`--seed must be a non-negative integer. ${USAGE}`);
+  if (!Number.isInteger(expertIterations) || expertIterations < 1) throw new Error(`--expert-iterations must be a positive integer. ${USAGE}`);
+  if (!preset) throw new Error(`Unknown rules "${presetId}", expected one of: ${RULE_PRESETS.map(p => p.id).join(', ')}`);
+  if (!Object.keys(DECKS).includes(deck)) throw new Error(`Unknown deck "${deck}", expected one of: ${Object.keys(DECKS).join(', ')}`);
+
+  console.log(`Playing ${games} games: ${strategyIds.join(' vs ')} (seed ${seed}, ${preset.id} rules, ${deck} deck)`);
+  const report = await runSimulation(strategyIds, games, seed, finished => {
+    if (finished % 100 === 0 && finished < games) console.log(`  ${finished}/${games}`);
+  }, changeDeck(preset.rules, deck), expertIterations);
+
+  const finishedGames = report.games - report.unfinished;
+  console.log('');
+  console.log(`Average game: ${(report.totalMoves / report.games).toFixed(1)} moves, ${(report.totalDurationMs / report.games / 60000).toFixed(1)} min of table time`);
+  if (report.unfinished > 0) console.log(`Unfinished games: ${report.unfinished}`);
+  console.log('');
+  console.table(report.bots.map((bot, index) => {
+    const interval = wilsonInterval(bot.wins, finishedGames);
+    return {
+      bot: `${index + 1}:${bot.strategyId}`,
+      'win rate': percent(finishedGames === 0 ? 0 : bot.wins / finishedGames),
+      '95% CI': `${percent(interval.low)}-${percent(interval.high)}`,
+      'bluff rate': ratio(bot.bluffs, bot.challengeablePlays),
+      'challenge accuracy': ratio(bot.correctChallenges, bot.challenges),
+      'missed last card / game': (bot.missedLastCards / bot.games).toFixed(2),
+      'penalties / game': (bot.penaltiesTaken / bot.games).toFixed(2),
+    };
+  }));
+};
+
+main().catch(error => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,296 @@
+import { GameAction, GameState, Player, RuleSet } from './types';
+import { AI_QUICK_MOVE_MS, AI_THINK_MS, BLUFF_REVEAL_MS, DEFAULT_RULES, PENALTY_WINDOW_MS, PLAY_ANIMATION_MS } from './constants';
+import { createGame, reduce, getCurrentPlayer, isBluff } from './engine';
+import { AiPlay, AiStrategy, getAiView, toLegalAiAction } from './ai';
+import { createClock, getRemainingMs, syncClock } from './clock';
+import { getAiStrategy } from './strategies';
+import { createExpertStrategy } from './expertAi';
+import { RandomSource, createRandom, forkRandom } from './random';
+
+// Headless AI-vs-AI games. A game is driven the way the app drives it (turn
+// pauses, play animation, bluff reveal, last-card grace period, penalty
+// reactions and the turn clock all use the app's timings), but in simulated
+// time: pending timers are kept in a queue and time jumps straight to the
+// next one.
+//
+// The expert searches a fixed number of iterations instead of for a time on
+// the wall clock: that keeps games quick and makes a seeded run play out the
+// same on any machine.
+
+export interface SimulatedGame {
+  // Index into the strategy list passed to simulateGame, or null if the game hit the time limit.
+  winnerIndex: number | null;
+  durationMs: number;
+  game: GameState;
+}
+
+interface Timer {
+  key: string;
+  at: number;
+  run: () => void | Promise<void>;
+}
+
+// A game that runs longer than this on the simulated clock is called off.
+const MAX_GAME_MS = 4 * 60 * 60 * 1000;
+
+export const DEFAULT_EXPERT_ITERATIONS = 200;
+
+const createStrategyLookup = (expertIterations: number): ((id: string | undefined) => AiStrategy) => {
+  const expert = createExpertStrategy('expert', { timeMs: Infinity, maxIterations: expertIterations });
+  return id => (id === expert.id ? expert : getAiStrategy(id));
+};
+
+const thinkDelay = (random: RandomSource): number => AI_THINK_MS.base + random() * AI_THINK_MS.spread;
+
+export const simulateGame = async (
+  strategyIds: string[],
+  seed: number,
+  rules: RuleSet = DEFAULT_RULES,
+  expertIterations = DEFAULT_EXPERT_ITERATIONS
+): Promise<SimulatedGame> => {
+  const getStrategy = createStrategyLookup(expertIterations);
+  const seats: Omit<Player, 'hand'>[] = strategyIds.map((strategyId, index) => ({
+    id: index + 1,
+    name: `${index + 1}:${strategyId}`,
+    isHuman: false,
+    strategyId,
+  }));
+  const random = forkRandom(seed, 'ai');
+  let game = createGame(seats, seed, rules);
+  let now = 0;
+  // What the app shows between a decision and its dispatch; bots wait it out.
+  let pendingReveal: 'play' | 'bluff' | null = null;
+  // Timers the app keeps regardless of table changes (animation and reveal endings).
+  const fixedTimers: Timer[] = [];
+  // Timers owned by effects, re-created whenever their key changes.
+  let effectTimers: Timer[] = [];
+  let clock = rules.timeControl === 'off' ? null : createClock(game, now);
+  // When the pending missed last-card call was made; reaction times count from it.
+  let penaltySince = { id: -1, at: 0 };
+
+  const dispatch = (action: GameAction) => { game = reduce(game, action); };
+
+  const afterReveal = (kind: 'play' | 'bluff', delay: number, action: GameAction) => {
+    pendingReveal = kind;
+    fixedTimers.push({ key: 'reveal', at: now + delay, run: () => { pendingReveal = null; dispatch(action); } });
+  };
+
+  // A refused play is replaced as in the app, so it shows no animation.
+  const playAi = (playerId: number, play: AiPlay) => {
+    const action = toLegalAiAction(game, playerId, play);
+    if (action.type === 'PLAY') afterReveal('play', PLAY_ANIMATION_MS, action);
+    else dispatch(action);
+  };
+
+  // Mirrors the app's effects: which timers should exist for the current table.
+  const wantedTimers = async (): Promise<Timer[]> => {
+    const wanted: Timer[] = [];
+    const existing = (key: string) => effectTimers.find(timer => timer.key === key);
+    const keep = async (key: string, create: () => Promise<Timer> | Timer) => { wanted.push(existing(key) ?? await create()); };
+
+    const current = getCurrentPlayer(game);
+    const { penalty, finalPlay } = game;
+    const stamp = game.events.length;
+
+    if (!finalPlay && !pendingReveal && !penalty) {
+      await keep(`turn:${stamp}`, async () => {
+        const strategy = getStrategy(current.strategyId);
+        const view = getAiView(game, current.id);
+        if (game.isOpeningMoveAvailable) {
+          const opening = await strategy.chooseOpening(view, random);
+          return {
+            key: `turn:${stamp}`,
+            at: now + AI_QUICK_MOVE_MS,
+            run: () => playAi(current.id, opening),
+          };
+        }
+        const move = await strategy.chooseMove(view, random);
+        switch (move.type) {
+          case 'CHALLENGE':
+            return {
+              key: `turn:${stamp}`,
+              at: now + AI_QUICK_MOVE_MS,
+              run: () => {
+                const target = game.finalPlay ?? game.lastPlay;
+                if (target && isBluff(target)) afterReveal('bluff', BLUFF_REVEAL_MS, { type: 'CHALLENGE', playerId: current.id });
+                else dispatch({ type: 'CHALLENGE', playerId: current.id });
+              },
+            };
+          case 'TAKE':
+            return { key: `turn:${stamp}`, at: now + thinkDelay(random), run: () => dispatch({ type: 'TAKE', playerId: current.id }) };
+          case 'PLAY':
+            return {
+              key: `turn:${stamp}`,
+              at: now + thinkDelay(random),
+              run: () => playAi(current.id, move),
+            };
+        }
+      });
+    }
+
+    if (finalPlay && pendingReveal !== 'bluff') {
+      const key = `final:${game.events.findIndex(e => e.type === 'FinalPlayPending')}:${current.id}`;
+      await keep(key, () => {
+        const shouldChallenge = getStrategy(current.strategyId).shouldChallengeFinalPlay(getAiView(game, current.id), random);
+        return {
+          key,
+          at: now + thinkDelay(random),
+          run: () => {
+            if (!shouldChallenge) return dispatch({ type: 'CONCEDE', playerId: current.id });
+            const target = game.finalPlay;
+            if (target && isBluff(target)) afterReveal('bluff', BLUFF_REVEAL_MS, { type: 'CHALLENGE', playerId: current.id });
+            else dispatch({ type: 'CHALLENGE', playerId: current.id });
+          },
+        };
+      });
+    }
+
+    if (clock && clock.runningId !== null) {
+      const playerId = clock.runningId;
+      const at = now + getRemainingMs(clock, playerId, now);
+      await keep(`clock:${playerId}:${at}`, () => ({ key: `clock:${playerId}:${at}`, at, run: () => dispatch({ type: 'TIME_OUT', playerId }) }));
+    }
+
+    if (penalty) {
+      if (penaltySince.id !== penalty.id) penaltySince = { id: penalty.id, at: now };
+      const windowId = penalty.id;
+      const penaltyKey = `${windowId}:${penalty.isOpen}`;
+      const elapsedMs = () => now - penaltySince.at;
+      if (!penalty.isOpen) {
+        await keep(`grace:${penaltyKey}`, () => ({
+          key: `grace:${penaltyKey}`,
+          at: penaltySince.at + rules.lastCardGraceMs,
+          run: () => dispatch({ type: 'OPEN_PENALTY_WINDOW', windowId }),
+        }));
+      } else {
+        await keep(`close:${penaltyKey}`, () => ({
+          key: `close:${penaltyKey}`,
+          at: penaltySince.at + rules.lastCardGraceMs + PENALTY_WINDOW_MS,
+          run: () => dispatch({ type: 'CLOSE_PENALTY_WINDOW', windowId, elapsedMs: elapsedMs() }),
+        }));
+        for (const bot of game.players) {
+          const key = `react:${penaltyKey}:${bot.id}`;
+          if (existing(key)) {
+            wanted.push(existing(key)!);
+            continue;
+          }
+          const delay = getStrategy(bot.strategyId).reactToPenaltyWindow(getAiView(game, bot.id), random);
+          if (delay === null) continue;
+          const type = bot.id === penalty.offenderId ? 'DECLARE_LAST_CARD' : 'REPORT_PENALTY';
+          wanted.push({ key, at: now + delay, run: () => dispatch({ type, playerId: bot.id, windowId, elapsedMs: elapsedMs() }) });
+        }
+      }
+    }
+    return wanted;
+  };
+
+  while (game.winnerId === null && now < MAX_GAME_MS) {
+    if (clock) clock = syncClock(clock, game, now, pendingReveal !== null);
+    effectTimers = await wantedTimers();
+    const queue = [...fixedTimers, ...effectTimers];
+    if (queue.length === 0) break;
+
+    const next = queue.reduce((earliest, timer) => (timer.at < earliest.at ? timer : earliest));
+    now = next.at;
+    if (fixedTimers.includes(next)) fixedTimers.splice(fixedTimers.indexOf(next), 1);
+    else effectTimers = effectTimers.filter(timer => timer !== next);
+    await next.run();
+  }
+
+  const winnerIndex = game.winnerId === null ? null : game.players.findIndex(p => p.id === game.winnerId);
+  return { winnerIndex, durationMs: now, game };
+};
+
+// STATISTICS
+export interface BotStats {
+  strategyId: string;
+  games: number;
+  wins: number;
+  challengeablePlays: number;
+  bluffs: number;
+  challenges: number;
+  correctChallenges: number;
+  missedLastCards: number;
+  penaltiesTaken: number;
+}
+
+export interface SimulationReport {
+  games: number;
+  unfinished: number;
+  totalMoves: number;
+  totalDurationMs: number;
+  bots: BotStats[];
+}
+
+// 95% Wilson score interval for a win rate.
+export const wilsonInterval = (successes: number, trials: number, z = 1.96): { low: number; high: number } => {
+  if (trials === 0) return { low: 0, high: 0 };
+  const p = successes / trials;
+  const denominator = 1 + (z * z) / trials;
+  const centre = (p + (z * z) / (2 * trials)) / denominator;
+  const margin = (z * Math.sqrt((p * (1 - p)) / trials + (z * z) / (4 * trials * trials))) / denominator;
+  return { low: Math.max(0, centre - margin), high: Math.min(1, centre + margin) };
+};
+
+const permutations = (items: number[]): number[][] =>
+  items.length <= 1
+    ? [items]
+    : items.flatMap((item, index) => permutations(items.filter((_, i) => i !== index)).map(rest => [item, ...rest]));
+
+// Plays `games` games between the given strategies, cycling through every
+// seating order: who sits after whom (and so calls whose claims) matters as
+// much as the seat itself.
+export const runSimulation = async (
+  strategyIds: string[],
+  games: number,
+  seed: number,
+  onProgress?: (finished: number) => void,
+  rules: RuleSet = DEFAULT_RULES,
+  expertIterations = DEFAULT_EXPERT_ITERATIONS
+): Promise<SimulationReport> => {
+  const bots: BotStats[] = strategyIds.map(strategyId => ({
+    strategyId, games: 0, wins: 0, challengeablePlays: 0, bluffs: 0, challenges: 0, correctChallenges: 0, missedLastCards: 0, penaltiesTaken: 0,
+  }));
+  const report: SimulationReport = { games, unfinished: 0, totalMoves: 0, totalDurationMs: 0, bots };
+  const seeds = createRandom(seed);
+  const seatings = permutations(strategyIds.map((_, index) => index));
+
+  for (let g = 0; g < games; g++) {
+    const seating = seatings[g % seatings.length];
+    const result = await simulateGame(seating.map(index => strategyIds[index]), Math.floor(seeds() * 0x100000000), rules, expertIterations);
+    const botOf = (playerId: number) => bots[seating[playerId - 1]];
+
+    seating.forEach(index => bots[index].games++);
+    if (result.winnerIndex === null) report.unfinished++;
+    else bots[seating[result.winnerIndex]].wins++;
+    report.totalDurationMs += result.durationMs;
+
+    result.game.events.forEach(event => {
+      switch (event.type) {
+        case 'CardsPlayed':
+          report.totalMoves++;
+          if (event.isChallengeable) {
+            botOf(event.playerId).challengeablePlays++;
+            if (event.cards.some(card => card.rank !== event.declaredRank)) botOf(event.playerId).bluffs++;
+          }
+          break;
+        case 'PileTaken':
+          report.totalMoves++;
+          break;
+        case 'ChallengeResolved':
+          report.totalMoves++;
+          botOf(event.challengerId).challenges++;
+          if (event.wasBluff) botOf(event.challengerId).correctChallenges++;
+          break;
+        case 'LastCardMissed':
+          botOf(event.playerId).missedLastCards++;
+          break;
+        case 'PenaltyApplied':
+          botOf(event.offenderId).penaltiesTaken++;
+          break;
+      }
+    });
+    onProgress?.(g + 1);
+  }
+  return report;
+};
@@ -0,0 +1,134 @@
+import { GameEvent } from './types';
+
+// Sound cues and vibration for the table. The cues are synthesized with the
+// Web Audio API, so no audio files are fetched; they follow the engine's
+// event log like the screen reader announcements do.
+
+export type SoundCue = 'play' | 'challenge' | 'bluffRevealed' | 'honestPlay' | 'lastCard' | 'penaltyTick' | 'win' | 'lose';
+
+// Times in seconds from the start of the cue; 'noise' is white noise through a band-pass at `frequency`.
+interface Note {
+  wave: OscillatorType | 'noise';
+  frequency: number;
+  // Glides to it over the note.
+  endFrequency?: number;
+  at: number;
+  duration: number;
+  gain: number;
+}
+
+const tune = (frequencies: number[], step: number, duration: number, at = 0): Note[] =>
+  frequencies.map((frequency, i) => ({ wave: 'triangle', frequency, at: at + i * step, duration, gain: 0.5 }));
+
+// The challenge outcomes leave room for the "Sprawdzam!" sting when it is played together with them.
+const CUES: { [key in SoundCue]: Note[] } = {
+  play: [{ wave: 'noise', frequency: 2500, at: 0, duration: 0.14, gain: 0.6 }],
+  challenge: [
+    { wave: 'sawtooth', frequency: 440, endFrequency: 220, at: 0, duration: 0.3, gain: 0.3 },
+    { wave: 'square', frequency: 110, at: 0, duration: 0.3, gain: 0.2 },
+  ],
+  bluffRevealed: tune([392, 311, 233], 0.2, 0.25, 0.4),
+  honestPlay: tune([523, 659, 784], 0.1, 0.2, 0.4),
+  lastCard: [
+    { wave: 'sine', frequency: 880, at: 0, duration: 0.12, gain: 0.5 },
+    { wave: 'sine', frequency: 880, at: 0.18, duration: 0.12, gain: 0.5 },
+  ],
+  penaltyTick: [{ wave: 'square', frequency: 1200, at: 0, duration: 0.04, gain: 0.15 }],
+  win: [...tune([523, 659, 784], 0.15, 0.15), ...tune([1047], 0, 0.5, 0.45)],
+  lose: [...tune([392, 370, 349], 0.25, 0.25), ...tune([330], 0, 0.6, 0.75)],
+};
+
+// Milliseconds on, off, on...
+const VIBRATIONS: Partial<{ [key in GameEvent['type']]: number[] }> = {
+  PenaltyApplied: [250],
+};
+
+// A challenge is felt as soon as it is called, before a caught bluff has been shown.
+export const CHALLENGE_VIBRATION = [80, 60, 80];
+
+// `seatIds` are the seats played on this device: their wins sound like one.
+// A resolved challenge only gives its outcome; the sting goes with the call.
+export const getEventCues = (event: GameEvent, seatIds: number[]): SoundCue[] => {
+  switch (event.type) {
+    case 'CardsPlayed': return ['play'];
+    case 'ChallengeResolved': return [event.wasBluff ? 'bluffRevealed' : 'honestPlay'];
+    case 'LastCardDeclared':
+    case 'LastCardMissed': return ['lastCard'];
+    case 'PenaltyWindowOpened': return ['penaltyTick'];
+    case 'GameWon': return [seatIds.includes(event.playerId) ? 'win' : 'lose'];
+    default: return [];
+  }
+};
+
+export const getEventVibration = (event: GameEvent): number[] | null => VIBRATIONS[event.type] ?? null;
+
+// Does nothing where the device cannot vibrate.
+export const vibrate = (pattern: number[]): void => {
+  if (typeof navigator !== 'undefined' && 'vibrate' in navigator) navigator.vibrate(pattern);
+};
+
+export interface SoundPlayer {
+  // `volume` runs from 0 to 1.
+  play: (cue: SoundCue, volume: number) => void;
+}
+
+// The audio context is only created with the first cue: browsers keep it
+// suspended until the page has been interacted with.
+export const createSoundPlayer = (): SoundPlayer => {
+  let context: AudioContext | null = null;
+  let noise: AudioBuffer | null = null;
+
+  const getContext = (): AudioContext | null => {
+    if (!context && typeof AudioContext !== 'undefined') context = new AudioContext();
+    if (context?.state === 'suspended') void context.resume();
+    return context;
+  };
+
+  const getNoise = (audio: AudioContext): AudioBuffer => {
+    if (!noise) {
+      noise = audio.createBuffer(1, audio.sampleRate, audio.sampleRate);
+      const samples = noise.getChannelData(0);
+      for (let i = 0; i < samples.length; i++) samples[i] = Math.random() * 2 - 1;
+    }
+    return noise;
+  };
+
+  const playNote = (audio: AudioContext, note: Note, volume: number) => {
+    const start = audio.currentTime + note.at;
+    const end = start + note.duration;
+    const gain = audio.createGain();
+    // A short attack and an exponential decay keep the notes from clicking.
+    gain.gain.setValueAtTime(0.0001, start);
+    gain.gain.exponentialRampToValueAtTime(note.gain * volume, start + 0.01);
+    gain.gain.exponentialRampToValueAtTime(0.0001, end);
+    gain.connect(audio.destination);
+
+    let source: AudioScheduledSourceNode;
+    if (note.wave === 'noise') {
+      const buffer = audio.createBufferSource();
+      buffer.buffer = getNoise(audio);
+      const filter = audio.createBiquadFilter();
+      filter.type = 'bandpass';
+      filter.frequency.value = note.frequency;
+      buffer.connect(filter).connect(gain);
+      source = buffer;
+    } else {
+      const oscillator = audio.createOscillator();
+      oscillator.type = note.wave;
+      oscillator.frequency.setValueAtTime(note.frequency, start);
+      if (note.endFrequency) oscillator.frequency.exponentialRampToValueAtTime(note.endFrequency, end);
+      oscillator.connect(gain);
+      source = oscillator;
+    }
+    source.start(start);
+    source.stop(end);
+  };
+
+  return {
+    play: (cue, volume) => {
+      const audio = getContext();
+      if (!audio || volume <= 0) return;
+      CUES[cue].forEach(note => playNote(audio, note, volume));
+    },
+  };
+};
@@ -0,0 +1,114 @@
+import { GameState } from './types';
+import { DEFAULT_STRATEGY_ID } from './strategies';
+
+// Long-term statistics of the humans at this device, built from the event log
+// of every finished game: plays, challenges, pile pickups and penalties are all
+// recorded there already.
+
+// Opponent type for human opponents; computer opponents use their strategy id.
+export const HUMAN_OPPONENT = 'human';
+
+export interface OpponentRecord {
+  games: number;
+  wins: number;
+}
+
+export interface PlayerStats {
+  games: number;
+  wins: number;
+  // A game counts once for every type of opponent at the table.
+  byOpponent: { [opponentType: string]: OpponentRecord };
+  // Challengeable plays, and how many of them were bluffs.
+  plays: number;
+  bluffs: number;
+  bluffsCaught: number;
+  challenges: number;
+  correctChallenges: number;
+  pilesCollected: number;
+  cardsCollected: number;
+  largestPile: number;
+  penaltiesSuffered: number;
+  penaltiesIssued: number;
+  // Practice games allow undo, so they are only counted here and never in the figures above.
+  practiceGames: number;
+}
+
+export const createEmptyStats = (): PlayerStats => ({
+  games: 0,
+  wins: 0,
+  byOpponent: {},
+  plays: 0,
+  bluffs: 0,
+  bluffsCaught: 0,
+  challenges: 0,
+  correctChallenges: 0,
+  pilesCollected: 0,
+  cardsCollected: 0,
+  largestPile: 0,
+  penaltiesSuffered: 0,
+  penaltiesIssued: 0,
+  practiceGames: 0,
+});
+
+// Adds a finished game played at the given seats. A hot-seat game counts once,
+// as a game of the humans at this device: it is won when any of their seats
+// wins, its opponents are the seats played elsewhere, and the figures below
+// add up what those seats did.
+export const recordGame = (stats: PlayerStats, game: GameState, seatIds: number[]): PlayerStats => {
+  const next: PlayerStats = { ...stats, byOpponent: { ...stats.byOpponent } };
+  const isSeat = (playerId: number | null) => playerId !== null && seatIds.includes(playerId);
+  const isWin = isSeat(game.winnerId);
+  next.games++;
+  if (isWin) next.wins++;
+
+  const opponentTypes = new Set(game.players.filter(p => !isSeat(p.id)).map(p => (p.isHuman ? HUMAN_OPPONENT : p.strategyId ?? DEFAULT_STRATEGY_ID)));
+  opponentTypes.forEach(type => {
+    const record = next.byOpponent[type] ?? { games: 0, wins: 0 };
+    next.byOpponent[type] = { games: record.games + 1, wins: record.wins + (isWin ? 1 : 0) };
+  });
+
+  game.events.forEach(event => {
+    switch (event.type) {
+      case 'CardsPlayed':
+        if (!isSeat(event.playerId) || !event.isChallengeable) break;
+        next.plays++;
+        if (event.cards.some(card => card.rank !== event.declaredRank)) next.bluffs++;
+        break;
+      case 'ChallengeResolved':
+        if (isSeat(event.challengedId) && event.wasBluff) next.bluffsCaught++;
+        if (isSeat(event.challengerId)) {
+          next.challenges++;
+          if (event.wasBluff) next.correctChallenges++;
+        }
+        if (isSeat(event.takerId)) {
+          next.pilesCollected++;
+          next.cardsCollected += event.takenCount;
+          next.largestPile = Math.max(next.largestPile, event.takenCount);
+        }
+        break;
+      case 'PenaltyApplied':
+        if (isSeat(event.offenderId)) next.penaltiesSuffered++;
+        if (isSeat(event.reporterId)) next.penaltiesIssued++;
+        break;
+    }
+  });
+  return next;
+};
+
+export const recordPracticeGame = (stats: PlayerStats): PlayerStats => ({ ...stats, practiceGames: stats.practiceGames + 1 });
+
+// EXPORT
+export const formatStatsJson = (stats: PlayerStats): string => JSON.stringify(stats, null, 2);
+
+// One value per row; per-opponent rows name the opponent type, totals leave it empty.
+export const formatStatsCsv = (stats: PlayerStats): string => {
+  const rows: (string | number)[][] = [['statistic', 'opponent', 'value']];
+  (Object.keys(stats) as (keyof PlayerStats)[]).forEach(key => {
+    const value = stats[key];
+    if (typeof value === 'number') rows.push([key, '', value]);
+  });
+  Object.entries(stats.byOpponent).forEach(([opponent, record]) => {
+    rows.push(['games', opponent, record.games], ['wins', opponent, record.wins]);
+  });
+  return rows.map(row => row.join(',')).join('\n') + '\n';
+};
@@ -0,0 +1,148 @@
+import { GameState, SeatConfig } from './types';
+import { PlayerStats, createEmptyStats } from './stats';
+import { Match } from './match';
+import { DEFAULT_LOCALE, Locale, isLocale } from './i18n';
+
+// Persistence in localStorage. Reads never throw: missing, corrupt or
+// outdated entries are treated as absent.
+
+const SAVED_GAME_KEY = 'oszust.savedGame';
+const SAVED_GAME_VERSION = 10;
+
+export interface SavedGame {
+  version: number;
+  savedAt: number;
+  seats: SeatConfig[];
+  game: GameState;
+  isPractice: boolean;
+  // The match the game belongs to, with the results of its earlier games.
+  match: Match | null;
+}
+
+export const readJson = <T,>(key: string): T | null => {
+  try {
+    const raw = localStorage.getItem(key);
+    return raw ? (JSON.parse(raw) as T) : null;
+  } catch {
+    return null;
+  }
+};
+
+export const writeJson = (key: string, value: unknown): void => {
+  try {
+    localStorage.setItem(key, JSON.stringify(value));
+  } catch {
+    // Storage full or disabled (e.g. private mode); the game simply is not persisted.
+  }
+};
+
+export const removeKey = (key: string): void => {
+  try {
+    localStorage.removeItem(key);
+  } catch {
+    // See writeJson.
+  }
+};
+
+const isSavedGame = (value: SavedGame | null): value is SavedGame =>
+  !!value &&
+  value.version === SAVED_GAME_VERSION &&
+  Array.isArray(value.seats) &&
+  typeof value.isPractice === 'boolean' &&
+  (value.match === null || (typeof value.match === 'object' && Array.isArray(value.match.results) && Array.isArray(value.match.players))) &&
+  !!value.game &&
+  Array.isArray(value.game.players) &&
+  Array.isArray(value.game.discardPile) &&
+  Array.isArray(value.game.events) &&
+  value.game.winnerId === null;
+
+export const loadSavedGame = (): SavedGame | null => {
+  const saved = readJson<SavedGame>(SAVED_GAME_KEY);
+  return isSavedGame(saved) ? saved : null;
+};
+
+export const saveGame = (game: GameState, seats: SeatConfig[], isPractice: boolean, match: Match | null): void => {
+  const saved: SavedGame = { version: SAVED_GAME_VERSION, savedAt: Date.now(), seats, game, isPractice, match };
+  writeJson(SAVED_GAME_KEY, saved);
+};
+
+export const clearSavedGame = (): void => removeKey(SAVED_GAME_KEY);
+
+// NETWORK SESSION
+// Lets a reloaded page take its seat back at a network table.
+const NETWORK_SESSION_KEY = 'oszust.networkSession';
+
+export interface NetworkSession {
+  url: string;
+  lobbyId: string;
+  token: string;
+  seatId: number;
+}
+
+const isNetworkSession = (value: NetworkSession | null): value is NetworkSession =>
+  !!value && typeof value.url === 'string' && typeof value.lobbyId === 'string' && typeof value.token === 'string' && typeof value.seatId === 'number';
+
+export const loadNetworkSession = (): NetworkSession | null => {
+  const session = readJson<NetworkSession>(NETWORK_SESSION_KEY);
+  return isNetworkSession(session) ? session : null;
+};
+
+export const saveNetworkSession = (session: NetworkSession): void => writeJson(NETWORK_SESSION_KEY, session);
+
+export const clearNetworkSession = (): void => removeKey(NETWORK_SESSION_KEY);
+
+// PLAYER STATISTICS
+const PLAYER_STATS_KEY = 'oszust.playerStats';
+const PLAYER_STATS_VERSION = 1;
+
+interface SavedStats {
+  version: number;
+  stats: PlayerStats;
+}
+
+// Counters added in later versions start from zero.
+export const loadPlayerStats = (): PlayerStats => {
+  const saved = readJson<SavedStats>(PLAYER_STATS_KEY);
+  return saved && saved.version === PLAYER_STATS_VERSION && saved.stats
+    ? { ...createEmptyStats(), ...saved.stats }
+    : createEmptyStats();
+};
+
+export const savePlayerStats = (stats: PlayerStats): void => writeJson(PLAYER_STATS_KEY, { version: PLAYER_STATS_VERSION, stats });
+
+export const clearPlayerStats = (): void => removeKey(PLAYER_STATS_KEY);
+
+// SETTINGS
+const SETTINGS_KEY = 'oszust.settings';
+const SETTINGS_VERSION = 1;
+
+export interface Settings {
+  locale: Locale;
+  // The bluff-probability advisor next to the table.
+  showAdvisor: boolean;
+  // From 0 to 1; muting silences the sounds and the vibration without losing the volume.
+  soundVolume: number;
+  isMuted: boolean;
+}
+
+export const DEFAULT_SETTINGS: Settings = { locale: DEFAULT_LOCALE, showAdvisor: false, soundVolume: 0.7, isMuted: false };
+
+interface SavedSettings {
+  version: number;
+  settings: Settings;
+}
+
+// Unknown or invalid values fall back to their defaults one by one.
+export const loadSettings = (): Settings => {
+  const saved = readJson<SavedSettings>(SETTINGS_KEY);
+  if (!saved || saved.version !== SETTINGS_VERSION || !saved.settings) return DEFAULT_SETTINGS;
+  const { locale, showAdvisor, soundVolume, isMuted } = saved.settings;
+  return {
+    locale: isLocale(locale) ? locale : DEFAULT_SETTINGS.locale,
+    showAdvisor: typeof showAdvisor === 'boolean' ? showAdvisor : DEFAULT_SETTINGS.showAdvisor,
+    soundVolume: typeof soundVolume === 'number' && soundVolume >= 0 && soundVolume <= 1 ? soundVolume : DEFAULT_SETTINGS.soundVolume,
+    isMuted: typeof isMuted === 'boolean' ? isMuted : DEFAULT_SETTINGS.isMuted,
+  };
+};
+
+export const saveSettings = (settings: Settings): void => writeJson(SETTINGS_KEY, { version: SETTINGS_VERSION, settings });
@@ -0,0 +1,26 @@
+import { AiStrategy } from './ai';
+import { createHeuristicStrategy } from './heuristicAi';
+import { createExpertStrategy } from './expertAi';
+
+// Registry of the computer players a seat can be given. Strategies are listed
+// in registration order; unknown ids fall back to the default. Their names
+// come from the catalogs, under "strategy.<id>".
+
+export const DEFAULT_STRATEGY_ID = 'normal';
+
+const registry: AiStrategy[] = [];
+
+export const registerAiStrategy = (strategy: AiStrategy): void => {
+  if (registry.some(s => s.id === strategy.id)) throw new Error(`AI strategy "${strategy.id}" is already registered`);
+  registry.push(strategy);
+};
+
+export const getAiStrategies = (): AiStrategy[] => [...registry];
+
+export const getAiStrategy = (id: string | undefined): AiStrategy =>
+  registry.find(s => s.id === id) ?? registry.find(s => s.id === DEFAULT_STRATEGY_ID)!;
+
+registerAiStrategy(createHeuristicStrategy('easy', 'EASY'));
+registerAiStrategy(createHeuristicStrategy(DEFAULT_STRATEGY_ID, 'NORMAL'));
+registerAiStrategy(createHeuristicStrategy('hard', 'HARD'));
+registerAiStrategy(createExpertStrategy('expert'));
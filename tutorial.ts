@@ -0,0 +1,136 @@
+import { Card, GameAction, GameState, Rank, Suit } from './types';
+import { DEFAULT_RULES } from './constants';
+import { createGameFromHands, getCurrentPlayer } from './engine';
+import { AiStrategy } from './ai';
+
+// Guided tutorial: one fixed deal against a scripted opponent, played on the
+// real board. Every step teaches one rule (texts under "tutorial.<id>" in the
+// message catalogs), names the controls to highlight and the move that
+// completes it; any other move of the player is refused. The opponent's
+// replies are fixed as well, so the table is always in the state a step
+// describes.
+
+export const TUTORIAL_PLAYER_ID = 1;
+export const TUTORIAL_TUTOR_ID = 2;
+const TUTORIAL_SEED = 1;
+
+const card = (rank: Rank, suit: Suit): Card => ({ rank, suit, id: `${rank}-${suit}` });
+
+// Cards the step texts refer to.
+export const TUTORIAL_CARDS = {
+  starter: card('8', 'Kier'),
+  bluff: card('9', 'Kier'),
+  last: card('A', 'Kier'),
+};
+
+const PLAYER_HAND: Card[] = [
+  TUTORIAL_CARDS.starter, card('10', 'Kier'), card('10', 'Pik'), card('10', 'Trefl'), card('10', 'Karo'), TUTORIAL_CARDS.last,
+];
+const TUTOR_HAND: Card[] = [
+  TUTORIAL_CARDS.bluff, card('K', 'Karo'), card('9', 'Trefl'), card('Q', 'Pik'), card('Q', 'Kier'), card('K', 'Pik'), card('A', 'Pik'),
+];
+
+// The tutor's turns in order. Its first 9 is taken by the player, its false 10
+// is caught by the challenge, and its last play leaves it one card without a call.
+const TUTOR_PLAYS: { cardIds: string[]; declaredRank: Rank }[] = [
+  { cardIds: ['9-Kier'], declaredRank: '9' },
+  { cardIds: ['K-Karo'], declaredRank: '10' },
+  { cardIds: ['9-Trefl'], declaredRank: '9' },
+  { cardIds: ['Q-Pik'], declaredRank: 'J' },
+  { cardIds: ['K-Karo', 'Q-Kier', 'K-Pik'], declaredRank: 'A' },
+];
+
+export const createTutorialGame = (playerName: string, tutorName: string): GameState =>
+  createGameFromHands(
+    [
+      { id: TUTORIAL_PLAYER_ID, name: playerName, isHuman: true, hand: PLAYER_HAND },
+      { id: TUTORIAL_TUTOR_ID, name: tutorName, isHuman: false, hand: TUTOR_HAND },
+    ],
+    TUTORIAL_SEED,
+    DEFAULT_RULES
+  );
+
+// Never opens (the player holds the starter card), never corrects a missed call
+// and always checks the player's last card, which is honest.
+export const TUTOR_STRATEGY: AiStrategy = {
+  id: 'tutorial',
+  chooseOpening: () => {
+    throw new Error('The tutorial opponent never opens the game');
+  },
+  chooseMove: view => {
+    const turn = view.events.filter(event => event.type === 'CardsPlayed' && event.playerId === view.seatId).length;
+    const play = TUTOR_PLAYS[turn];
+    if (!play) throw new Error(`The tutorial script has no move for turn ${turn + 1}`);
+    return {
+      type: 'PLAY',
+      cards: play.cardIds.map(id => view.hand.find(c => c.id === id)!),
+      declaredRank: play.declaredRank,
+      declaresLastCard: false,
+    };
+  },
+  shouldChallengeFinalPlay: () => true,
+  reactToPenaltyWindow: () => null,
+};
+
+// STEPS
+export type TutorialStepId = 'intro' | 'opening' | 'take' | 'challenge' | 'fourOfAKind' | 'lastCard' | 'penalty' | 'finalPlay' | 'done';
+
+export type TutorialTarget = 'hand' | 'play' | 'take' | 'challenge' | 'lastCard' | 'report';
+
+export interface TutorialStep {
+  id: TutorialStepId;
+  highlights: TutorialTarget[];
+  // Until it holds the tutor is still moving.
+  isReady: (game: GameState) => boolean;
+  // The move that completes the step; steps without one are read and confirmed.
+  expects?: (action: GameAction) => boolean;
+}
+
+const isPlayerToMove = (game: GameState): boolean =>
+  game.winnerId === null && !game.penalty && getCurrentPlayer(game).id === TUTORIAL_PLAYER_ID;
+
+const playsExactly = (action: GameAction, cardIds: string[]): boolean =>
+  action.type === 'PLAY' &&
+  action.cards.length === cardIds.length &&
+  action.cards.every(c => cardIds.includes(c.id));
+
+export const TUTORIAL_STEPS: TutorialStep[] = [
+  { id: 'intro', highlights: [], isReady: () => true },
+  {
+    id: 'opening',
+    highlights: ['hand', 'play'],
+    isReady: isPlayerToMove,
+    expects: action => playsExactly(action, [TUTORIAL_CARDS.starter.id]),
+  },
+  { id: 'take', highlights: ['take'], isReady: isPlayerToMove, expects: action => action.type === 'TAKE' },
+  { id: 'challenge', highlights: ['challenge'], isReady: isPlayerToMove, expects: action => action.type === 'CHALLENGE' },
+  {
+    id: 'fourOfAKind',
+    highlights: ['hand', 'play'],
+    isReady: isPlayerToMove,
+    expects: action => playsExactly(action, ['10-Kier', '10-Pik', '10-Trefl', '10-Karo']),
+  },
+  {
+    id: 'lastCard',
+    highlights: ['hand', 'lastCard', 'play'],
+    isReady: isPlayerToMove,
+    expects: action => playsExactly(action, [TUTORIAL_CARDS.bluff.id]) && action.type === 'PLAY' && !!action.declaresLastCard,
+  },
+  {
+    id: 'penalty',
+    highlights: ['report'],
+    isReady: game => !!game.penalty,
+    expects: action => action.type === 'REPORT_PENALTY',
+  },
+  {
+    id: 'finalPlay',
+    highlights: ['hand', 'play'],
+    isReady: isPlayerToMove,
+    expects: action => playsExactly(action, [TUTORIAL_CARDS.last.id]),
+  },
+  { id: 'done', highlights: [], isReady: game => game.winnerId === TUTORIAL_PLAYER_ID },
+];
+
+// Moves of the tutor and timed steps always go through; the player's only when the step asks for them.
+export const isTutorialMoveAllowed = (step: TutorialStep, action: GameAction): boolean =>
+  !('playerId' in action) || action.playerId !== TUTORIAL_PLAYER_ID || (step.expects?.(action) ?? false);
@@ -1,5 +1,23 @@
 export type Suit = 'Pik' | 'Kier' | 'Trefl' | 'Karo';
-export type Rank = '8' | '9' | '10' | 'J' | 'Q' | 'K' | 'A';
+export type Rank = '2' | '3' | '4' | '5' | '6' | '7' | '8' | '9' | '10' | 'J' | 'Q' | 'K' | 'A';
+
+export type DeckId = 'short' | 'classic' | 'piquet' | 'full' | 'double';
+
+// A time limit for every turn, or a chess clock: one allowance per player for
+// the whole game. Named under "timeControl.<id>" in the message catalogs.
+export type TimeControl = 'off' | 'turn' | 'chess';
+
+// What is done for a player whose time runs out: "Pobierz" (or passing the
+// turn when there is nothing to take), passing the turn, or losing the game.
+// A final play awaiting the player's check is conceded either way. Named under "timeoutAction.<id>" in the message catalogs.
+export type TimeoutAction = 'take' | 'pass' | 'lose';
+
+// The ranks in play, lowest first, each dealt in every suit `copies` times.
+// Named under "deck.<id>" in the message catalogs.
+export interface Deck {
+  ranks: Rank[];
+  copies: number;
+}
 
 export interface Card {
   suit: Suit;
@@ -12,9 +30,40 @@ export interface Player {
   name: string;
   hand: Card[];
   isHuman: boolean;
+  // Registered AI strategy for computer seats; the default one when absent.
+  strategyId?: string;
+}
+
+export interface SeatConfig {
+  isHuman: boolean;
+  strategyId?: string;
+}
+
+// House rules a table is played with; DEFAULT_RULES are the classic ones.
+export interface RuleSet {
+  deck: DeckId;
+  // How many cards may be played face down under a declaration.
+  playSizes: number[];
+  // Four cards of one rank may be played face up; such a play cannot be challenged.
+  faceUpFourOfAKind: boolean;
+  // Cards taken with "Pobierz", and given as a last-card penalty.
+  takeCount: number;
+  penaltyCount: number;
+  // Time after a missed last-card call before it may be reported.
+  lastCardGraceMs: number;
+  // Whoever holds this card opens the game, declaring its rank.
+  starterCardId: string;
+  // The starter card stays at the bottom of the pile and is never taken.
+  isStarterPermanent: boolean;
+  // Allowed sizes of the opening play, starter card included; a lone starter is face up.
+  openingSizes: number[];
+  // Optional time control; the limit is per turn, or each player's allowance for the whole game.
+  timeControl: TimeControl;
+  timeLimitMs: number;
+  timeoutAction: TimeoutAction;
 }
 
-export type GamePhase = 'MENU' | 'PLAYING' | 'GAME_OVER';
+export type GamePhase = 'MENU' | 'STATS' | 'PLAYING' | 'GAME_OVER' | 'MATCH_SUMMARY';
 
 export interface LastPlay {
   playerId: number;
@@ -22,4 +71,86 @@ export interface LastPlay {
   declaredCount: number;
   actualCards: Card[];
   isChallengeable: boolean;
-}
\ No newline at end of file
+}
+
+// A missed last-card call being settled: first the grace period, in which
+// only the offender can correct it, then the open window, in which the
+// offender can still correct it and anyone else can report it. The table
+// waits meanwhile. Claims name the window by id (the index of its
+// LastCardMissed event), so one meant for an earlier window is refused.
+export interface PenaltyWindow {
+  id: number;
+  offenderId: number;
+  isOpen: boolean;
+}
+
+export type GameEvent =
+  | { type: 'GameStarted'; seed: number; starterId: number; hands: { playerId: number; cards: Card[] }[] }
+  | { type: 'CardsPlayed'; playerId: number; cards: Card[]; declaredRank: Rank; declaredCount: number; isOpening: boolean; isChallengeable: boolean }
+  | { type: 'FinalPlayPending'; playerId: number }
+  | {
+      type: 'ChallengeResolved';
+      challengerId: number;
+      challengedId: number;
+      declaredRank: Rank;
+      declaredCount: number;
+      revealedCards: Card[];
+      wasBluff: boolean;
+      takerId: number;
+      takenCount: number;
+    }
+  | { type: 'PileTaken'; playerId: number; count: number }
+  // Times in a reaction window (elapsedMs) count from the missed call; a call made with the play has none.
+  | { type: 'LastCardDeclared'; playerId: number; isLate: boolean; elapsedMs: number | null }
+  | { type: 'LastCardMissed'; playerId: number }
+  | { type: 'PenaltyWindowOpened'; offenderId: number }
+  | { type: 'PenaltyApplied'; reporterId: number; offenderId: number; count: number; elapsedMs: number }
+  | { type: 'PenaltyIgnored'; offenderId: number; elapsedMs: number }
+  // Followed by whatever the rules' timeoutAction did for the player.
+  | { type: 'TimedOut'; playerId: number }
+  // A game is conceded by not checking a final play, or lost on time (isTimeLoss) under the "lose" timeout action.
+  | { type: 'GameWon'; playerId: number; concededBy: number | null; isTimeLoss: boolean };
+
+export type GameEventType = GameEvent['type'];
+
+export interface GameState {
+  seed: number;
+  rules: RuleSet;
+  players: Player[];
+  currentPlayerIndex: number;
+  discardPile: Card[];
+  lastPlay: LastPlay | null;
+  finalPlay: LastPlay | null;
+  isOpeningMoveAvailable: boolean;
+  lastCardDeclarerId: number | null;
+  penalty: PenaltyWindow | null;
+  winnerId: number | null;
+  events: GameEvent[];
+}
+
+export type GameAction =
+  | { type: 'PLAY'; playerId: number; cards: Card[]; declaredRank: Rank; declaresLastCard?: boolean }
+  | { type: 'TAKE'; playerId: number }
+  | { type: 'CHALLENGE'; playerId: number }
+  | { type: 'CONCEDE'; playerId: number }
+  // Reaction-window steps carry the window's id and the time since the missed call, as measured by whoever runs the table.
+  | { type: 'DECLARE_LAST_CARD'; playerId: number; windowId: number; elapsedMs: number }
+  | { type: 'OPEN_PENALTY_WINDOW'; windowId: number }
+  | { type: 'REPORT_PENALTY'; playerId: number; windowId: number; elapsedMs: number }
+  | { type: 'CLOSE_PENALTY_WINDOW'; windowId: number; elapsedMs: number }
+  | { type: 'TIME_OUT'; playerId: number };
+
+// Why the engine refuses a play; getPlayRejection gives null for a legal one.
+// Explained under "playRejection.<type>" in the message catalogs.
+export type PlayRejection =
+  | { type: 'NOT_YOUR_TURN' }
+  | { type: 'PENALTY_PENDING' }
+  | { type: 'NO_CARDS' }
+  | { type: 'CARDS_NOT_IN_HAND' }
+  | { type: 'RANK_NOT_IN_DECK' }
+  | { type: 'OPENING_RANK'; rank: Rank }
+  | { type: 'OPENING_WITHOUT_STARTER'; starterCardId: string }
+  | { type: 'OPENING_SIZE'; sizes: number[] }
+  | { type: 'RANK_TOO_LOW'; minRank: Rank }
+  | { type: 'FOUR_OF_A_KIND_RANK'; rank: Rank }
+  | { type: 'PLAY_SIZE'; sizes: number[] };
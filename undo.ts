@@ -0,0 +1,26 @@
+import { GameState } from './types';
+import { getCurrentPlayer } from './engine';
+
+// Undo for practice games. The history holds every state a resolved action
+// replaced, oldest first; undo goes back to the last one in which a human had
+// a decision to make, so the computer's replies are taken back with it.
+
+// The engine only ever appends events, so a later state of the same game
+// still holds the very same event objects.
+const isContinuation = (previous: GameState, next: GameState): boolean =>
+  next.events.length > previous.events.length &&
+  next.events[previous.events.length - 1] === previous.events[previous.events.length - 1];
+
+export const isDecisionPoint = (game: GameState): boolean => game.winnerId === null && getCurrentPlayer(game).isHuman;
+
+// Called with every state change; anything that is not a step forward from the previous state leaves the history alone.
+export const recordUndoStep = (history: GameState[], previous: GameState | null, next: GameState | null): GameState[] =>
+  previous && next && isContinuation(previous, next) ? [...history, previous] : history;
+
+// The state to go back to and the history left behind it, or null when there is nothing to undo.
+export const undoToDecisionPoint = (history: GameState[]): { game: GameState; history: GameState[] } | null => {
+  for (let index = history.length - 1; index >= 0; index--) {
+    if (isDecisionPoint(history[index])) return { game: history[index], history: history.slice(0, index) };
+  }
+  return null;
+};